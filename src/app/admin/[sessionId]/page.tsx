@@ -2,9 +2,15 @@
 
 import { useState, useEffect } from 'react'
 import { useParams } from 'next/navigation'
-import { GameSession, Participant, Court, GameMatch } from '@/lib/types'
+import { GameSession, Participant, Court, GameMatch, SessionFormat, BracketType, CourtTier, LateJoinPolicy, OnCourtLeaveAction, QueueEditAction } from '@/lib/types'
+import { isScheduledFormat } from '@/lib/schedule'
+import { isPointsFormat, getAmericanoRoundCount } from '@/lib/points-tournament'
+import { LATE_JOIN_POLICIES, LATE_JOIN_POLICY_LABELS } from '@/lib/late-join'
 import Navigation from '@/components/ui/Navigation'
 import EditableCourtName from '@/components/EditableCourtName'
+import EditableCourtTier from '@/components/EditableCourtTier'
+import PointsStandings from '@/components/PointsStandings'
+import TournamentBracket from '@/components/TournamentBracket'
 
 export default function AdminPage() {
   const params = useParams()
@@ -16,6 +22,17 @@ export default function AdminPage() {
   const [generating, setGenerating] = useState(false)
   const [newParticipantName, setNewParticipantName] = useState('')
   const [addingParticipant, setAddingParticipant] = useState(false)
+  const [scoreInputs, setScoreInputs] = useState<Record<number, { team1: string; team2: string }>>({})
+  const [pairSelection, setPairSelection] = useState({ player1: '', player2: '' })
+  const [scheduleRoundCount, setScheduleRoundCount] = useState('8')
+  const [scheduleFormat, setScheduleFormat] = useState<SessionFormat>('schedule')
+  const [pointsPerMatch, setPointsPerMatch] = useState('24')
+  const [tournamentOptions, setTournamentOptions] = useState({ mode: 'elimination', rounds: '', poolCount: '0', advancePerPool: '2', bracketType: 'single' as BracketType })
+  const [tournamentBusy, setTournamentBusy] = useState(false)
+  const [scheduling, setScheduling] = useState(false)
+  const [substitution, setSubstitution] = useState<{ courtId: number; playerId: string; substituteId: string } | null>(null)
+  // 手动调整等待队列时选中的队列中的选手
+  const [queueSelection, setQueueSelection] = useState<string | null>(null)
 
   useEffect(() => {
     loadSession()
@@ -79,7 +96,10 @@ export default function AdminPage() {
       if (data.success) {
         setSession(data.data)
         setNewParticipantName('')
-        alert(`${newParticipantName.trim()} 已成功加入球局`)
+        const added = (data.data as GameSession).participants.find(p => p.name === newParticipantName.trim())
+        alert(added?.catchUpGames
+          ? `${newParticipantName.trim()} 已成功加入球局，迟到补记 ${added.catchUpGames} 场`
+          : `${newParticipantName.trim()} 已成功加入球局`)
       } else {
         alert(data.error || '添加参与者失败')
       }
@@ -92,19 +112,34 @@ export default function AdminPage() {
 
   const nextGroup = async (courtId: number) => {
     if (!session) return
+
+    // 两队比分都填写时才提交比分
+    const input = scoreInputs[courtId]
+    const score = input && input.team1 !== '' && input.team2 !== ''
+      ? { team1: Number(input.team1), team2: Number(input.team2) }
+      : undefined
+    
+    // 锦标赛比赛录入比分后按对阵表晋级
+    const tournamentMatchId = session.courts.find(c => c.id === courtId)?.tournamentMatchId
     
     try {
-      const response = await fetch(`/api/sessions/${sessionId}/next-group`, {
+      const response = await fetch(tournamentMatchId
+        ? `/api/sessions/${sessionId}/tournament/matches/${tournamentMatchId}`
+        : `/api/sessions/${sessionId}/next-group`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ courtId })
+        body: JSON.stringify({ courtId, score })
       })
       const data = await response.json()
       
       if (data.success) {
         setSession(data.data)
+        setScoreInputs(prev => {
+          const { [courtId]: _, ...rest } = prev
+          return rest
+        })
       } else {
         alert(data.error || '下一组进入失败')
       }
@@ -113,7 +148,7 @@ export default function AdminPage() {
     }
   }
 
-  const markParticipantLeft = async (participantId: string, reason?: string) => {
+  const markParticipantLeft = async (participantId: string, reason?: string, onCourtAction?: OnCourtLeaveAction) => {
     if (!session) return
     
     try {
@@ -122,12 +157,16 @@ export default function AdminPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ reason: reason || '提前离开' })
+        body: JSON.stringify({ reason: reason || '提前离开', onCourtAction })
       })
       const data = await response.json()
       
       if (data.success) {
         setSession(data.data)
+        // 场上离开时告知由谁替换或比赛已结束
+        if (onCourtAction && data.message) {
+          alert(data.message)
+        }
       } else {
         alert(data.error || '标记离开失败')
       }
@@ -136,6 +175,89 @@ export default function AdminPage() {
     }
   }
 
+  const substitutePlayer = async () => {
+    if (!session || !substitution) return
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/courts/${substitution.courtId}/substitute`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          playerId: substitution.playerId,
+          // 留空时由系统按上场优先级挑选替补
+          substituteId: substitution.substituteId || undefined
+        })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setSession(data.data)
+        setSubstitution(null)
+        alert(data.message)
+      } else {
+        alert(data.error || '换人失败')
+      }
+    } catch (err) {
+      alert('网络错误，请重试')
+    }
+  }
+
+  const editQueue = async (edit: { action: QueueEditAction; from?: number; to?: number; playerId?: string; otherPlayerId?: string; index?: number; locked?: boolean }) => {
+    if (!session) return
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/queue`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(edit)
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setSession(data.data)
+        setQueueSelection(null)
+      } else {
+        alert(data.error || '调整等待队列失败')
+      }
+    } catch (err) {
+      alert('网络错误，请重试')
+    }
+  }
+
+  const selectQueuedPlayer = (playerId: string) => {
+    if (!queueSelection) {
+      setQueueSelection(playerId)
+    } else if (queueSelection === playerId) {
+      setQueueSelection(null)
+    } else {
+      editQueue({ action: 'swap', playerId: queueSelection, otherPlayerId: playerId })
+    }
+  }
+
+  const removeParticipant = async (participantId: string, scrubHistory: boolean) => {
+    if (!session) return
+
+    try {
+      const query = new URLSearchParams({ participantId, scrubHistory: String(scrubHistory) })
+      const response = await fetch(`/api/sessions/${sessionId}/participants?${query}`, {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setSession(data.data)
+      } else {
+        alert(data.error || '移除参与者失败')
+      }
+    } catch (err) {
+      alert('网络错误，请重试')
+    }
+  }
+
   const rejoinParticipant = async (participantId: string) => {
     if (!session) return
     
@@ -155,6 +277,271 @@ export default function AdminPage() {
     }
   }
 
+  const lockPair = async () => {
+    if (!session) return
+    if (!pairSelection.player1 || !pairSelection.player2 || pairSelection.player1 === pairSelection.player2) {
+      alert('请选择两个不同的参与者')
+      return
+    }
+    
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/locked-pairs`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(pairSelection)
+      })
+      const data = await response.json()
+      
+      if (data.success) {
+        setSession(data.data)
+        setPairSelection({ player1: '', player2: '' })
+      } else {
+        alert(data.error || '设置固定搭档失败')
+      }
+    } catch (err) {
+      alert('网络错误，请重试')
+    }
+  }
+
+  const unlockPair = async (pairId: string) => {
+    if (!session) return
+    
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/locked-pairs?pairId=${pairId}`, {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+      
+      if (data.success) {
+        setSession(data.data)
+      } else {
+        alert(data.error || '解除固定搭档失败')
+      }
+    } catch (err) {
+      alert('网络错误，请重试')
+    }
+  }
+
+  const generateSchedule = async () => {
+    if (!session) return
+    if (session.schedule && !confirm('重新生成会覆盖现有赛程，确定继续吗？')) return
+    
+    try {
+      setScheduling(true)
+      const response = await fetch(`/api/sessions/${sessionId}/schedule`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          rounds: Number(scheduleRoundCount),
+          format: scheduleFormat,
+          pointsPerMatch: isPointsFormat(scheduleFormat) && pointsPerMatch ? Number(pointsPerMatch) : undefined
+        })
+      })
+      const data = await response.json()
+      
+      if (data.success) {
+        setSession(data.data)
+      } else {
+        alert(data.error || '生成赛程失败')
+      }
+    } catch (err) {
+      alert('网络错误，请重试')
+    } finally {
+      setScheduling(false)
+    }
+  }
+
+  const startScheduleRound = async (round?: number) => {
+    if (!session) return
+    
+    try {
+      setScheduling(true)
+      const response = await fetch(`/api/sessions/${sessionId}/schedule`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ round })
+      })
+      const data = await response.json()
+      
+      if (data.success) {
+        setSession(data.data)
+        if (data.message && data.message.includes('取消')) {
+          alert(data.message)
+        }
+      } else {
+        alert(data.error || '开始赛程轮次失败')
+      }
+    } catch (err) {
+      alert('网络错误，请重试')
+    } finally {
+      setScheduling(false)
+    }
+  }
+
+  const startLadder = async () => {
+    if (!session) return
+    
+    try {
+      setGenerating(true)
+      const response = await fetch(`/api/sessions/${sessionId}/ladder`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'start' })
+      })
+      const data = await response.json()
+      
+      if (data.success) {
+        setSession(data.data)
+      } else {
+        alert(data.error || '开始升降梯失败')
+      }
+    } catch (err) {
+      alert('网络错误，请重试')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const rotateLadder = async () => {
+    if (!session) return
+
+    // 升降梯需要提交所有进行中场地的比分
+    const scores: Record<number, { team1: number; team2: number }> = {}
+    for (const court of session.courts) {
+      if (court.status !== 'playing') continue
+      const input = scoreInputs[court.id]
+      if (!input || input.team1 === '' || input.team2 === '') {
+        alert(`${court.name || `场地 ${court.id}`} 还没有填写比分`)
+        return
+      }
+      scores[court.id] = { team1: Number(input.team1), team2: Number(input.team2) }
+    }
+    
+    try {
+      setGenerating(true)
+      const response = await fetch(`/api/sessions/${sessionId}/ladder`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'rotate', scores })
+      })
+      const data = await response.json()
+      
+      if (data.success) {
+        setSession(data.data)
+        setScoreInputs({})
+      } else {
+        alert(data.error || '升降梯轮换失败')
+      }
+    } catch (err) {
+      alert('网络错误，请重试')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const createTournament = async () => {
+    if (!session) return
+    if (session.tournament && !confirm('重新创建会清除现有锦标赛的全部结果，确定继续吗？')) return
+    
+    try {
+      setTournamentBusy(true)
+      const response = await fetch(`/api/sessions/${sessionId}/tournament`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          mode: tournamentOptions.mode,
+          rounds: tournamentOptions.rounds ? Number(tournamentOptions.rounds) : undefined,
+          poolCount: Number(tournamentOptions.poolCount),
+          advancePerPool: Number(tournamentOptions.advancePerPool),
+          bracketType: tournamentOptions.bracketType
+        })
+      })
+      const data = await response.json()
+      
+      if (data.success) {
+        setSession(data.data)
+      } else {
+        alert(data.error || '创建锦标赛失败')
+      }
+    } catch (err) {
+      alert('网络错误，请重试')
+    } finally {
+      setTournamentBusy(false)
+    }
+  }
+
+  const endTournament = async () => {
+    if (!session) return
+    if (!confirm('确定要结束锦标赛并恢复自由轮换吗？')) return
+    
+    try {
+      setTournamentBusy(true)
+      const response = await fetch(`/api/sessions/${sessionId}/tournament`, {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+      
+      if (data.success) {
+        setSession(data.data)
+      } else {
+        alert(data.error || '结束锦标赛失败')
+      }
+    } catch (err) {
+      alert('网络错误，请重试')
+    } finally {
+      setTournamentBusy(false)
+    }
+  }
+
+  const changeScheduleFormat = (format: SessionFormat) => {
+    setScheduleFormat(format)
+    // Americano 默认排到每个人和所有人各搭档一次
+    if (format === 'americano' && session) {
+      const rounds = getAmericanoRoundCount(
+        session.participants.filter(p => !p.hasLeft).length,
+        session.courts.length
+      )
+      if (rounds > 0) {
+        setScheduleRoundCount(String(rounds))
+      }
+    }
+  }
+
+  const clearSchedule = async () => {
+    if (!session) return
+    if (!confirm('确定要删除赛程并恢复自由轮换吗？')) return
+    
+    try {
+      setScheduling(true)
+      const response = await fetch(`/api/sessions/${sessionId}/schedule`, {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+      
+      if (data.success) {
+        setSession(data.data)
+      } else {
+        alert(data.error || '删除赛程失败')
+      }
+    } catch (err) {
+      alert('网络错误，请重试')
+    } finally {
+      setScheduling(false)
+    }
+  }
+
   const updateCourtName = async (courtId: number, newName: string) => {
     try {
       const response = await fetch(`/api/sessions/${sessionId}/courts/${courtId}`, {
@@ -177,6 +564,97 @@ export default function AdminPage() {
     }
   };
 
+  const updateLateJoinPolicy = async (lateJoinPolicy: LateJoinPolicy) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/settings`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ lateJoinPolicy }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setSession(data.data);
+      } else {
+        alert(data.error || '更新迟到补记策略失败');
+      }
+    } catch (error) {
+      console.error('更新迟到补记策略失败:', error);
+      alert('网络错误，请重试');
+    }
+  };
+
+  const updateCourtTier = async (courtId: number, tier: CourtTier | null) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/courts/${courtId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ tier }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setSession(data.data);
+      } else {
+        alert(data.error || '更新场地级别失败');
+      }
+    } catch (error) {
+      console.error('更新场地级别失败:', error);
+      alert('网络错误，请重试');
+    }
+  };
+
+  const addCourt = async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/courts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setSession(data.data);
+      } else {
+        alert(data.error || '新增场地失败');
+      }
+    } catch (error) {
+      console.error('新增场地失败:', error);
+      alert('网络错误，请重试');
+    }
+  };
+
+  const removeCourt = async (court: Court) => {
+    const courtName = court.name || `场地 ${court.id}`;
+    const prompt = court.status === 'playing'
+      ? `${courtName}正在比赛，确定在这场比赛结束后移除该场地吗？`
+      : `确定要移除${courtName}吗？`;
+    if (!confirm(prompt)) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/courts/${court.id}`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setSession(data.data);
+        alert(data.message);
+      } else {
+        alert(data.error || '移除场地失败');
+      }
+    } catch (error) {
+      console.error('移除场地失败:', error);
+      alert('网络错误，请重试');
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -240,11 +718,84 @@ export default function AdminPage() {
     )
   }
 
+  // 上场/等待时长：当前等待中的参与者显示本次已等待时间
+  const formatMinutesStats = (participant: Participant) => {
+    const currentWait = participant.waitingSince
+      ? Math.floor((Date.now() - new Date(participant.waitingSince).getTime()) / 60000)
+      : 0
+    const parts = [
+      `上场 ${Math.round(participant.courtMinutes || 0)} 分钟`,
+      `最长等待 ${Math.round(Math.max(participant.longestWaitMinutes || 0, currentWait))} 分钟`
+    ]
+    if (participant.waitingSince) {
+      parts.push(`本次已等 ${currentWait} 分钟`)
+    }
+    return parts.join(' • ')
+  }
+
   const getParticipantName = (id: string) => {
     return session.participants.find(p => p.id === id)?.name || '未知'
   }
 
+  const updateScoreInput = (courtId: number, team: 'team1' | 'team2', value: string) => {
+    setScoreInputs(prev => ({
+      ...prev,
+      [courtId]: { ...(prev[courtId] || { team1: '', team2: '' }), [team]: value }
+    }))
+  }
+
+  const recentResults = (session.results || []).slice(-5).reverse()
+  const recentSeeds = (session.seedHistory || []).slice(-5).reverse()
+  const seedSourceLabels: Record<string, string> = {
+    'create': '创建球局',
+    'generate': '生成新轮次',
+    'next-round': '下一轮',
+    'finish-game': '结束比赛补位',
+    'queue': '队列维护',
+    'schedule': '预排赛程'
+  }
+
+  const schedule = isScheduledFormat(session.settings.format) ? session.schedule : undefined
+  const scheduleTotalRounds = schedule ? (schedule.totalRounds ?? schedule.rounds.length) : 0
+  const isPointsTournament = isPointsFormat(session.settings.format)
+  const tournament = session.settings.format === 'tournament' ? session.tournament : undefined
+  const isKingOfCourt = session.settings.format === 'king-of-court'
+  const isLadder = session.settings.format === 'ladder'
+  const isRotation = (session.settings.format ?? 'rotation') === 'rotation'
+  const hasPlayingCourts = session.courts.some(court => court.status === 'playing')
+  // 升降梯按场地编号从高到低显示
+  const displayCourts = isLadder ? [...session.courts].sort((a, b) => a.id - b.id) : session.courts
+  const challengerQueue = isKingOfCourt ? (session.challengerQueue || []) : []
+  const getCourtName = (courtId?: number) => {
+    const court = session.courts.find(c => c.id === courtId)
+    return court?.name || `场地 ${courtId}`
+  }
+
   const activeParticipants = session.participants.filter(p => !p.hasLeft)
+  // 可以替补上场的人：未离开、不在场上
+  const benchParticipants = activeParticipants.filter(p => p.status !== 'playing' && p.status !== 'away')
+  const renderSubstituteButton = (courtId: number, playerId: string) => (
+    <button
+      onClick={() => setSubstitution({ courtId, playerId, substituteId: '' })}
+      className="text-xs text-gray-400 hover:text-gray-700 opacity-0 group-hover:opacity-100"
+      title="比赛中换人"
+    >
+      换人
+    </button>
+  )
+  const renderQueuedPlayer = (playerId: string) => (
+    <button
+      onClick={() => selectQueuedPlayer(playerId)}
+      className={`rounded px-1 ${queueSelection === playerId ? 'bg-yellow-200 ring-2 ring-yellow-400' : 'hover:bg-white'}`}
+      title="点击选中，再点击另一人交换"
+    >
+      {getParticipantName(playerId)}
+    </button>
+  )
+  const lockedPairs = session.lockedPairs || []
+  const unpairedParticipants = activeParticipants.filter(p =>
+    !lockedPairs.some(pair => pair.player1 === p.id || pair.player2 === p.id)
+  )
   const leftParticipants = session.participants.filter(p => p.hasLeft)
   
   const playingParticipants = activeParticipants.filter(p => p.status === 'playing')
@@ -265,6 +816,16 @@ export default function AdminPage() {
           <div className="flex items-center space-x-3">
             {/* 添加参与者 */}
             <div className="flex items-center space-x-2">
+              <select
+                value={session.settings.lateJoinPolicy ?? 'none'}
+                onChange={(e) => updateLateJoinPolicy(e.target.value as LateJoinPolicy)}
+                title="比赛开始后加入的参与者补记多少场，只影响上场优先级，避免新人连续霸占场地"
+                className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+              >
+                {LATE_JOIN_POLICIES.map(policy => (
+                  <option key={policy} value={policy}>迟到补记：{LATE_JOIN_POLICY_LABELS[policy]}</option>
+                ))}
+              </select>
               <input
                 type="text"
                 value={newParticipantName}
@@ -286,13 +847,24 @@ export default function AdminPage() {
               </button>
             </div>
             
-            <button
-              onClick={generateNewRound}
-              disabled={generating}
-              className="bg-pickleball-600 text-white px-4 py-2 rounded-lg hover:bg-pickleball-700 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {generating ? '生成中...' : '生成新轮次'}
-            </button>
+            {isLadder ? (
+              <button
+                onClick={hasPlayingCourts ? rotateLadder : startLadder}
+                disabled={generating}
+                className="bg-pickleball-600 text-white px-4 py-2 rounded-lg hover:bg-pickleball-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {generating ? '轮换中...' : hasPlayingCourts ? '整轮轮换' : '按水平开始升降梯'}
+              </button>
+            ) : (
+              <button
+                onClick={generateNewRound}
+                disabled={generating || !!schedule || !!tournament}
+                title={schedule ? '赛程模式下请在预排赛程中开始下一轮' : tournament ? '锦标赛比赛会在场地空出时自动安排' : undefined}
+                className="bg-pickleball-600 text-white px-4 py-2 rounded-lg hover:bg-pickleball-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {generating ? '生成中...' : '生成新轮次'}
+              </button>
+            )}
           </div>
         }
       />
@@ -305,6 +877,9 @@ export default function AdminPage() {
             <p className="text-gray-600">球局编号: {sessionId}</p>
             <div className="text-sm text-gray-500 mt-2">
               第 {session.stats.currentRound} 轮 | 总比赛 {session.stats.totalGamesPlayed} 场
+              {recentSeeds.length > 0 && (
+                <span> | 随机种子 <span className="font-mono">{recentSeeds[0].seed}</span></span>
+              )}
             </div>
           </div>
         </div>
@@ -345,23 +920,58 @@ export default function AdminPage() {
           <div className="bg-white rounded-xl shadow-lg p-6">
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-2xl font-semibold text-gray-800">当前比赛</h2>
+              <button
+                onClick={addCourt}
+                className="bg-green-600 text-white px-3 py-1 rounded text-sm hover:bg-green-700"
+              >
+                + 添加场地
+              </button>
             </div>
+            {isLadder && (
+              <p className="text-sm text-gray-600 mb-4">
+                升降梯：场地编号越小级别越高。所有场地填写比分后点击"整轮轮换"，赢家升一级、输家降一级并拆开搭档。
+              </p>
+            )}
             
             <div className="space-y-4">
-              {session.courts.map((court, index) => (
+              {displayCourts.map((court, index) => (
                 <div key={index} className="border border-gray-200 rounded-lg p-4 group">
                   <div className="flex justify-between items-center mb-3">
-                    <EditableCourtName
-                      courtId={court.id}
-                      currentName={court.name || `场地 ${court.id}`}
-                      onUpdate={updateCourtName}
-                    />
-                    {(court.team1 && court.team2) || session.queue.length > 0 ? (
+                    <div className="flex items-center gap-2">
+                      <EditableCourtName
+                        courtId={court.id}
+                        currentName={court.name || `场地 ${court.id}`}
+                        onUpdate={updateCourtName}
+                      />
+                      {!isLadder && !tournament && !schedule && (
+                        <EditableCourtTier
+                          courtId={court.id}
+                          tier={court.tier}
+                          onUpdate={updateCourtTier}
+                        />
+                      )}
+                      {court.draining ? (
+                        <span className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded">比赛结束后移除</span>
+                      ) : (
+                        <button
+                          onClick={() => removeCourt(court)}
+                          className="text-xs text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                          title="移除场地"
+                        >
+                          移除
+                        </button>
+                      )}
+                    </div>
+                    {isLadder ? (
+                      <span className="text-sm text-gray-500">
+                        {index === 0 ? '最高级' : index === displayCourts.length - 1 ? '最低级' : `第 ${index + 1} 级`}
+                      </span>
+                    ) : (court.team1 && court.team2) || (!tournament && (session.queue.length > 0 || challengerQueue.length >= 4)) ? (
                       <button
                         onClick={() => nextGroup(court.id)}
                         className="bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700"
                       >
-                        下一组
+                        {tournament ? '录入比分' : schedule ? '结束比赛' : '下一组'}
                       </button>
                     ) : null}
                   </div>
@@ -369,23 +979,81 @@ export default function AdminPage() {
                   {court.team1 && court.team2 ? (
                     <div className="grid grid-cols-2 gap-4">
                       <div className="bg-blue-50 rounded-lg p-3">
-                        <div className="text-sm text-blue-700 font-medium mb-1">队伍 A</div>
-                        <div className="text-blue-800">
-                          {getParticipantName(court.team1.player1)}
+                        <div className="text-sm text-blue-700 font-medium mb-1">
+                          {isKingOfCourt ? '守擂方' : '队伍 A'}
+                          {isKingOfCourt && (court.streak || 0) > 0 && (
+                            <span className="ml-2 text-orange-600">🔥 {court.streak} 连胜</span>
+                          )}
                         </div>
-                        <div className="text-blue-800">
-                          {getParticipantName(court.team1.player2)}
+                        <div className="text-blue-800 flex justify-between items-center">
+                          <span>{getParticipantName(court.team1.player1)}</span>
+                          {renderSubstituteButton(court.id, court.team1.player1)}
+                        </div>
+                        <div className="text-blue-800 flex justify-between items-center">
+                          <span>{getParticipantName(court.team1.player2)}</span>
+                          {renderSubstituteButton(court.id, court.team1.player2)}
                         </div>
                       </div>
                       <div className="bg-red-50 rounded-lg p-3">
-                        <div className="text-sm text-red-700 font-medium mb-1">队伍 B</div>
-                        <div className="text-red-800">
-                          {getParticipantName(court.team2.player1)}
+                        <div className="text-sm text-red-700 font-medium mb-1">{isKingOfCourt ? '挑战方' : '队伍 B'}</div>
+                        <div className="text-red-800 flex justify-between items-center">
+                          <span>{getParticipantName(court.team2.player1)}</span>
+                          {renderSubstituteButton(court.id, court.team2.player1)}
                         </div>
-                        <div className="text-red-800">
-                          {getParticipantName(court.team2.player2)}
+                        <div className="text-red-800 flex justify-between items-center">
+                          <span>{getParticipantName(court.team2.player2)}</span>
+                          {renderSubstituteButton(court.id, court.team2.player2)}
                         </div>
                       </div>
+                      <div className="col-span-2 flex items-center justify-center space-x-2 text-sm text-gray-600">
+                        <span>{isKingOfCourt || isLadder || isPointsTournament || tournament ? '比分（必填）' : '比分（可选）'}</span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={scoreInputs[court.id]?.team1 ?? ''}
+                          onChange={(e) => updateScoreInput(court.id, 'team1', e.target.value)}
+                          placeholder="A"
+                          className="w-16 px-2 py-1 border border-gray-300 rounded text-center focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+                        />
+                        <span>:</span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={scoreInputs[court.id]?.team2 ?? ''}
+                          onChange={(e) => updateScoreInput(court.id, 'team2', e.target.value)}
+                          placeholder="B"
+                          className="w-16 px-2 py-1 border border-gray-300 rounded text-center focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+                        />
+                      </div>
+                      {substitution?.courtId === court.id && (
+                        <div className="col-span-2 flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700 bg-gray-50 rounded-lg p-2">
+                          <span>换下 {getParticipantName(substitution.playerId)}，换上</span>
+                          <select
+                            value={substitution.substituteId}
+                            onChange={(e) => setSubstitution({ ...substitution, substituteId: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+                          >
+                            <option value="">自动（按上场优先级）</option>
+                            {benchParticipants.map(p => (
+                              <option key={p.id} value={p.id}>
+                                {p.name}（{p.gamesPlayed} 场{p.status === 'queued' ? '，排队中' : ''}）
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={substitutePlayer}
+                            className="bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700"
+                          >
+                            确定换人
+                          </button>
+                          <button
+                            onClick={() => setSubstitution(null)}
+                            className="text-gray-500 hover:text-gray-700 px-2 py-1"
+                          >
+                            取消
+                          </button>
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <div className="text-gray-500 text-center py-4">
@@ -399,36 +1067,415 @@ export default function AdminPage() {
 
           {/* 等待队列 */}
           <div className="bg-white rounded-xl shadow-lg p-6">
-            <h2 className="text-2xl font-semibold text-gray-800 mb-6">等待队列</h2>
-            {session.queue.length > 0 ? (
+            <h2 className="text-2xl font-semibold text-gray-800 mb-6">{isKingOfCourt ? '挑战者队列' : '等待队列'}</h2>
+            {session.ruleWarning && (
+              <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded-lg mb-4 text-sm">
+                ⚠️ {session.ruleWarning}。可以增加参与者，或调整禁止组合和固定搭档设置。
+              </div>
+            )}
+            {!isKingOfCourt && session.queueWarning && (
+              <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded-lg mb-4 text-sm">
+                ⚠️ {session.queueWarning}。可以增加参与者、减少场地，或在超级管理员页面放宽休息规则。
+              </div>
+            )}
+            {isKingOfCourt ? (
+              challengerQueue.length > 0 ? (
+                <div>
+                  <div className="flex flex-wrap gap-2">
+                    {challengerQueue.map((playerId, index) => (
+                      <span
+                        key={playerId}
+                        className={`px-3 py-1 rounded-full text-sm ${
+                          index < 2 ? 'bg-yellow-100 text-yellow-800 font-medium' : 'bg-gray-100 text-gray-700'
+                        }`}
+                      >
+                        {index + 1}. {getParticipantName(playerId)}
+                      </span>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    队首两人组队挑战下一个结束比赛的场地，输方排到队尾
+                    {(session.settings.kingStreakLimit || 0) > 0 && `，守擂 ${session.settings.kingStreakLimit} 连胜后拆开下场`}
+                  </p>
+                </div>
+              ) : (
+                <div className="text-gray-500 text-center py-8">
+                  暂无挑战者排队
+                </div>
+              )
+            ) : session.queue.length > 0 ? (
               <div className="space-y-3">
                 {session.queue.map((match, index) => (
-                  <div key={index} className="border border-gray-200 rounded-lg p-4">
+                  <div key={index} className={`border rounded-lg p-4 ${match.locked ? 'border-yellow-400' : 'border-gray-200'}`}>
+                    {isRotation && (
+                      <div className="flex justify-between items-center mb-2 text-sm">
+                        <span className="text-gray-600">第 {index + 1} 组{match.locked && <span className="ml-2 text-yellow-700">🔒 已锁定</span>}</span>
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => editQueue({ action: 'move', from: index, to: index - 1 })}
+                            disabled={index === 0}
+                            className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                            title="上移"
+                          >
+                            ↑
+                          </button>
+                          <button
+                            onClick={() => editQueue({ action: 'move', from: index, to: index + 1 })}
+                            disabled={index === session.queue.length - 1}
+                            className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                            title="下移"
+                          >
+                            ↓
+                          </button>
+                          <button
+                            onClick={() => editQueue({ action: 'lock', index, locked: !match.locked })}
+                            className="text-xs text-gray-500 hover:text-gray-800"
+                          >
+                            {match.locked ? '解锁' : '锁定'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
                     <div className="grid grid-cols-2 gap-4">
                       <div className="bg-blue-50 rounded-lg p-3">
                         <div className="text-sm text-blue-700 font-medium mb-1">队伍 A</div>
                         <div className="text-blue-800">
-                          {getParticipantName(match.team1.player1)} & {getParticipantName(match.team1.player2)}
+                          {isRotation ? (
+                            <>{renderQueuedPlayer(match.team1.player1)} & {renderQueuedPlayer(match.team1.player2)}</>
+                          ) : (
+                            <>{getParticipantName(match.team1.player1)} & {getParticipantName(match.team1.player2)}</>
+                          )}
                         </div>
                       </div>
                       <div className="bg-red-50 rounded-lg p-3">
                         <div className="text-sm text-red-700 font-medium mb-1">队伍 B</div>
                         <div className="text-red-800">
-                          {getParticipantName(match.team2.player1)} & {getParticipantName(match.team2.player2)}
+                          {isRotation ? (
+                            <>{renderQueuedPlayer(match.team2.player1)} & {renderQueuedPlayer(match.team2.player2)}</>
+                          ) : (
+                            <>{getParticipantName(match.team2.player1)} & {getParticipantName(match.team2.player2)}</>
+                          )}
                         </div>
                       </div>
                     </div>
                   </div>
                 ))}
+                {queueSelection && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 bg-gray-50 rounded-lg p-3">
+                    <span>已选中 {getParticipantName(queueSelection)}：点击队列中的另一人交换，或换成</span>
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && editQueue({ action: 'swap', playerId: queueSelection, otherPlayerId: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+                    >
+                      <option value="">休息中的人…</option>
+                      {benchParticipants.filter(p => p.status !== 'queued').map(p => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}（{p.gamesPlayed} 场）
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setQueueSelection(null)}
+                      className="text-gray-500 hover:text-gray-700 px-2 py-1"
+                    >
+                      取消
+                    </button>
+                  </div>
+                )}
+                {isRotation && (
+                  <p className="text-xs text-gray-500">
+                    调整过的组自动锁定，比赛结束重新规划队列时保留原位；解锁后由系统重新分组
+                  </p>
+                )}
               </div>
             ) : (
               <div className="text-gray-500 text-center py-8">
                 暂无等待队列
               </div>
             )}
+
+            {/* 最近比赛结果 */}
+            {recentResults.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-lg font-medium text-gray-800 mb-3">最近比赛结果</h3>
+                <div className="space-y-2">
+                  {recentResults.map(result => (
+                    <div key={result.id} className="flex justify-between items-center bg-gray-50 rounded-lg px-3 py-2 text-sm">
+                      <span className={result.winner === 'team1' ? 'font-semibold text-blue-800' : 'text-gray-700'}>
+                        {getParticipantName(result.team1.player1)} & {getParticipantName(result.team1.player2)}
+                      </span>
+                      <span className="font-mono text-gray-800 px-2">
+                        {result.score ? `${result.score.team1} : ${result.score.team2}` : '未记分'}
+                      </span>
+                      <span className={result.winner === 'team2' ? 'font-semibold text-red-800' : 'text-gray-700'}>
+                        {getParticipantName(result.team2.player1)} & {getParticipantName(result.team2.player2)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* 随机种子记录 */}
+            {recentSeeds.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-lg font-medium text-gray-800 mb-3">随机种子记录</h3>
+                <div className="space-y-1">
+                  {recentSeeds.map((record, index) => (
+                    <div key={index} className="flex justify-between items-center bg-gray-50 rounded-lg px-3 py-2 text-sm text-gray-700">
+                      <span>第 {record.round} 轮 · {seedSourceLabels[record.source] || record.source}</span>
+                      <span className="font-mono text-gray-800">{record.seed}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  相同种子在相同球局状态下会得到完全一致的分配，可在测试页面输入种子重放
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* 积分赛积分榜 */}
+        {isPointsTournament && schedule && (
+          <PointsStandings session={session} className="mt-8 print:shadow-none" />
+        )}
+
+        {/* 预排赛程 */}
+        <div className="bg-white rounded-xl shadow-lg p-6 mt-8 print:shadow-none">
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+            <h2 className="text-2xl font-semibold text-gray-800">预排赛程 / 积分赛</h2>
+            <div className="flex flex-wrap items-center gap-2 print:hidden">
+              <select
+                value={scheduleFormat}
+                onChange={(e) => changeScheduleFormat(e.target.value as SessionFormat)}
+                className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+              >
+                <option value="schedule">循环赛程</option>
+                <option value="americano">Americano</option>
+                <option value="mexicano">Mexicano</option>
+              </select>
+              {isPointsFormat(scheduleFormat) && (
+                <>
+                  <span className="text-sm text-gray-600">每场</span>
+                  <input
+                    type="number"
+                    min="4"
+                    max="64"
+                    value={pointsPerMatch}
+                    onChange={(e) => setPointsPerMatch(e.target.value)}
+                    placeholder="不限"
+                    className="w-16 px-2 py-1 border border-gray-300 rounded text-sm text-center focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+                  />
+                  <span className="text-sm text-gray-600">分</span>
+                </>
+              )}
+              <input
+                type="number"
+                min="1"
+                max="30"
+                value={scheduleRoundCount}
+                onChange={(e) => setScheduleRoundCount(e.target.value)}
+                className="w-16 px-2 py-1 border border-gray-300 rounded text-sm text-center focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+              />
+              <span className="text-sm text-gray-600">轮</span>
+              <button
+                onClick={generateSchedule}
+                disabled={scheduling || !scheduleRoundCount}
+                className="bg-pickleball-600 text-white px-3 py-1 rounded text-sm hover:bg-pickleball-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {schedule ? '重新生成' : '生成赛程'}
+              </button>
+              {schedule && (
+                <>
+                  <button
+                    onClick={() => window.print()}
+                    className="bg-gray-600 text-white px-3 py-1 rounded text-sm hover:bg-gray-700"
+                  >
+                    打印
+                  </button>
+                  <button
+                    onClick={clearSchedule}
+                    disabled={scheduling}
+                    className="text-red-600 hover:text-red-800 text-sm px-2 py-1 rounded hover:bg-red-100 disabled:opacity-50"
+                  >
+                    恢复自由轮换
+                  </button>
+                </>
+              )}
+            </div>
           </div>
+
+          {schedule ? (
+            <div>
+              <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <p className="text-sm text-gray-600">
+                  {isPointsTournament && `${session.settings.format === 'mexicano' ? 'Mexicano' : 'Americano'} • `}
+                  {schedule.currentRound === 0
+                    ? `共 ${scheduleTotalRounds} 轮，尚未开始`
+                    : `共 ${scheduleTotalRounds} 轮，进行到第 ${schedule.currentRound} 轮`}
+                  {` • 搭档组合 ${schedule.stats.partnerPairs}/${schedule.stats.possiblePartnerPairs}`}
+                  {` • 重复搭档 ${schedule.stats.repeatedPartnerPairs} 对`}
+                  {` • 每人轮空 ${schedule.stats.minSitOuts}-${schedule.stats.maxSitOuts} 次`}
+                  {` • 种子 ${schedule.seed}`}
+                </p>
+                {schedule.currentRound < scheduleTotalRounds && (
+                  <button
+                    onClick={() => startScheduleRound()}
+                    disabled={scheduling || session.courts.some(court => court.status === 'playing')}
+                    title={session.courts.some(court => court.status === 'playing') ? '请先结束当前轮次的所有比赛' : undefined}
+                    className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed print:hidden"
+                  >
+                    开始第 {schedule.currentRound + 1} 轮
+                  </button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {schedule.rounds.map(round => (
+                  <div
+                    key={round.round}
+                    className={`rounded-lg p-4 border ${
+                      round.round === schedule.currentRound
+                        ? 'border-green-400 bg-green-50'
+                        : round.round < schedule.currentRound
+                          ? 'border-gray-200 bg-gray-50 opacity-70'
+                          : 'border-gray-200'
+                    }`}
+                  >
+                    <div className="font-medium text-gray-800 mb-2">
+                      第 {round.round} 轮
+                      {round.round === schedule.currentRound && <span className="ml-2 text-sm text-green-700">进行中</span>}
+                    </div>
+                    <div className="space-y-1 text-sm">
+                      {round.matches.map(match => (
+                        <div key={match.courtId} className="flex flex-wrap gap-x-2 text-gray-700">
+                          <span className="text-gray-500">{getCourtName(match.courtId)}</span>
+                          <span className="text-blue-800">
+                            {getParticipantName(match.team1.player1)} & {getParticipantName(match.team1.player2)}
+                          </span>
+                          <span className="text-gray-400">vs</span>
+                          <span className="text-red-800">
+                            {getParticipantName(match.team2.player1)} & {getParticipantName(match.team2.player2)}
+                          </span>
+                        </div>
+                      ))}
+                      {round.sittingOut.length > 0 && (
+                        <div className="text-gray-500">
+                          轮空: {round.sittingOut.map(getParticipantName).join('、')}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {schedule.rounds.length < scheduleTotalRounds && (
+                  <div className="rounded-lg p-4 border border-dashed border-gray-300 text-sm text-gray-500">
+                    第 {schedule.rounds.length + 1}-{scheduleTotalRounds} 轮将在开始时按当前积分榜配对
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              名单固定的活动可以一次排好全部轮次：尽量让每个人和不同的人搭档、对战，轮空次数尽量平均。
+              生成后球局切换为赛程模式，每轮比赛全部结束后开始下一轮。
+              Americano 按赛程轮换搭档、Mexicano 每轮按积分榜配对，两者都按每场得分累计个人积分排名。
+            </p>
+          )}
         </div>
 
+        {/* 锦标赛 */}
+        <div className="bg-white rounded-xl shadow-lg p-6 mt-8 print:hidden">
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+            <h2 className="text-2xl font-semibold text-gray-800">锦标赛设置</h2>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={tournamentOptions.mode}
+                onChange={(e) => setTournamentOptions({ ...tournamentOptions, mode: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+              >
+                <option value="elimination">淘汰赛</option>
+                <option value="swiss">瑞士制</option>
+              </select>
+              {tournamentOptions.mode === 'swiss' ? (
+                <>
+                  <input
+                    type="number"
+                    min="1"
+                    max="15"
+                    value={tournamentOptions.rounds}
+                    onChange={(e) => setTournamentOptions({ ...tournamentOptions, rounds: e.target.value })}
+                    placeholder={session.settings.swissRounds ? String(session.settings.swissRounds) : '自动'}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded text-sm text-center focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+                  />
+                  <span className="text-sm text-gray-600">轮</span>
+                </>
+              ) : (
+                <>
+                  <select
+                    value={tournamentOptions.poolCount}
+                    onChange={(e) => setTournamentOptions({ ...tournamentOptions, poolCount: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+                  >
+                    <option value="0">不分组</option>
+                    {[1, 2, 3, 4, 5, 6, 7, 8].map(count => (
+                      <option key={count} value={count}>{count} 个小组</option>
+                    ))}
+                  </select>
+                  {tournamentOptions.poolCount !== '0' && (
+                    <>
+                      <span className="text-sm text-gray-600">每组晋级</span>
+                      <input
+                        type="number"
+                        min="1"
+                        value={tournamentOptions.advancePerPool}
+                        onChange={(e) => setTournamentOptions({ ...tournamentOptions, advancePerPool: e.target.value })}
+                        className="w-14 px-2 py-1 border border-gray-300 rounded text-sm text-center focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+                      />
+                      <span className="text-sm text-gray-600">队</span>
+                    </>
+                  )}
+                  <select
+                    value={tournamentOptions.bracketType}
+                    onChange={(e) => setTournamentOptions({ ...tournamentOptions, bracketType: e.target.value as BracketType })}
+                    className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-pickleball-500"
+                  >
+                    <option value="single">单败淘汰</option>
+                    <option value="double">双败淘汰</option>
+                  </select>
+                </>
+              )}
+              <button
+                onClick={createTournament}
+                disabled={tournamentBusy || hasPlayingCourts || lockedPairs.length < 2}
+                title={hasPlayingCourts ? '请先结束所有比赛' : lockedPairs.length < 2 ? '至少需要2对固定搭档' : undefined}
+                className="bg-pickleball-600 text-white px-3 py-1 rounded text-sm hover:bg-pickleball-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {tournament ? '重新创建' : '创建锦标赛'}
+              </button>
+              {tournament && (
+                <button
+                  onClick={endTournament}
+                  disabled={tournamentBusy}
+                  className="text-red-600 hover:text-red-800 text-sm px-2 py-1 rounded hover:bg-red-100 disabled:opacity-50"
+                >
+                  恢复自由轮换
+                </button>
+              )}
+            </div>
+          </div>
+          <p className="text-sm text-gray-600">
+            报名队伍取自下方的固定搭档（{lockedPairs.length} 队，按添加顺序作为种子）。分组时先进行小组循环赛，
+            各组前几名按小组成绩排定种子进入淘汰赛；比赛在场地空出时自动安排，录入比分后晋级。
+            瑞士制每轮让战绩相近、尚未交手的队伍对阵，打满设定轮数后按胜场和 Buchholz 排名。
+          </p>
+        </div>
+
+        {tournament && (
+          <TournamentBracket session={session} className="mt-8" />
+        )}
+
         {/* 参与者状态 */}
         <div className="bg-white rounded-xl shadow-lg p-6 mt-8">
           <h2 className="text-2xl font-semibold text-gray-800 mb-6">参与者管理</h2>
@@ -448,12 +1495,22 @@ export default function AdminPage() {
                         <div key={participant.id} className="bg-green-50 rounded-lg p-3 flex justify-between items-center">
                           <div>
                             <div className="font-medium text-green-800">{participant.name}</div>
-                            <div className="text-green-600 text-sm">{participant.gamesPlayed} 场比赛</div>
+                            <div className="text-green-600 text-sm">
+                              {participant.gamesPlayed} 场比赛{participant.catchUpGames ? `（迟到补记 ${participant.catchUpGames} 场）` : ''} • {participant.wins || 0}胜{participant.losses || 0}负 • 净胜分 {participant.pointDifferential || 0}
+                              {participant.rating !== undefined && ` • 评分 ${Math.round(participant.rating)}±${Math.round(participant.ratingDeviation || 0)}`}
+                            </div>
+                            <div className="text-gray-500 text-xs">
+                              {formatMinutesStats(participant)}
+                            </div>
                           </div>
                           <button
                             onClick={() => {
                               if (confirm(`确定要标记 ${participant.name} 为离开吗？`)) {
-                                markParticipantLeft(participant.id, '比赛中离开');
+                                // 升降梯和锦标赛不能单独结束一个场地，只能换人
+                                const substitute = isLadder || !!tournament || confirm(
+                                  `${participant.name} 正在场上比赛。\n确定：由休息中的人替换上场，比赛继续\n取消：提前结束这场比赛（不记比分）`
+                                );
+                                markParticipantLeft(participant.id, '比赛中离开', substitute ? 'substitute' : 'finish');
                               }
                             }}
                             className="text-red-600 hover:text-red-800 text-sm px-2 py-1 rounded hover:bg-red-100"
@@ -475,7 +1532,13 @@ export default function AdminPage() {
                         <div key={participant.id} className="bg-yellow-50 rounded-lg p-3 flex justify-between items-center">
                           <div>
                             <div className="font-medium text-yellow-800">{participant.name}</div>
-                            <div className="text-yellow-600 text-sm">{participant.gamesPlayed} 场比赛</div>
+                            <div className="text-yellow-600 text-sm">
+                              {participant.gamesPlayed} 场比赛{participant.catchUpGames ? `（迟到补记 ${participant.catchUpGames} 场）` : ''} • {participant.wins || 0}胜{participant.losses || 0}负 • 净胜分 {participant.pointDifferential || 0}
+                              {participant.rating !== undefined && ` • 评分 ${Math.round(participant.rating)}±${Math.round(participant.ratingDeviation || 0)}`}
+                            </div>
+                            <div className="text-gray-500 text-xs">
+                              {formatMinutesStats(participant)}
+                            </div>
                           </div>
                           <button
                             onClick={() => {
@@ -502,7 +1565,13 @@ export default function AdminPage() {
                         <div key={participant.id} className="bg-gray-50 rounded-lg p-3 flex justify-between items-center">
                           <div>
                             <div className="font-medium text-gray-800">{participant.name}</div>
-                            <div className="text-gray-600 text-sm">{participant.gamesPlayed} 场比赛</div>
+                            <div className="text-gray-600 text-sm">
+                              {participant.gamesPlayed} 场比赛{participant.catchUpGames ? `（迟到补记 ${participant.catchUpGames} 场）` : ''} • {participant.wins || 0}胜{participant.losses || 0}负 • 净胜分 {participant.pointDifferential || 0}
+                              {participant.rating !== undefined && ` • 评分 ${Math.round(participant.rating)}±${Math.round(participant.ratingDeviation || 0)}`}
+                            </div>
+                            <div className="text-gray-500 text-xs">
+                              {formatMinutesStats(participant)}
+                            </div>
                           </div>
                           <button
                             onClick={() => {
@@ -522,6 +1591,63 @@ export default function AdminPage() {
               </div>
             </div>
 
+            {/* 固定搭档 */}
+            <div>
+              <h3 className="text-lg font-medium text-gray-800 mb-2">固定搭档 ({lockedPairs.length})</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                固定搭档始终作为同一队一起上场、一起休息，不会被拆开
+              </p>
+              {lockedPairs.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-4">
+                  {lockedPairs.map(pair => (
+                    <div key={pair.id} className="bg-purple-50 rounded-lg p-3 flex justify-between items-center">
+                      <div className="font-medium text-purple-800">
+                        🔒 {getParticipantName(pair.player1)} & {getParticipantName(pair.player2)}
+                      </div>
+                      <button
+                        onClick={() => unlockPair(pair.id)}
+                        className="text-purple-600 hover:text-purple-800 text-sm px-2 py-1 rounded hover:bg-purple-100"
+                      >
+                        解除
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={pairSelection.player1}
+                  onChange={(e) => setPairSelection({ ...pairSelection, player1: e.target.value })}
+                  className="px-3 py-1 border border-gray-300 rounded text-sm"
+                >
+                  <option value="">选择参与者</option>
+                  {unpairedParticipants.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+                <span className="text-gray-500">&</span>
+                <select
+                  value={pairSelection.player2}
+                  onChange={(e) => setPairSelection({ ...pairSelection, player2: e.target.value })}
+                  className="px-3 py-1 border border-gray-300 rounded text-sm"
+                >
+                  <option value="">选择参与者</option>
+                  {unpairedParticipants
+                    .filter(p => p.id !== pairSelection.player1)
+                    .map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                </select>
+                <button
+                  onClick={lockPair}
+                  disabled={!pairSelection.player1 || !pairSelection.player2}
+                  className="bg-purple-600 text-white px-3 py-1 rounded text-sm hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  锁定搭档
+                </button>
+              </div>
+            </div>
+
             {/* 已离开参与者 */}
             {leftParticipants.length > 0 && (
               <div>
@@ -537,16 +1663,31 @@ export default function AdminPage() {
                           {participant.leftAt && new Date(participant.leftAt).toLocaleTimeString()}
                         </div>
                       </div>
-                      <button
-                        onClick={() => {
-                          if (confirm(`确定要让 ${participant.name} 重新加入吗？`)) {
-                            rejoinParticipant(participant.id);
-                          }
-                        }}
-                        className="text-green-600 hover:text-green-800 text-sm px-2 py-1 rounded hover:bg-green-100"
-                      >
-                        重新加入
-                      </button>
+                      <div className="flex items-center">
+                        <button
+                          onClick={() => {
+                            if (confirm(`确定要让 ${participant.name} 重新加入吗？`)) {
+                              rejoinParticipant(participant.id);
+                            }
+                          }}
+                          className="text-green-600 hover:text-green-800 text-sm px-2 py-1 rounded hover:bg-green-100"
+                        >
+                          重新加入
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (confirm(`确定要从球局中彻底移除 ${participant.name} 吗？相关的权重、禁止组合和固定搭档会一并删除`)) {
+                              removeParticipant(
+                                participant.id,
+                                confirm('是否同时清除其他人与他的搭档、对战记录？')
+                              );
+                            }
+                          }}
+                          className="text-red-600 hover:text-red-800 text-sm px-2 py-1 rounded hover:bg-red-100"
+                        >
+                          移除
+                        </button>
+                      </div>
                     </div>
                   ))}
                 </div>
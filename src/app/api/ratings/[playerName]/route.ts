@@ -0,0 +1,86 @@
+/**
+ * 单个选手评分及历史API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse, PlayerRating, RatingHistoryEntry } from '@/lib/types';
+import { getPlayerRating, getRatingHistory } from '@/lib/database';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+
+/**
+ * 获取选手的当前评分和评分历史（仅管理员）
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { playerName: string } }
+): Promise<NextResponse<ApiResponse<{ rating: PlayerRating; history: RatingHistoryEntry[] }>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value || 
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以查看选手评分'
+      }, { status: 403 });
+    }
+
+    // 畸形的百分号编码无法解码，按参数错误处理
+    let playerName: string;
+    try {
+      playerName = decodeURIComponent(params.playerName).trim();
+    } catch {
+      return NextResponse.json({
+        success: false,
+        error: '选手姓名格式无效'
+      }, { status: 400 });
+    }
+
+    if (!playerName) {
+      return NextResponse.json({
+        success: false,
+        error: '选手姓名不能为空'
+      }, { status: 400 });
+    }
+
+    const rating = await getPlayerRating(playerName);
+    if (!rating) {
+      return NextResponse.json({
+        success: false,
+        error: '该选手暂无评分记录'
+      }, { status: 404 });
+    }
+
+    const history = await getRatingHistory(playerName);
+
+    return NextResponse.json({
+      success: true,
+      data: { rating, history },
+      message: '获取选手评分历史成功'
+    });
+
+  } catch (error) {
+    console.error('获取选手评分历史失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * 选手评分API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse, PlayerRating } from '@/lib/types';
+import { getAllPlayerRatings } from '@/lib/database';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+
+/**
+ * 获取所有选手的评分（仅管理员）
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<PlayerRating[]>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value || 
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以查看选手评分'
+      }, { status: 403 });
+    }
+
+    const ratings = await getAllPlayerRatings();
+
+    return NextResponse.json({
+      success: true,
+      data: ratings,
+      message: '获取选手评分成功'
+    });
+
+  } catch (error) {
+    console.error('获取选手评分失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
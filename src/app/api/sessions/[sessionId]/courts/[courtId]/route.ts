@@ -3,12 +3,20 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { GameSession, ApiResponse } from '@/lib/types';
+import { GameSession, ApiResponse, CourtTier } from '@/lib/types';
 import { getGameSession, saveGameSession } from '@/lib/memory-store';
 import { validateAuthSession, isAdmin } from '@/lib/auth';
+import { autoMaintainQueue } from '@/lib/queue-maintenance';
+import { syncWaitingTimes } from '@/lib/court-time';
+import { removeCourt } from '@/lib/courts';
+
+// 场地级别的水平范围（与选手水平的录入范围一致）
+const MIN_TIER_LEVEL = 1;
+const MAX_TIER_LEVEL = 6;
 
 /**
- * 更新场地名称
+ * 更新场地名称和级别
+ * tier 为 null 时清除级别，不限的一端省略 minLevel 或 maxLevel
  */
 export async function PATCH(
   request: NextRequest,
@@ -38,13 +46,13 @@ export async function PATCH(
     if (!isAdmin(currentUser.role)) {
       return NextResponse.json({
         success: false,
-        error: '权限不足，仅管理员可以修改场地名称'
+        error: '权限不足，仅管理员可以修改场地设置'
       }, { status: 403 });
     }
 
     const sessionId = params.sessionId;
     const courtId = parseInt(params.courtId);
-    const { name } = await request.json();
+    const { name, tier } = await request.json();
 
     if (!sessionId) {
       return NextResponse.json({
@@ -60,7 +68,14 @@ export async function PATCH(
       }, { status: 400 });
     }
 
-    if (typeof name !== 'string') {
+    if (name === undefined && tier === undefined) {
+      return NextResponse.json({
+        success: false,
+        error: '请提供场地名称或级别'
+      }, { status: 400 });
+    }
+
+    if (name !== undefined && typeof name !== 'string') {
       return NextResponse.json({
         success: false,
         error: '场地名称必须是字符串'
@@ -68,21 +83,53 @@ export async function PATCH(
     }
 
     // 验证场地名称长度
-    const trimmedName = name.trim();
-    if (trimmedName.length === 0) {
+    const trimmedName = typeof name === 'string' ? name.trim() : undefined;
+    if (trimmedName !== undefined && trimmedName.length === 0) {
       return NextResponse.json({
         success: false,
         error: '场地名称不能为空'
       }, { status: 400 });
     }
 
-    if (trimmedName.length > 20) {
+    if (trimmedName !== undefined && trimmedName.length > 20) {
       return NextResponse.json({
         success: false,
         error: '场地名称不能超过20个字符'
       }, { status: 400 });
     }
 
+    // 验证场地级别
+    let newTier: CourtTier | undefined;
+    if (tier !== undefined && tier !== null) {
+      const { minLevel, maxLevel } = tier;
+      const isValidLevel = (level: unknown) => level === undefined || level === null ||
+        (typeof level === 'number' && level >= MIN_TIER_LEVEL && level <= MAX_TIER_LEVEL);
+      if (!isValidLevel(minLevel) || !isValidLevel(maxLevel)) {
+        return NextResponse.json({
+          success: false,
+          error: `场地级别的水平必须在${MIN_TIER_LEVEL}-${MAX_TIER_LEVEL}之间`
+        }, { status: 400 });
+      }
+
+      newTier = {
+        minLevel: minLevel ?? undefined,
+        maxLevel: maxLevel ?? undefined
+      };
+      if (newTier.minLevel === undefined && newTier.maxLevel === undefined) {
+        return NextResponse.json({
+          success: false,
+          error: '场地级别至少需要设置最低或最高水平'
+        }, { status: 400 });
+      }
+
+      if (newTier.minLevel !== undefined && newTier.maxLevel !== undefined && newTier.minLevel > newTier.maxLevel) {
+        return NextResponse.json({
+          success: false,
+          error: '最低水平不能高于最高水平'
+        }, { status: 400 });
+      }
+    }
+
     // 从内存存储获取球局数据
     const session = await getGameSession(sessionId);
     
@@ -103,35 +150,145 @@ export async function PATCH(
       }, { status: 404 });
     }
 
-    // 检查是否有其他场地使用了相同的名称
-    const existingCourt = session.courts.find(c => c.id !== courtId && c.name === trimmedName);
-    if (existingCourt) {
+    if (trimmedName !== undefined) {
+      // 检查是否有其他场地使用了相同的名称
+      const existingCourt = session.courts.find(c => c.id !== courtId && c.name === trimmedName);
+      if (existingCourt) {
+        return NextResponse.json({
+          success: false,
+          error: '该场地名称已被使用'
+        }, { status: 400 });
+      }
+
+      // 更新场地名称
+      court.name = trimmedName;
+    }
+
+    // 更新场地级别，下次分配场地时生效
+    if (tier !== undefined) {
+      court.tier = newTier;
+    }
+
+    // 更新球局时间
+    session.updatedAt = new Date();
+
+    // 保存到内存存储
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: tier !== undefined && name === undefined ? '场地级别更新成功' : '场地名称更新成功'
+    });
+
+  } catch (error) {
+    console.error('更新场地设置失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 球局进行中移除场地
+ * 场地上有比赛时标记为待撤场，这场比赛照常结束后再移除，不再安排新比赛
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { sessionId: string; courtId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
       return NextResponse.json({
         success: false,
-        error: '该场地名称已被使用'
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以移除场地'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const courtId = parseInt(params.courtId);
+
+    if (isNaN(courtId) || courtId < 1) {
+      return NextResponse.json({
+        success: false,
+        error: '无效的场地ID'
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    const court = session.courts.find(c => c.id === courtId);
+    if (!court) {
+      return NextResponse.json({
+        success: false,
+        error: '场地不存在'
+      }, { status: 404 });
+    }
+
+    if (court.draining) {
+      return NextResponse.json({
+        success: false,
+        error: '该场地的比赛结束后就会移除'
+      }, { status: 400 });
+    }
+
+    // 至少保留一个场地
+    if (session.courts.filter(c => !c.draining).length <= 1) {
+      return NextResponse.json({
+        success: false,
+        error: '至少需要保留一个场地'
       }, { status: 400 });
     }
 
-    // 更新场地名称
-    court.name = trimmedName;
+    const courtName = court.name || `场地 ${court.id}`;
+    const removed = removeCourt(session, court);
 
-    // 更新球局时间
+    // 按新的场地数重新规划等待队列
+    autoMaintainQueue(session);
+    syncWaitingTimes(session);
     session.updatedAt = new Date();
 
-    // 保存到内存存储
+    // 保存球局
     await saveGameSession(session, session.createdBy);
 
     return NextResponse.json({
       success: true,
       data: session,
-      message: '场地名称更新成功'
+      message: removed ? `已移除${courtName}` : `${courtName}的比赛结束后将移除`
     });
 
   } catch (error) {
-    console.error('更新场地名称失败:', error);
+    console.error('移除场地失败:', error);
     return NextResponse.json({
       success: false,
       error: '服务器内部错误'
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,158 @@
+/**
+ * 比赛中换人API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GameSession, ApiResponse } from '@/lib/types';
+import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+import { DEFAULT_QUEUE_DEPTH } from '@/lib/algorithm';
+import { autoMaintainQueue } from '@/lib/queue-maintenance';
+import { syncWaitingTimes } from '@/lib/court-time';
+import { isPlayerQueued, pickSubstitute, validateSubstitute, substituteOnCourt, supportsSubstitution } from '@/lib/attendance';
+
+/**
+ * 换下场上的一名选手，由休息中的参与者替补上场
+ * 未指定 substituteId 时按上场优先级自动挑选替补
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string; courtId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以换人'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const courtId = parseInt(params.courtId);
+    const { playerId, substituteId } = await request.json();
+
+    if (!playerId || typeof playerId !== 'string') {
+      return NextResponse.json({
+        success: false,
+        error: '请指定要换下的选手'
+      }, { status: 400 });
+    }
+
+    if (substituteId !== undefined && typeof substituteId !== 'string') {
+      return NextResponse.json({
+        success: false,
+        error: '替补参与者ID无效'
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    // 预排赛程和积分赛按赛程计分，不能换上赛程之外的人
+    if (!supportsSubstitution(session)) {
+      return NextResponse.json({
+        success: false,
+        error: '预排赛程和积分赛不支持换人，请提前结束比赛'
+      }, { status: 400 });
+    }
+
+    const court = session.courts.find(c => c.id === courtId);
+    if (!court) {
+      return NextResponse.json({
+        success: false,
+        error: '场地不存在'
+      }, { status: 404 });
+    }
+
+    if (court.status !== 'playing' || !court.team1 || !court.team2) {
+      return NextResponse.json({
+        success: false,
+        error: '该场地没有正在进行的比赛'
+      }, { status: 400 });
+    }
+
+    const courtPlayerIds = [court.team1.player1, court.team1.player2, court.team2.player1, court.team2.player2];
+    if (!courtPlayerIds.includes(playerId)) {
+      return NextResponse.json({
+        success: false,
+        error: '该选手不在这个场地上'
+      }, { status: 400 });
+    }
+
+    // 管理员指定的替补需要校验，否则按上场优先级挑选
+    if (substituteId) {
+      const substituteError = validateSubstitute(session, court, playerId, substituteId);
+      if (substituteError) {
+        return NextResponse.json({
+          success: false,
+          error: substituteError
+        }, { status: 400 });
+      }
+    }
+
+    const substitute = substituteId
+      ? session.participants.find(p => p.id === substituteId)!
+      : pickSubstitute(session, court, playerId);
+    if (!substitute) {
+      return NextResponse.json({
+        success: false,
+        error: '没有可以替补上场的参与者'
+      }, { status: 400 });
+    }
+
+    const outgoing = session.participants.find(p => p.id === playerId);
+    const substituteWasQueued = isPlayerQueued(session, substitute.id);
+    substituteOnCourt(session, court, playerId, substitute);
+
+    // 替补原本在等待队列中时重新规划队列；队列没排满时把换下的人排进去；擂台赛同步挑战者队列
+    const queueDepth = session.settings.queueDepth ?? DEFAULT_QUEUE_DEPTH;
+    if (substituteWasQueued || session.queue.length < queueDepth || session.settings.format === 'king-of-court') {
+      autoMaintainQueue(session);
+    }
+
+    // 替补结束等待，换下的人开始等待计时
+    syncWaitingTimes(session);
+    session.updatedAt = new Date();
+
+    // 保存球局
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: `${court.name || `场地 ${court.id}`}：${substitute.name} 替换 ${outgoing?.name || '未知'} 上场`
+    });
+
+  } catch (error) {
+    console.error('换人失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * 新增场地API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GameSession, ApiResponse } from '@/lib/types';
+import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+import { syncWaitingTimes } from '@/lib/court-time';
+import { addCourt, MAX_COURT_COUNT } from '@/lib/courts';
+
+/**
+ * 球局进行中新增场地，新场地立即安排下一场比赛
+ * 未提供名称时使用默认名称
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以新增场地'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const { name } = await request.json().catch(() => ({}));
+
+    if (name !== undefined && typeof name !== 'string') {
+      return NextResponse.json({
+        success: false,
+        error: '场地名称必须是字符串'
+      }, { status: 400 });
+    }
+
+    const trimmedName = typeof name === 'string' ? name.trim() : '';
+    if (trimmedName.length > 20) {
+      return NextResponse.json({
+        success: false,
+        error: '场地名称不能超过20个字符'
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    if (session.settings.courtCount >= MAX_COURT_COUNT) {
+      return NextResponse.json({
+        success: false,
+        error: `场地数量不能超过${MAX_COURT_COUNT}个`
+      }, { status: 400 });
+    }
+
+    if (trimmedName && session.courts.some(c => c.name === trimmedName)) {
+      return NextResponse.json({
+        success: false,
+        error: '该场地名称已被使用'
+      }, { status: 400 });
+    }
+
+    // 新增场地并重新规划等待队列
+    const court = addCourt(session, trimmedName || undefined);
+
+    // 新上场的人结束等待
+    syncWaitingTimes(session);
+    session.updatedAt = new Date();
+
+    // 保存球局
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: court.status === 'playing'
+        ? `已新增${court.name}，下一组已进入场地`
+        : `已新增${court.name}`
+    });
+
+  } catch (error) {
+    console.error('新增场地失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * 禁止组合规则API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse, ExclusionType, PairExclusion } from '@/lib/types';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { v4 as uuidv4 } from 'uuid';
+
+const EXCLUSION_TYPES: ExclusionType[] = ['teammate', 'opponent', 'court'];
+
+const EXCLUSION_TYPE_LABELS: Record<ExclusionType, string> = {
+  teammate: '禁止搭档',
+  opponent: '禁止对战',
+  court: '禁止同场'
+};
+
+/**
+ * 添加禁止组合规则
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<PairExclusion>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value || 
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以设置禁止组合规则'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const { player1, player2, type, reason } = await request.json();
+
+    // 验证输入
+    if (!player1 || !player2 || !type) {
+      return NextResponse.json({
+        success: false,
+        error: '参数不完整'
+      }, { status: 400 });
+    }
+
+    if (player1 === player2) {
+      return NextResponse.json({
+        success: false,
+        error: '不能为同一个人设置禁止组合规则'
+      }, { status: 400 });
+    }
+
+    if (!EXCLUSION_TYPES.includes(type)) {
+      return NextResponse.json({
+        success: false,
+        error: '规则类型必须是teammate、opponent或court'
+      }, { status: 400 });
+    }
+
+    if (reason !== undefined && (typeof reason !== 'string' || reason.length > 100)) {
+      return NextResponse.json({
+        success: false,
+        error: '备注不能超过100个字符'
+      }, { status: 400 });
+    }
+
+    // 获取球局
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    // 检查参与者是否存在
+    const participant1 = session.participants.find(p => p.id === player1);
+    const participant2 = session.participants.find(p => p.id === player2);
+
+    if (!participant1 || !participant2) {
+      return NextResponse.json({
+        success: false,
+        error: '指定的参与者不存在'
+      }, { status: 400 });
+    }
+
+    if (!session.exclusions) {
+      session.exclusions = [];
+    }
+
+    // 检查是否已存在相同类型的规则
+    const existingExclusion = session.exclusions.find(e =>
+      ((e.player1 === player1 && e.player2 === player2) ||
+       (e.player1 === player2 && e.player2 === player1)) &&
+      e.type === type
+    );
+
+    if (existingExclusion) {
+      return NextResponse.json({
+        success: false,
+        error: `这两个参与者之间已存在${EXCLUSION_TYPE_LABELS[type as ExclusionType]}规则`
+      }, { status: 409 });
+    }
+
+    // 固定搭档总是同队上场，不能再禁止两人搭档或同场
+    const lockedPair = (session.lockedPairs || []).find(pair =>
+      (pair.player1 === player1 && pair.player2 === player2) ||
+      (pair.player1 === player2 && pair.player2 === player1)
+    );
+    if (lockedPair && type !== 'opponent') {
+      return NextResponse.json({
+        success: false,
+        error: '这两个参与者是固定搭档，无法设置禁止组合规则，请先解除固定搭档'
+      }, { status: 400 });
+    }
+
+    const newExclusion: PairExclusion = {
+      id: uuidv4(),
+      player1,
+      player2,
+      type,
+      reason: reason?.trim() || undefined,
+      createdAt: new Date()
+    };
+
+    session.exclusions.push(newExclusion);
+    session.updatedAt = new Date();
+
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: newExclusion,
+      message: '禁止组合规则添加成功'
+    });
+
+  } catch (error) {
+    console.error('添加禁止组合规则失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 删除禁止组合规则
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<null>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value || 
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以设置禁止组合规则'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const { searchParams } = new URL(request.url);
+    const exclusionId = searchParams.get('exclusionId');
+
+    if (!exclusionId) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供规则ID'
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    const exclusionIndex = (session.exclusions || []).findIndex(e => e.id === exclusionId);
+    if (exclusionIndex === -1) {
+      return NextResponse.json({
+        success: false,
+        error: '禁止组合规则不存在'
+      }, { status: 404 });
+    }
+
+    session.exclusions!.splice(exclusionIndex, 1);
+    session.updatedAt = new Date();
+
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: null,
+      message: '禁止组合规则删除成功'
+    });
+
+  } catch (error) {
+    console.error('删除禁止组合规则失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
@@ -4,7 +4,14 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { GameSession, ApiResponse } from '@/lib/types';
-import { generateOptimalTeams } from '@/lib/algorithm';
+import { updatePlayerStats, takeQueuedMatchForCourt } from '@/lib/algorithm';
+import { autoMaintainQueue } from '@/lib/queue-maintenance';
+import { validateGameScore, validatePointsScore, recordGameResult } from '@/lib/game-results';
+import { recordCourtTime, syncWaitingTimes } from '@/lib/court-time';
+import { updateRatingsFromResult } from '@/lib/rating';
+import { rotateKingOfCourt } from '@/lib/king-of-court';
+import { isPointsFormat } from '@/lib/points-tournament';
+import { retireIfDraining } from '@/lib/courts';
 import { getGameSession, saveGameSession } from '@/lib/memory-store';
 import { validateAuthSession, isAdmin } from '@/lib/auth';
 
@@ -41,7 +48,7 @@ export async function POST(
     }
 
     const sessionId = params.sessionId;
-    const { courtId } = await request.json();
+    const { courtId, score } = await request.json();
 
     if (!courtId) {
       return NextResponse.json({
@@ -75,7 +82,63 @@ export async function POST(
       }, { status: 400 });
     }
 
-    // 更新参与者统计
+    // 升降梯需要所有场地同时轮换，不能单独结束一个场地
+    if (session.settings.format === 'ladder') {
+      return NextResponse.json({
+        success: false,
+        error: '当前为升降梯赛制，请录入所有场地比分后整轮轮换'
+      }, { status: 400 });
+    }
+
+    // 锦标赛比赛按对阵表晋级，需在锦标赛中录入比分
+    if (session.settings.format === 'tournament') {
+      return NextResponse.json({
+        success: false,
+        error: '当前为锦标赛，请在锦标赛对阵表中录入比分'
+      }, { status: 400 });
+    }
+
+    // 比分可选，提供时需符合获胜条件；积分赛允许打平，按每场总分校验
+    const isPointsTournament = isPointsFormat(session.settings.format);
+    if (score) {
+      const scoreValidation = isPointsTournament
+        ? validatePointsScore(score, session.settings.pointsPerMatch)
+        : validateGameScore(score);
+      if (!scoreValidation.valid) {
+        return NextResponse.json({
+          success: false,
+          error: scoreValidation.error
+        }, { status: 400 });
+      }
+    }
+
+    // 积分赛需要比分才能计算个人积分
+    if (isPointsTournament && !score) {
+      return NextResponse.json({
+        success: false,
+        error: '积分赛需要录入比分才能计算个人积分'
+      }, { status: 400 });
+    }
+
+    // 擂台赛需要比分才能决定哪队留场
+    const isKingOfCourt = session.settings.format === 'king-of-court';
+    if (isKingOfCourt && !score) {
+      return NextResponse.json({
+        success: false,
+        error: '擂台赛需要录入比分才能决定哪队留场'
+      }, { status: 400 });
+    }
+
+    // 记录比赛结果并更新选手评分
+    const result = recordGameResult(session, court, score || undefined);
+    if (result) {
+      await updateRatingsFromResult(session, result);
+    }
+
+    // 记录上场时长
+    recordCourtTime(session, court);
+
+    // 更新参与者统计（场数、休息轮数、连续上场场数、队友和对手记录）
     if (court.team1 && court.team2) {
       const playingPlayerIds = [
         court.team1.player1,
@@ -84,99 +147,61 @@ export async function POST(
         court.team2.player2
       ];
 
+      updatePlayerStats(session.participants, { team1: court.team1, team2: court.team2 });
+
       for (const participant of session.participants) {
         if (playingPlayerIds.includes(participant.id)) {
-          participant.gamesPlayed += 1;
           participant.status = 'resting';
-          
-          // 更新队友和对手统计
-          const isTeam1 = court.team1.player1 === participant.id || court.team1.player2 === participant.id;
-          const teammates = isTeam1 
-            ? [court.team1.player1, court.team1.player2].filter(id => id !== participant.id)
-            : [court.team2.player1, court.team2.player2].filter(id => id !== participant.id);
-          const opponents = isTeam1 
-            ? [court.team2.player1, court.team2.player2]
-            : [court.team1.player1, court.team1.player2];
-
-          // 更新队友统计
-          for (const teammateId of teammates) {
-            participant.teammates[teammateId] = (participant.teammates[teammateId] || 0) + 1;
-          }
-
-          // 更新对手统计
-          for (const opponentId of opponents) {
-            participant.opponents[opponentId] = (participant.opponents[opponentId] || 0) + 1;
-          }
         }
       }
     }
 
-    // 清空场地
-    court.team1 = null;
-    court.team2 = null;
-    court.status = 'empty';
-    court.startTime = undefined;
-
     // 更新统计信息
     session.stats.totalGamesPlayed += 1;
 
-    // 如果有等待队列，安排下一场比赛
-    if (session.queue.length > 0) {
-      const nextMatch = session.queue.shift()!;
-      court.team1 = nextMatch.team1;
-      court.team2 = nextMatch.team2;
-      court.status = 'playing';
-      court.startTime = new Date();
-
-      // 更新参与者状态
-      const nextPlayingPlayerIds = [
-        nextMatch.team1.player1,
-        nextMatch.team1.player2,
-        nextMatch.team2.player1,
-        nextMatch.team2.player2
-      ];
-
-      for (const participant of session.participants) {
-        if (nextPlayingPlayerIds.includes(participant.id)) {
-          participant.status = 'playing';
-        }
-      }
+    if (retireIfDraining(session, court)) {
+      // 待撤场的场地比赛结束后撤掉，按新的场地数重新规划等待队列
+      autoMaintainQueue(session);
+    } else if (isKingOfCourt && result?.winner) {
+      // 擂台赛：赢家留场，输家排到队尾，队首挑战者上场
+      rotateKingOfCourt(session, court, result.winner);
+    } else {
+      // 清空场地
+      court.team1 = null;
+      court.team2 = null;
+      court.status = 'empty';
+      court.startTime = undefined;
+
+      // 如果有等待队列，安排下一场比赛
+      if (session.queue.length > 0) {
+        const nextMatch = takeQueuedMatchForCourt(session, court)!;
+        court.team1 = nextMatch.team1;
+        court.team2 = nextMatch.team2;
+        court.status = 'playing';
+        court.startTime = new Date();
+
+        // 更新参与者状态
+        const nextPlayingPlayerIds = [
+          nextMatch.team1.player1,
+          nextMatch.team1.player2,
+          nextMatch.team2.player1,
+          nextMatch.team2.player2
+        ];
 
-      // 如果队列还有剩余，需要重新生成队列以补充
-      if (session.queue.length < 2) {
-        const assignment = generateOptimalTeams(
-          session.participants.filter(p => !p.hasLeft),
-          session.settings.courtCount,
-          session.weights || []
-        );
-        
-        // 保留当前正在进行的比赛，只更新队列
-        session.queue = assignment.queue;
-        
-        // 更新排队状态
         for (const participant of session.participants) {
-          if (participant.status === 'queued') {
-            participant.status = 'resting';
-          }
-        }
-        
-        for (const match of session.queue) {
-          const queuedPlayerIds = [
-            match.team1.player1,
-            match.team1.player2,
-            match.team2.player1,
-            match.team2.player2
-          ];
-          
-          for (const participant of session.participants) {
-            if (queuedPlayerIds.includes(participant.id) && participant.status === 'resting') {
-              participant.status = 'queued';
-            }
+          if (nextPlayingPlayerIds.includes(participant.id)) {
+            participant.status = 'playing';
           }
         }
       }
+
+      // 按当前场上情况重新规划等待队列（遵守休息规则）
+      autoMaintainQueue(session);
     }
 
+    // 同步等待计时
+    syncWaitingTimes(session);
+
     session.updatedAt = new Date();
 
     // 保存更新后的球局
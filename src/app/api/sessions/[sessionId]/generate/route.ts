@@ -4,7 +4,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { GameSession, ApiResponse } from '@/lib/types';
-import { generateOptimalTeams } from '@/lib/algorithm';
+import { generateOptimalTeams, createSeededScoringOptions } from '@/lib/algorithm';
+import { isValidSeed } from '@/lib/random';
+import { syncWaitingTimes } from '@/lib/court-time';
+import { syncChallengerQueue } from '@/lib/king-of-court';
+import { isScheduledFormat } from '@/lib/schedule';
 import { getGameSession, saveGameSession } from '@/lib/memory-store';
 
 export async function POST(
@@ -31,17 +35,55 @@ export async function POST(
       }, { status: 404 });
     }
 
+    // 赛程模式和积分赛按赛程推进，不重新分配
+    if (isScheduledFormat(session.settings.format)) {
+      return NextResponse.json({
+        success: false,
+        error: '当前为赛程模式，请在赛程中开始下一轮'
+      }, { status: 400 });
+    }
+
+    // 升降梯需要所有场地同时轮换
+    if (session.settings.format === 'ladder') {
+      return NextResponse.json({
+        success: false,
+        error: '当前为升降梯赛制，请录入所有场地比分后整轮轮换'
+      }, { status: 400 });
+    }
+
+    // 锦标赛比赛在场地空出时自动安排
+    if (session.settings.format === 'tournament') {
+      return NextResponse.json({
+        success: false,
+        error: '当前为锦标赛，比赛会在场地空出时按对阵表自动安排'
+      }, { status: 400 });
+    }
+
+    // 可选：指定随机种子以重放某次分配
+    const body = await request.json().catch(() => ({}));
+    const { seed } = body || {};
+    if (seed !== undefined && seed !== null && !isValidSeed(seed)) {
+      return NextResponse.json({
+        success: false,
+        error: '随机种子必须是 0 到 4294967295 之间的整数'
+      }, { status: 400 });
+    }
+
+    session.stats.currentRound += 1;
+
     // 生成新的队伍分配
     const assignment = generateOptimalTeams(
       session.participants,
       session.settings.courtCount,
-      session.weights
+      session.weights,
+      createSeededScoringOptions(session, 'generate', seed ?? undefined)
     );
 
     // 更新球局数据
     session.courts = assignment.courts;
     session.queue = assignment.queue;
-    session.stats.currentRound += 1;
+    session.queueWarning = assignment.queueWarning;
+    session.ruleWarning = assignment.ruleWarning;
     session.updatedAt = new Date();
 
     // 更新参与者状态
@@ -83,6 +125,15 @@ export async function POST(
       }
     }
 
+    // 擂台赛不使用分组等待队列，未上场的人按优先级重新排成挑战者队列
+    if (session.settings.format === 'king-of-court') {
+      session.challengerQueue = [];
+      syncChallengerQueue(session);
+    }
+
+    // 同步等待计时
+    syncWaitingTimes(session);
+
     // 保存到内存存储
     await saveGameSession(session, session.createdBy);
 
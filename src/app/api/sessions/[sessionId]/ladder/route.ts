@@ -0,0 +1,181 @@
+/**
+ * 升降梯API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse, GameScore, GameSession } from '@/lib/types';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { updatePlayerStats } from '@/lib/algorithm';
+import { validateGameScore, recordGameResult } from '@/lib/game-results';
+import { recordCourtTime, syncWaitingTimes } from '@/lib/court-time';
+import { updateRatingsFromResult } from '@/lib/rating';
+import { startLadder, rotateLadder } from '@/lib/ladder';
+import { retireCourt } from '@/lib/courts';
+
+/**
+ * 开始升降梯（action: start），或录入所有场地比分后整轮轮换（action: rotate）
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以轮换升降梯'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const { action, scores } = await request.json();
+
+    if (action !== 'start' && action !== 'rotate') {
+      return NextResponse.json({
+        success: false,
+        error: '操作必须是start或rotate'
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    if (session.settings.format !== 'ladder') {
+      return NextResponse.json({
+        success: false,
+        error: '当前球局不是升降梯赛制'
+      }, { status: 400 });
+    }
+
+    const playingCourts = session.courts.filter(court => court.status === 'playing' && court.team1 && court.team2);
+
+    if (action === 'start') {
+      if (playingCourts.length > 0) {
+        return NextResponse.json({
+          success: false,
+          error: '还有比赛正在进行中，请录入比分后整轮轮换'
+        }, { status: 400 });
+      }
+
+      const started = startLadder(session);
+      if (started === 0) {
+        return NextResponse.json({
+          success: false,
+          error: '至少需要4名参与者才能开始升降梯'
+        }, { status: 400 });
+      }
+
+      syncWaitingTimes(session);
+      session.updatedAt = new Date();
+      await saveGameSession(session, session.createdBy);
+
+      return NextResponse.json({
+        success: true,
+        data: session,
+        message: `升降梯已开始，${started} 个场地按水平排列`
+      });
+    }
+
+    if (playingCourts.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: '没有正在进行的比赛，请先开始升降梯'
+      }, { status: 400 });
+    }
+
+    // 所有场地都需要录入比分才能整轮轮换
+    const courtScores: Record<number, GameScore> = {};
+    for (const court of playingCourts) {
+      const score = scores?.[court.id];
+      const courtName = court.name || `场地 ${court.id}`;
+      if (!score) {
+        return NextResponse.json({
+          success: false,
+          error: `${courtName}还没有录入比分`
+        }, { status: 400 });
+      }
+
+      const scoreValidation = validateGameScore(score);
+      if (!scoreValidation.valid) {
+        return NextResponse.json({
+          success: false,
+          error: `${courtName}：${scoreValidation.error}`
+        }, { status: 400 });
+      }
+      courtScores[court.id] = score;
+    }
+
+    const winners: Record<number, 'team1' | 'team2'> = {};
+    for (const court of playingCourts) {
+      const completedGame = { team1: court.team1!, team2: court.team2! };
+
+      // 记录比赛结果并更新选手评分
+      const result = recordGameResult(session, court, courtScores[court.id]);
+      if (result) {
+        await updateRatingsFromResult(session, result);
+        if (result.winner) {
+          winners[court.id] = result.winner;
+        }
+      }
+
+      // 记录上场时长
+      recordCourtTime(session, court);
+
+      // 更新参与者统计信息
+      updatePlayerStats(session.participants, completedGame);
+      session.stats.totalGamesPlayed += 1;
+    }
+
+    // 待撤场的场地撤掉，场上的人和休息的人一起补到其余场地
+    for (const court of session.courts.filter(c => c.draining)) {
+      retireCourt(session, court);
+    }
+
+    const started = rotateLadder(session, winners);
+
+    // 同步等待计时
+    syncWaitingTimes(session);
+
+    session.updatedAt = new Date();
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: `第 ${session.stats.currentRound} 轮已开始，${started} 个场地完成升降`
+    });
+
+  } catch (error) {
+    console.error('升降梯轮换失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * 固定搭档API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse, GameSession, LockedPair } from '@/lib/types';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { autoMaintainQueue } from '@/lib/queue-maintenance';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * 锁定固定搭档
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value || 
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以设置固定搭档'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const { player1, player2 } = await request.json();
+
+    if (!player1 || !player2) {
+      return NextResponse.json({
+        success: false,
+        error: '参数不完整'
+      }, { status: 400 });
+    }
+
+    if (player1 === player2) {
+      return NextResponse.json({
+        success: false,
+        error: '不能将同一个人设为固定搭档'
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    const participant1 = session.participants.find(p => p.id === player1);
+    const participant2 = session.participants.find(p => p.id === player2);
+
+    if (!participant1 || !participant2) {
+      return NextResponse.json({
+        success: false,
+        error: '指定的参与者不存在'
+      }, { status: 400 });
+    }
+
+    if (participant1.hasLeft || participant2.hasLeft) {
+      return NextResponse.json({
+        success: false,
+        error: '已离开的参与者不能设为固定搭档'
+      }, { status: 400 });
+    }
+
+    if (!session.lockedPairs) {
+      session.lockedPairs = [];
+    }
+
+    // 每人只能有一个固定搭档
+    const lockedPlayer = [participant1, participant2].find(p =>
+      session.lockedPairs!.some(pair => pair.player1 === p.id || pair.player2 === p.id)
+    );
+    if (lockedPlayer) {
+      return NextResponse.json({
+        success: false,
+        error: `${lockedPlayer.name} 已有固定搭档，请先解除`
+      }, { status: 409 });
+    }
+
+    // 与禁止搭档/禁止同场规则冲突
+    const conflict = (session.exclusions || []).find(e =>
+      e.type !== 'opponent' &&
+      ((e.player1 === player1 && e.player2 === player2) ||
+       (e.player1 === player2 && e.player2 === player1))
+    );
+    if (conflict) {
+      return NextResponse.json({
+        success: false,
+        error: '这两个参与者之间存在禁止组合规则，无法设为固定搭档'
+      }, { status: 409 });
+    }
+
+    const newPair: LockedPair = {
+      id: uuidv4(),
+      player1,
+      player2,
+      createdAt: new Date()
+    };
+    session.lockedPairs.push(newPair);
+
+    // 等待队列中拆开了这对搭档时，重新生成队列
+    const splitInQueue = session.queue.some(match => {
+      const teams = [match.team1, match.team2];
+      const inMatch = [player1, player2].filter(id =>
+        teams.some(team => team.player1 === id || team.player2 === id)
+      ).length;
+      const together = teams.some(team =>
+        (team.player1 === player1 && team.player2 === player2) ||
+        (team.player1 === player2 && team.player2 === player1)
+      );
+      return inMatch > 0 && !together;
+    });
+    if (splitInQueue) {
+      autoMaintainQueue(session);
+    }
+
+    session.updatedAt = new Date();
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: `${participant1.name} 和 ${participant2.name} 已设为固定搭档`
+    });
+
+  } catch (error) {
+    console.error('设置固定搭档失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 解除固定搭档
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value || 
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以解除固定搭档'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const { searchParams } = new URL(request.url);
+    const pairId = searchParams.get('pairId');
+
+    if (!pairId) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供搭档ID'
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    const pairIndex = (session.lockedPairs || []).findIndex(pair => pair.id === pairId);
+    if (pairIndex === -1) {
+      return NextResponse.json({
+        success: false,
+        error: '固定搭档不存在'
+      }, { status: 404 });
+    }
+
+    session.lockedPairs!.splice(pairIndex, 1);
+    session.updatedAt = new Date();
+
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: '固定搭档已解除'
+    });
+
+  } catch (error) {
+    console.error('解除固定搭档失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
@@ -4,7 +4,14 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { GameSession, ApiResponse } from '@/lib/types';
-import { updatePlayerStats, autoMaintainQueue } from '@/lib/algorithm';
+import { updatePlayerStats, takeQueuedMatchForCourt } from '@/lib/algorithm';
+import { autoMaintainQueue } from '@/lib/queue-maintenance';
+import { validateGameScore, validatePointsScore, recordGameResult } from '@/lib/game-results';
+import { recordCourtTime, syncWaitingTimes } from '@/lib/court-time';
+import { updateRatingsFromResult } from '@/lib/rating';
+import { rotateKingOfCourt, fillKingCourt } from '@/lib/king-of-court';
+import { isPointsFormat } from '@/lib/points-tournament';
+import { retireIfDraining } from '@/lib/courts';
 import { getGameSession, saveGameSession } from '@/lib/memory-store';
 
 export async function POST(
@@ -13,7 +20,7 @@ export async function POST(
 ): Promise<NextResponse<ApiResponse<GameSession>>> {
   try {
     const sessionId = params.sessionId;
-    const { courtId } = await request.json();
+    const { courtId, score } = await request.json();
 
     if (!sessionId) {
       return NextResponse.json({
@@ -49,6 +56,56 @@ export async function POST(
       }, { status: 400 });
     }
 
+    // 升降梯需要所有场地同时轮换，不能单独结束一个场地
+    if (session.settings.format === 'ladder') {
+      return NextResponse.json({
+        success: false,
+        error: '当前为升降梯赛制，请录入所有场地比分后整轮轮换'
+      }, { status: 400 });
+    }
+
+    // 锦标赛比赛按对阵表晋级，需在锦标赛中录入比分
+    if (session.settings.format === 'tournament') {
+      return NextResponse.json({
+        success: false,
+        error: '当前为锦标赛，请在锦标赛对阵表中录入比分'
+      }, { status: 400 });
+    }
+
+    // 比分可选，提供时需符合获胜条件；积分赛允许打平，按每场总分校验
+    const isPointsTournament = isPointsFormat(session.settings.format);
+    if (score) {
+      const scoreValidation = isPointsTournament
+        ? validatePointsScore(score, session.settings.pointsPerMatch)
+        : validateGameScore(score);
+      if (!scoreValidation.valid) {
+        return NextResponse.json({
+          success: false,
+          error: scoreValidation.error
+        }, { status: 400 });
+      }
+    }
+
+    // 积分赛需要比分才能计算个人积分
+    if (isPointsTournament && court.status === 'playing' && !score) {
+      return NextResponse.json({
+        success: false,
+        error: '积分赛需要录入比分才能计算个人积分'
+      }, { status: 400 });
+    }
+
+    const isKingOfCourt = session.settings.format === 'king-of-court';
+
+    // 擂台赛需要比分才能决定哪队留场
+    if (isKingOfCourt && court.status === 'playing' && !score) {
+      return NextResponse.json({
+        success: false,
+        error: '擂台赛需要录入比分才能决定哪队留场'
+      }, { status: 400 });
+    }
+
+    let winner: 'team1' | 'team2' | undefined;
+
     // 如果场地有正在进行的比赛，先结束它并更新统计
     if (court.team1 && court.team2 && court.status === 'playing') {
       const completedGame = {
@@ -56,6 +113,16 @@ export async function POST(
         team2: court.team2
       };
 
+      // 记录比赛结果并更新选手评分
+      const result = recordGameResult(session, court, score || undefined);
+      if (result) {
+        await updateRatingsFromResult(session, result);
+        winner = result.winner;
+      }
+
+      // 记录上场时长
+      recordCourtTime(session, court);
+
       // 更新参与者统计信息
       updatePlayerStats(session.participants, completedGame);
       
@@ -77,37 +144,52 @@ export async function POST(
       }
     }
 
-    // 清空当前场地
-    court.team1 = null;
-    court.team2 = null;
-    court.status = 'empty';
-    court.startTime = undefined;
-
-    // 如果有等待队列，让下一组进入场地
-    if (session.queue.length > 0) {
-      const nextMatch = session.queue.shift()!;
-      court.team1 = nextMatch.team1;
-      court.team2 = nextMatch.team2;
-      court.status = 'playing';
-      court.startTime = new Date();
-
-      // 更新参与者状态：新上场的设为playing
-      const nextPlayingPlayerIds = [
-        nextMatch.team1.player1,
-        nextMatch.team1.player2,
-        nextMatch.team2.player1,
-        nextMatch.team2.player2
-      ];
-
-      for (const participant of session.participants) {
-        if (nextPlayingPlayerIds.includes(participant.id)) {
-          participant.status = 'playing';
+    if (retireIfDraining(session, court)) {
+      // 待撤场的场地比赛结束后撤掉，按新的场地数重新规划等待队列
+      autoMaintainQueue(session);
+    } else if (isKingOfCourt) {
+      // 擂台赛：赢家留场，输家排到队尾；空场地直接由队首挑战者上场
+      if (winner) {
+        rotateKingOfCourt(session, court, winner);
+      } else if (court.status !== 'playing') {
+        fillKingCourt(session, court);
+      }
+    } else {
+      // 清空当前场地
+      court.team1 = null;
+      court.team2 = null;
+      court.status = 'empty';
+      court.startTime = undefined;
+
+      // 如果有等待队列，让下一组进入场地
+      if (session.queue.length > 0) {
+        const nextMatch = takeQueuedMatchForCourt(session, court)!;
+        court.team1 = nextMatch.team1;
+        court.team2 = nextMatch.team2;
+        court.status = 'playing';
+        court.startTime = new Date();
+
+        // 更新参与者状态：新上场的设为playing
+        const nextPlayingPlayerIds = [
+          nextMatch.team1.player1,
+          nextMatch.team1.player2,
+          nextMatch.team2.player1,
+          nextMatch.team2.player2
+        ];
+
+        for (const participant of session.participants) {
+          if (nextPlayingPlayerIds.includes(participant.id)) {
+            participant.status = 'playing';
+          }
         }
       }
+
+      // 使用新的智能等待队列管理函数
+      autoMaintainQueue(session);
     }
 
-    // 使用新的智能等待队列管理函数
-    autoMaintainQueue(session);
+    // 同步等待计时
+    syncWaitingTimes(session);
 
     // 更新球局时间
     session.updatedAt = new Date();
@@ -4,7 +4,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { GameSession, ApiResponse } from '@/lib/types';
-import { generateOptimalTeams } from '@/lib/algorithm';
+import { generateOptimalTeams, createSeededScoringOptions } from '@/lib/algorithm';
+import { syncWaitingTimes } from '@/lib/court-time';
+import { syncChallengerQueue } from '@/lib/king-of-court';
+import { isScheduledFormat } from '@/lib/schedule';
 import { getGameSession, saveGameSession } from '@/lib/memory-store';
 import { validateAuthSession, isAdmin } from '@/lib/auth';
 
@@ -50,6 +53,30 @@ export async function POST(
       }, { status: 404 });
     }
 
+    // 赛程模式和积分赛按赛程推进，不重新分配
+    if (isScheduledFormat(session.settings.format)) {
+      return NextResponse.json({
+        success: false,
+        error: '当前为赛程模式，请在赛程中开始下一轮'
+      }, { status: 400 });
+    }
+
+    // 升降梯需要所有场地同时轮换
+    if (session.settings.format === 'ladder') {
+      return NextResponse.json({
+        success: false,
+        error: '当前为升降梯赛制，请录入所有场地比分后整轮轮换'
+      }, { status: 400 });
+    }
+
+    // 锦标赛比赛在场地空出时自动安排
+    if (session.settings.format === 'tournament') {
+      return NextResponse.json({
+        success: false,
+        error: '当前为锦标赛，比赛会在场地空出时按对阵表自动安排'
+      }, { status: 400 });
+    }
+
     // 检查是否有正在进行的比赛
     const hasActiveGames = session.courts.some(court => court.status === 'playing');
     if (hasActiveGames) {
@@ -73,11 +100,14 @@ export async function POST(
     const assignment = generateOptimalTeams(
       session.participants.filter(p => !p.hasLeft), // 只包含未离开的参与者
       session.settings.courtCount,
-      session.weights || []
+      session.weights || [],
+      createSeededScoringOptions(session, 'next-round')
     );
 
     session.courts = assignment.courts;
     session.queue = assignment.queue;
+    session.queueWarning = assignment.queueWarning;
+    session.ruleWarning = assignment.ruleWarning;
 
     // 重置所有参与者状态为休息
     for (const participant of session.participants) {
@@ -120,6 +150,15 @@ export async function POST(
       }
     }
 
+    // 擂台赛不使用分组等待队列，未上场的人按优先级重新排成挑战者队列
+    if (session.settings.format === 'king-of-court') {
+      session.challengerQueue = [];
+      syncChallengerQueue(session);
+    }
+
+    // 同步等待计时
+    syncWaitingTimes(session);
+
     session.updatedAt = new Date();
 
     // 保存更新后的球局
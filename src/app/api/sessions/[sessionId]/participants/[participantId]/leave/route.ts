@@ -0,0 +1,264 @@
+/**
+ * 参与者离开与返回API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GameSession, ApiResponse, OnCourtLeaveAction } from '@/lib/types';
+import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+import { DEFAULT_QUEUE_DEPTH } from '@/lib/algorithm';
+import { autoMaintainQueue } from '@/lib/queue-maintenance';
+import { syncWaitingTimes } from '@/lib/court-time';
+import {
+  findPlayerCourt,
+  isPlayerQueued,
+  pickSubstitute,
+  substituteOnCourt,
+  finishCourtEarly,
+  markParticipantLeft,
+  markParticipantReturned
+} from '@/lib/attendance';
+
+const ON_COURT_LEAVE_ACTIONS: OnCourtLeaveAction[] = ['finish', 'substitute'];
+
+/**
+ * 标记参与者离开
+ * 参与者正在场上时需要指定 onCourtAction：finish 提前结束这场比赛，substitute 由其他人替换上场
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string; participantId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以标记参与者离开'
+      }, { status: 403 });
+    }
+
+    const { sessionId, participantId } = params;
+    const { reason, onCourtAction } = await request.json();
+
+    if (reason !== undefined && (typeof reason !== 'string' || reason.length > 100)) {
+      return NextResponse.json({
+        success: false,
+        error: '离开原因不能超过100个字符'
+      }, { status: 400 });
+    }
+
+    if (onCourtAction !== undefined && !ON_COURT_LEAVE_ACTIONS.includes(onCourtAction)) {
+      return NextResponse.json({
+        success: false,
+        error: '场上处理方式必须是finish或substitute'
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    const participant = session.participants.find(p => p.id === participantId);
+    if (!participant) {
+      return NextResponse.json({
+        success: false,
+        error: '参与者不存在'
+      }, { status: 404 });
+    }
+
+    if (participant.hasLeft) {
+      return NextResponse.json({
+        success: false,
+        error: '该参与者已经离开'
+      }, { status: 400 });
+    }
+
+    const court = findPlayerCourt(session, participantId);
+    const wasQueued = isPlayerQueued(session, participantId);
+    let message = `${participant.name} 已离开`;
+
+    if (court) {
+      if (!onCourtAction) {
+        return NextResponse.json({
+          success: false,
+          error: '该参与者正在场上比赛，请选择提前结束比赛或换人'
+        }, { status: 400 });
+      }
+
+      // 升降梯整轮轮换、锦标赛按对阵表晋级，不能单独结束一个场地
+      if (onCourtAction === 'finish' &&
+          (session.settings.format === 'ladder' || session.settings.format === 'tournament')) {
+        return NextResponse.json({
+          success: false,
+          error: '升降梯和锦标赛不能单独提前结束比赛，请换人'
+        }, { status: 400 });
+      }
+
+      if (onCourtAction === 'substitute') {
+        const substitute = pickSubstitute(session, court, participantId);
+        if (!substitute) {
+          return NextResponse.json({
+            success: false,
+            error: '没有可以替换上场的参与者，请选择提前结束比赛'
+          }, { status: 400 });
+        }
+
+        const substituteWasQueued = isPlayerQueued(session, substitute.id);
+        substituteOnCourt(session, court, participantId, substitute);
+        markParticipantLeft(participant, reason);
+        message = `${participant.name} 已离开，由 ${substitute.name} 替换上场`;
+
+        // 替补原本在等待队列中时，他所在的组需要重新规划
+        if (substituteWasQueued || session.settings.format === 'king-of-court') {
+          autoMaintainQueue(session);
+        }
+      } else {
+        markParticipantLeft(participant, reason);
+        finishCourtEarly(session, court);
+        autoMaintainQueue(session);
+        message = `${participant.name} 已离开，${court.name || `场地 ${court.id}`}的比赛已提前结束`;
+      }
+    } else {
+      markParticipantLeft(participant, reason);
+
+      // 离开的人在等待队列中时重新规划队列
+      if (wasQueued || session.settings.format === 'king-of-court') {
+        autoMaintainQueue(session);
+      }
+    }
+
+    // 停止离开者的等待计时，替补开始上场
+    syncWaitingTimes(session);
+    session.updatedAt = new Date();
+
+    // 保存球局
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message
+    });
+
+  } catch (error) {
+    console.error('标记参与者离开失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 已离开的参与者返回球局
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { sessionId: string; participantId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以让参与者重新加入'
+      }, { status: 403 });
+    }
+
+    const { sessionId, participantId } = params;
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    const participant = session.participants.find(p => p.id === participantId);
+    if (!participant) {
+      return NextResponse.json({
+        success: false,
+        error: '参与者不存在'
+      }, { status: 404 });
+    }
+
+    if (!participant.hasLeft) {
+      return NextResponse.json({
+        success: false,
+        error: '该参与者没有离开'
+      }, { status: 400 });
+    }
+
+    markParticipantReturned(participant);
+
+    // 等待队列没排满时（如人手不足）立即把返回的人排进去；擂台赛排到挑战者队尾
+    const queueDepth = session.settings.queueDepth ?? DEFAULT_QUEUE_DEPTH;
+    if (session.queue.length < queueDepth || session.settings.format === 'king-of-court') {
+      autoMaintainQueue(session);
+    }
+
+    // 返回的人开始等待计时
+    syncWaitingTimes(session);
+    session.updatedAt = new Date();
+
+    // 保存球局
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: `${participant.name} 已重新加入球局`
+    });
+
+  } catch (error) {
+    console.error('参与者重新加入失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
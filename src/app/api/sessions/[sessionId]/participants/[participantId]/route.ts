@@ -0,0 +1,112 @@
+/**
+ * 单个参与者管理API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GameSession, ApiResponse } from '@/lib/types';
+import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+
+/**
+ * 更新参与者信息（技术水平、性别分类）
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { sessionId: string; participantId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value || 
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以修改参与者信息'
+      }, { status: 403 });
+    }
+
+    const { sessionId, participantId } = params;
+    const body = await request.json();
+    const { skillLevel, category } = body;
+
+    // skillLevel 为 null 时清除录入的水平
+    if (skillLevel !== undefined && skillLevel !== null &&
+        (typeof skillLevel !== 'number' || skillLevel < 1 || skillLevel > 6)) {
+      return NextResponse.json({
+        success: false,
+        error: '技术水平必须在1.0-6.0之间'
+      }, { status: 400 });
+    }
+
+    // category 为 null 时清除性别分类
+    if (category !== undefined && category !== null && !['male', 'female'].includes(category)) {
+      return NextResponse.json({
+        success: false,
+        error: '性别分类必须是male或female'
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    const participant = session.participants.find(p => p.id === participantId);
+    if (!participant) {
+      return NextResponse.json({
+        success: false,
+        error: '参与者不存在'
+      }, { status: 404 });
+    }
+
+    if (skillLevel === null) {
+      delete participant.skillLevel;
+    } else if (skillLevel !== undefined) {
+      participant.skillLevel = skillLevel;
+    }
+
+    if (category === null) {
+      delete participant.category;
+    } else if (category !== undefined) {
+      participant.category = category;
+    }
+
+    session.updatedAt = new Date();
+
+    // 保存球局
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: '参与者信息更新成功'
+    });
+
+  } catch (error) {
+    console.error('更新参与者信息失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
@@ -1,5 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { Participant } from '@/lib/types';
 import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { loadParticipantRatings } from '@/lib/rating';
+import { syncWaitingTimes } from '@/lib/court-time';
+import { syncChallengerQueue } from '@/lib/king-of-court';
+import { applyLateJoinPolicy } from '@/lib/late-join';
+import { autoMaintainQueue } from '@/lib/queue-maintenance';
+import { findPlayerCourt, isPlayerQueued, pickSubstitute, removeParticipant } from '@/lib/attendance';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
 import { v4 as uuidv4 } from 'uuid';
 
 // 添加参与者到球局
@@ -36,7 +44,7 @@ export async function POST(
     }
 
     // 添加新参与者
-    const newParticipant = {
+    const newParticipant: Participant = {
       id: uuidv4(),
       name: name.trim(),
       gamesPlayed: 0,
@@ -45,10 +53,28 @@ export async function POST(
       opponents: {},
       status: 'resting' as const,
       joinedAt: new Date(),
-      hasLeft: false
+      hasLeft: false,
+      wins: 0,
+      losses: 0,
+      pointDifferential: 0,
+      courtMinutes: 0,
+      waitingMinutes: 0,
+      longestWaitMinutes: 0
     };
 
+    // 加载该选手的历史评分
+    await loadParticipantRatings([newParticipant]);
+
+    // 比赛开始后加入的参与者按迟到补记策略补记场数，避免连续霸占场地
+    applyLateJoinPolicy(session, newParticipant);
+
     session.participants.push(newParticipant);
+
+    // 擂台赛中新参与者排到挑战者队列末尾
+    if (session.settings.format === 'king-of-court') {
+      syncChallengerQueue(session);
+    }
+    syncWaitingTimes(session);
     session.updatedAt = new Date();
 
     // 保存更新后的球局
@@ -61,15 +87,47 @@ export async function POST(
   }
 }
 
-// 移除参与者从球局
+/**
+ * 从球局中彻底移除参与者
+ * 场上由替补接替（没有替补时取消这场比赛），等待队列重新规划，涉及他的权重、禁止组合和固定搭档一并删除
+ * scrubHistory=true 时同时清除其他人队友、对手记录中的他
+ */
 export async function DELETE(
-  request: Request,
+  request: NextRequest,
   { params }: { params: { sessionId: string } }
 ) {
   try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以移除参与者'
+      }, { status: 403 });
+    }
+
     const sessionId = params.sessionId;
     const { searchParams } = new URL(request.url);
     const participantId = searchParams.get('participantId');
+    const scrubHistory = searchParams.get('scrubHistory') === 'true';
 
     if (!participantId) {
       return NextResponse.json({ 
@@ -86,16 +144,51 @@ export async function DELETE(
       }, { status: 404 });
     }
 
-    // 移除参与者
-    session.participants = session.participants.filter(p => p.id !== participantId);
+    const participant = session.participants.find(p => p.id === participantId);
+    if (!participant) {
+      return NextResponse.json({
+        success: false,
+        error: '参与者不存在'
+      }, { status: 404 });
+    }
+
+    // 锦标赛队伍引用了队员，移除会破坏对阵表
+    if (session.tournament?.teams.some(team => team.player1 === participantId || team.player2 === participantId)) {
+      return NextResponse.json({
+        success: false,
+        error: '该参与者在锦标赛队伍中，不能移除，请改为标记离开'
+      }, { status: 400 });
+    }
+
+    // 升降梯不能单独取消一个场地的比赛，场上的人必须有替补
+    const court = findPlayerCourt(session, participantId);
+    if (court && session.settings.format === 'ladder' && !pickSubstitute(session, court, participantId)) {
+      return NextResponse.json({
+        success: false,
+        error: '该参与者正在场上比赛且没有可以替补的人，请在整轮轮换后再移除'
+      }, { status: 400 });
+    }
+
+    const wasQueued = isPlayerQueued(session, participantId);
+    const notes = removeParticipant(session, participantId, scrubHistory);
+
+    // 受影响的等待队列组重新规划
+    if (wasQueued || court || session.settings.format === 'king-of-court') {
+      autoMaintainQueue(session);
+    }
+    syncWaitingTimes(session);
     session.updatedAt = new Date();
 
     // 保存更新后的球局
     await saveGameSession(session, session.createdBy);
     
-    return NextResponse.json({ success: true, data: session });
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: [`${participant.name} 已移除`, ...notes].join('，')
+    });
   } catch (error) {
     console.error('移除参与者失败:', error);
     return NextResponse.json({ success: false, error: '服务器错误' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,128 @@
+/**
+ * 手动调整等待队列API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GameSession, ApiResponse, QueueEditAction } from '@/lib/types';
+import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+import { moveQueuedMatch, swapQueuedPlayers, setQueuedMatchLocked } from '@/lib/queue-editing';
+
+const QUEUE_EDIT_ACTIONS: QueueEditAction[] = ['move', 'swap', 'lock'];
+
+/**
+ * 调整等待队列（位置从0开始）
+ * action: move 传入 from、to 调整一组的位置；swap 传入 playerId、otherPlayerId 交换两名选手
+ * （其中一人可以是休息中的人）；lock 传入 index、locked 锁定或解锁一组。调整过的组自动锁定
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以调整等待队列'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const { action, from, to, playerId, otherPlayerId, index, locked } = await request.json();
+
+    if (!QUEUE_EDIT_ACTIONS.includes(action)) {
+      return NextResponse.json({
+        success: false,
+        error: '操作必须是move、swap或lock'
+      }, { status: 400 });
+    }
+
+    const isIndex = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+    if (action === 'move' && (!isIndex(from) || !isIndex(to))) {
+      return NextResponse.json({
+        success: false,
+        error: '请指定要调整的组和新位置'
+      }, { status: 400 });
+    }
+
+    if (action === 'swap' && (typeof playerId !== 'string' || typeof otherPlayerId !== 'string')) {
+      return NextResponse.json({
+        success: false,
+        error: '请指定要交换的两名选手'
+      }, { status: 400 });
+    }
+
+    if (action === 'lock' && (!isIndex(index) || typeof locked !== 'boolean')) {
+      return NextResponse.json({
+        success: false,
+        error: '请指定要锁定或解锁的组'
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    // 只有自由轮换使用分组等待队列
+    if ((session.settings.format ?? 'rotation') !== 'rotation') {
+      return NextResponse.json({
+        success: false,
+        error: '当前赛制不使用等待队列'
+      }, { status: 400 });
+    }
+
+    const error = action === 'move'
+      ? moveQueuedMatch(session, from, to)
+      : action === 'swap'
+        ? swapQueuedPlayers(session, playerId, otherPlayerId)
+        : setQueuedMatchLocked(session, index, locked);
+    if (error) {
+      return NextResponse.json({
+        success: false,
+        error
+      }, { status: 400 });
+    }
+
+    session.updatedAt = new Date();
+
+    // 保存球局
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: action === 'lock' ? (locked ? '已锁定该组' : '已解锁该组') : '等待队列已调整'
+    });
+
+  } catch (error) {
+    console.error('调整等待队列失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
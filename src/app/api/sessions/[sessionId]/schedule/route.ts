@@ -0,0 +1,359 @@
+/**
+ * 预排赛程API路由（含 Americano / Mexicano 积分赛）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse, GameSession, SessionFormat } from '@/lib/types';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { createSeededScoringOptions } from '@/lib/algorithm';
+import { autoMaintainQueue } from '@/lib/queue-maintenance';
+import { generateSeed, isValidSeed } from '@/lib/random';
+import {
+  generateRoundRobinSchedule,
+  applyScheduleRound,
+  calculateScheduleStats,
+  isScheduledFormat,
+  MIN_SCHEDULE_ROUNDS,
+  MAX_SCHEDULE_ROUNDS
+} from '@/lib/schedule';
+import {
+  generateMexicanoRound,
+  isPointsFormat,
+  MIN_POINTS_PER_MATCH,
+  MAX_POINTS_PER_MATCH
+} from '@/lib/points-tournament';
+import { clearTournament } from '@/lib/tournament';
+
+const SCHEDULE_FORMATS: SessionFormat[] = ['schedule', 'americano', 'mexicano'];
+
+/**
+ * 生成预排赛程，并切换到赛程模式或积分赛
+ * Americano 一次排出全部轮次；Mexicano 只排第一轮，之后每轮开始时按积分榜生成
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以生成赛程'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const { rounds, seed, format = 'schedule', pointsPerMatch } = await request.json();
+
+    if (!SCHEDULE_FORMATS.includes(format)) {
+      return NextResponse.json({
+        success: false,
+        error: '赛制必须是schedule、americano或mexicano'
+      }, { status: 400 });
+    }
+
+    if (!Number.isInteger(rounds) || rounds < MIN_SCHEDULE_ROUNDS || rounds > MAX_SCHEDULE_ROUNDS) {
+      return NextResponse.json({
+        success: false,
+        error: `赛程轮数必须是${MIN_SCHEDULE_ROUNDS}-${MAX_SCHEDULE_ROUNDS}之间的整数`
+      }, { status: 400 });
+    }
+
+    if (pointsPerMatch !== undefined && pointsPerMatch !== null &&
+        (!Number.isInteger(pointsPerMatch) || pointsPerMatch < MIN_POINTS_PER_MATCH || pointsPerMatch > MAX_POINTS_PER_MATCH)) {
+      return NextResponse.json({
+        success: false,
+        error: `每场总分必须是${MIN_POINTS_PER_MATCH}-${MAX_POINTS_PER_MATCH}之间的整数`
+      }, { status: 400 });
+    }
+
+    if (seed !== undefined && seed !== null && !isValidSeed(seed)) {
+      return NextResponse.json({
+        success: false,
+        error: '随机种子必须是 0 到 4294967295 之间的整数'
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    // 检查是否有正在进行的比赛
+    const hasActiveGames = session.courts.some(court => court.status === 'playing');
+    if (hasActiveGames) {
+      return NextResponse.json({
+        success: false,
+        error: '还有比赛正在进行中，请先结束所有比赛再生成赛程'
+      }, { status: 400 });
+    }
+
+    const players = session.participants.filter(p => !p.hasLeft);
+    if (players.length < 4) {
+      return NextResponse.json({
+        success: false,
+        error: '至少需要4名参与者才能生成赛程'
+      }, { status: 400 });
+    }
+
+    const scheduleSeed = seed ?? generateSeed();
+    const { rounds: scheduleRounds, stats } = generateRoundRobinSchedule(
+      players,
+      session.courts.map(court => court.id),
+      format === 'mexicano' ? 1 : rounds,
+      createSeededScoringOptions(session, 'schedule', scheduleSeed)
+    );
+
+    session.schedule = {
+      rounds: scheduleRounds,
+      playerIds: players.map(p => p.id),
+      currentRound: 0,
+      totalRounds: rounds,
+      seed: scheduleSeed,
+      stats,
+      createdAt: new Date()
+    };
+    session.settings.format = format;
+    clearTournament(session);
+    session.settings.pointsPerMatch = isPointsFormat(format) ? (pointsPerMatch ?? undefined) : undefined;
+    session.challengerQueue = undefined;
+
+    // 赛程模式下清空等待队列
+    autoMaintainQueue(session);
+
+    session.updatedAt = new Date();
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: format === 'mexicano'
+        ? `已生成第 1 轮，共 ${rounds} 轮`
+        : `已生成 ${scheduleRounds.length} 轮赛程`
+    });
+
+  } catch (error) {
+    console.error('生成赛程失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 开始赛程中的某一轮（默认下一轮）
+ * Mexicano 的下一轮尚未生成时，按当前积分榜生成
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以推进赛程'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const body = await request.json().catch(() => ({}));
+    const { round } = body || {};
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    const schedule = session.schedule;
+    if (!schedule || !isScheduledFormat(session.settings.format)) {
+      return NextResponse.json({
+        success: false,
+        error: '当前球局没有预排赛程'
+      }, { status: 400 });
+    }
+
+    const totalRounds = schedule.totalRounds ?? schedule.rounds.length;
+    const targetRound = round ?? schedule.currentRound + 1;
+    if (!Number.isInteger(targetRound) || targetRound < 1 || targetRound > totalRounds) {
+      return NextResponse.json({
+        success: false,
+        error: targetRound > totalRounds ? '赛程已全部完成' : '轮次无效'
+      }, { status: 400 });
+    }
+
+    // Mexicano 只能按顺序开始下一轮（下一轮需根据当前积分榜生成）
+    if (targetRound > schedule.rounds.length + 1 ||
+        (targetRound > schedule.rounds.length && session.settings.format !== 'mexicano')) {
+      return NextResponse.json({
+        success: false,
+        error: '轮次无效'
+      }, { status: 400 });
+    }
+
+    // 检查是否有正在进行的比赛
+    const hasActiveGames = session.courts.some(court => court.status === 'playing');
+    if (hasActiveGames) {
+      return NextResponse.json({
+        success: false,
+        error: '还有比赛正在进行中，请先结束当前轮次的所有比赛'
+      }, { status: 400 });
+    }
+
+    if (targetRound > schedule.rounds.length) {
+      const nextRound = generateMexicanoRound(session, createSeededScoringOptions(session, 'schedule').random!);
+      if (!nextRound) {
+        return NextResponse.json({
+          success: false,
+          error: '至少需要4名参与者才能开始下一轮'
+        }, { status: 400 });
+      }
+      schedule.rounds.push(nextRound);
+      schedule.stats = calculateScheduleStats(schedule.rounds, schedule.playerIds);
+    }
+
+    const { started, skipped } = applyScheduleRound(session, targetRound);
+
+    session.updatedAt = new Date();
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: skipped > 0
+        ? `第 ${targetRound} 轮已开始 ${started} 场，${skipped} 场因有人离开而取消`
+        : `第 ${targetRound} 轮已开始`
+    });
+
+  } catch (error) {
+    console.error('推进赛程失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 删除预排赛程，恢复自由轮换
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以删除赛程'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    if (!session.schedule || !isScheduledFormat(session.settings.format)) {
+      return NextResponse.json({
+        success: false,
+        error: '当前没有预排赛程'
+      }, { status: 400 });
+    }
+
+    session.schedule = undefined;
+    session.settings.format = 'rotation';
+    session.settings.pointsPerMatch = undefined;
+
+    // 恢复自由轮换后重新生成等待队列
+    autoMaintainQueue(session);
+
+    session.updatedAt = new Date();
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: '已删除赛程，恢复自由轮换'
+    });
+
+  } catch (error) {
+    console.error('删除赛程失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
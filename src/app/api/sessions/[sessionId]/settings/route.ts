@@ -0,0 +1,286 @@
+/**
+ * 球局设置API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GameSession, ApiResponse, PairingMode, FairnessMode, SessionFormat, RestUnit } from '@/lib/types';
+import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+import {
+  SCORING_PRESETS,
+  SCORING_PRESET_IDS,
+  validateScoringCoefficients,
+  resolveScoringCoefficients
+} from '@/lib/scoring-presets';
+import {
+  DEFAULT_QUEUE_DEPTH,
+  MIN_QUEUE_DEPTH,
+  MAX_QUEUE_DEPTH,
+  MAX_CONSECUTIVE_GAMES_LIMIT,
+  MAX_MIN_REST_GAMES,
+  MAX_MIN_REST_MINUTES
+} from '@/lib/algorithm';
+import { autoMaintainQueue } from '@/lib/queue-maintenance';
+import { MAX_KING_STREAK_LIMIT } from '@/lib/king-of-court';
+import { clearTournament } from '@/lib/tournament';
+import { LATE_JOIN_POLICIES } from '@/lib/late-join';
+
+const PAIRING_MODES: PairingMode[] = ['any', 'mixed', 'same-gender', 'mixed-preferred'];
+const FAIRNESS_MODES: FairnessMode[] = ['games', 'time'];
+const REST_UNITS: RestUnit[] = ['games', 'minutes'];
+// 预排赛程、积分赛和锦标赛需通过各自的接口生成，不能在这里直接切换
+const SETTABLE_FORMATS: SessionFormat[] = ['rotation', 'king-of-court', 'ladder'];
+
+/**
+ * 更新球局设置
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value || 
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以修改球局设置'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const {
+      skillBalanceWeight,
+      pairingMode,
+      fairnessMode,
+      queueDepth,
+      maxConsecutiveGames,
+      minRest,
+      minRestUnit,
+      lateJoinPolicy,
+      scoringPreset,
+      scoringCoefficients,
+      format,
+      kingStreakLimit
+    } = await request.json();
+
+    if (skillBalanceWeight !== undefined &&
+        (typeof skillBalanceWeight !== 'number' || skillBalanceWeight < 0 || skillBalanceWeight > 5)) {
+      return NextResponse.json({
+        success: false,
+        error: '实力平衡权重必须在0-5之间'
+      }, { status: 400 });
+    }
+
+    if (pairingMode !== undefined && !PAIRING_MODES.includes(pairingMode)) {
+      return NextResponse.json({
+        success: false,
+        error: '组队模式必须是any、mixed、same-gender或mixed-preferred'
+      }, { status: 400 });
+    }
+
+    if (fairnessMode !== undefined && !FAIRNESS_MODES.includes(fairnessMode)) {
+      return NextResponse.json({
+        success: false,
+        error: '公平性模式必须是games或time'
+      }, { status: 400 });
+    }
+
+    if (queueDepth !== undefined &&
+        (!Number.isInteger(queueDepth) || queueDepth < MIN_QUEUE_DEPTH || queueDepth > MAX_QUEUE_DEPTH)) {
+      return NextResponse.json({
+        success: false,
+        error: `等待队列组数必须是${MIN_QUEUE_DEPTH}-${MAX_QUEUE_DEPTH}之间的整数`
+      }, { status: 400 });
+    }
+
+    if (maxConsecutiveGames !== undefined &&
+        (!Number.isInteger(maxConsecutiveGames) || maxConsecutiveGames < 0 || maxConsecutiveGames > MAX_CONSECUTIVE_GAMES_LIMIT)) {
+      return NextResponse.json({
+        success: false,
+        error: `最多连续上场场数必须是0-${MAX_CONSECUTIVE_GAMES_LIMIT}之间的整数`
+      }, { status: 400 });
+    }
+
+    if (minRestUnit !== undefined && !REST_UNITS.includes(minRestUnit)) {
+      return NextResponse.json({
+        success: false,
+        error: '最少休息的单位必须是games或minutes'
+      }, { status: 400 });
+    }
+
+    if (lateJoinPolicy !== undefined && !LATE_JOIN_POLICIES.includes(lateJoinPolicy)) {
+      return NextResponse.json({
+        success: false,
+        error: '迟到补记策略必须是none、minimum、average或prorated'
+      }, { status: 400 });
+    }
+
+    if (format !== undefined && !SETTABLE_FORMATS.includes(format)) {
+      return NextResponse.json({
+        success: false,
+        error: ['schedule', 'americano', 'mexicano', 'tournament'].includes(format)
+          ? '预排赛程、积分赛和锦标赛请在管理页面生成'
+          : '赛制必须是rotation、king-of-court或ladder'
+      }, { status: 400 });
+    }
+
+    if (kingStreakLimit !== undefined &&
+        (!Number.isInteger(kingStreakLimit) || kingStreakLimit < 0 || kingStreakLimit > MAX_KING_STREAK_LIMIT)) {
+      return NextResponse.json({
+        success: false,
+        error: `连胜上限必须是0-${MAX_KING_STREAK_LIMIT}之间的整数`
+      }, { status: 400 });
+    }
+
+    if (scoringPreset !== undefined && !SCORING_PRESET_IDS.includes(scoringPreset)) {
+      return NextResponse.json({
+        success: false,
+        error: `评分预设必须是${SCORING_PRESET_IDS.join('、')}之一`
+      }, { status: 400 });
+    }
+
+    if (scoringCoefficients !== undefined) {
+      const validation = validateScoringCoefficients(scoringCoefficients);
+      if (!validation.valid) {
+        return NextResponse.json({
+          success: false,
+          error: validation.error
+        }, { status: 400 });
+      }
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    // 最少休息按生效的单位校验：只改数值或只改单位时，另一项使用球局当前的设置
+    if (minRest !== undefined || minRestUnit !== undefined) {
+      const unit = minRestUnit ?? session.settings.minRestUnit ?? 'games';
+      const rest = minRest ?? session.settings.minRest ?? 0;
+      const maxMinRest = unit === 'minutes' ? MAX_MIN_REST_MINUTES : MAX_MIN_REST_GAMES;
+      if (!Number.isInteger(rest) || rest < 0 || rest > maxMinRest) {
+        return NextResponse.json({
+          success: false,
+          error: `最少休息必须是0-${maxMinRest}之间的整数（${unit === 'minutes' ? '分钟' : '场'}）`
+        }, { status: 400 });
+      }
+    }
+
+    // 应用预设：同时设置评分系数和实力平衡权重（显式传入的值优先）
+    if (scoringPreset !== undefined) {
+      const preset = SCORING_PRESETS[scoringPreset as keyof typeof SCORING_PRESETS];
+      session.settings.scoringPreset = scoringPreset;
+      session.settings.scoringCoefficients = { ...preset.coefficients };
+      if (skillBalanceWeight === undefined) {
+        session.settings.skillBalanceWeight = preset.skillBalanceWeight;
+      }
+    }
+
+    // 单独调整的系数在预设基础上覆盖，球局标记为自定义
+    if (scoringCoefficients !== undefined) {
+      session.settings.scoringCoefficients = {
+        ...resolveScoringCoefficients(session.settings.scoringCoefficients),
+        ...scoringCoefficients
+      };
+      session.settings.scoringPreset = 'custom';
+    }
+
+    if (skillBalanceWeight !== undefined) {
+      session.settings.skillBalanceWeight = skillBalanceWeight;
+    }
+
+    if (pairingMode !== undefined) {
+      session.settings.pairingMode = pairingMode;
+    }
+
+    if (fairnessMode !== undefined) {
+      session.settings.fairnessMode = fairnessMode;
+    }
+
+    // 队列组数、休息规则或赛制变化后，所有设置更新完再统一重新规划一次队列
+    let needsReplan = false;
+
+    if (queueDepth !== undefined && queueDepth !== (session.settings.queueDepth ?? DEFAULT_QUEUE_DEPTH)) {
+      session.settings.queueDepth = queueDepth;
+      needsReplan = true;
+    }
+
+    const restRulesChanged =
+      (maxConsecutiveGames !== undefined && maxConsecutiveGames !== (session.settings.maxConsecutiveGames ?? 0)) ||
+      (minRest !== undefined && minRest !== (session.settings.minRest ?? 0)) ||
+      (minRestUnit !== undefined && minRestUnit !== (session.settings.minRestUnit ?? 'games'));
+    if (restRulesChanged) {
+      if (maxConsecutiveGames !== undefined) session.settings.maxConsecutiveGames = maxConsecutiveGames;
+      if (minRest !== undefined) session.settings.minRest = minRest;
+      if (minRestUnit !== undefined) session.settings.minRestUnit = minRestUnit;
+      needsReplan = true;
+    }
+
+    // 只影响之后加入的参与者，已补记的不变
+    if (lateJoinPolicy !== undefined) {
+      session.settings.lateJoinPolicy = lateJoinPolicy;
+    }
+
+    if (kingStreakLimit !== undefined) {
+      session.settings.kingStreakLimit = kingStreakLimit;
+    }
+
+    // 切换赛制：清除原赛制的状态，之后按新赛制重建等待队列
+    if (format !== undefined && format !== (session.settings.format ?? 'rotation')) {
+      session.settings.format = format;
+      session.schedule = undefined;
+      session.settings.pointsPerMatch = undefined;
+      clearTournament(session);
+      session.challengerQueue = format === 'king-of-court' ? [] : undefined;
+      for (const court of session.courts) {
+        court.streak = undefined;
+      }
+      needsReplan = true;
+    }
+
+    if (needsReplan) {
+      autoMaintainQueue(session);
+    }
+
+    session.updatedAt = new Date();
+
+    // 保存球局
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: '球局设置更新成功'
+    });
+
+  } catch (error) {
+    console.error('更新球局设置失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
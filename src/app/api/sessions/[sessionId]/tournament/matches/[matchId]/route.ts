@@ -0,0 +1,148 @@
+/**
+ * 锦标赛比赛比分API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse, GameSession } from '@/lib/types';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { updatePlayerStats } from '@/lib/algorithm';
+import { validateGameScore, recordGameResult } from '@/lib/game-results';
+import { recordCourtTime, syncWaitingTimes } from '@/lib/court-time';
+import { updateRatingsFromResult } from '@/lib/rating';
+import { completeTournamentMatch, assignTournamentCourts } from '@/lib/tournament';
+import { retireIfDraining } from '@/lib/courts';
+
+/**
+ * 录入场上锦标赛比赛的比分：晋级对阵表，空出的场地安排下一场比赛
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string; matchId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以录入锦标赛比分'
+      }, { status: 403 });
+    }
+
+    const { sessionId, matchId } = params;
+    const { score } = await request.json();
+
+    // 淘汰赛需要比分才能决定晋级
+    if (!score) {
+      return NextResponse.json({
+        success: false,
+        error: '锦标赛需要录入比分'
+      }, { status: 400 });
+    }
+
+    const scoreValidation = validateGameScore(score);
+    if (!scoreValidation.valid) {
+      return NextResponse.json({
+        success: false,
+        error: scoreValidation.error
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    const tournament = session.tournament;
+    if (!tournament || session.settings.format !== 'tournament') {
+      return NextResponse.json({
+        success: false,
+        error: '当前球局没有进行中的锦标赛'
+      }, { status: 400 });
+    }
+
+    const match = tournament.matches.find(m => m.id === matchId);
+    if (!match) {
+      return NextResponse.json({
+        success: false,
+        error: '比赛不存在'
+      }, { status: 404 });
+    }
+
+    const court = session.courts.find(c => c.tournamentMatchId === match.id);
+    if (match.status !== 'playing' || !court) {
+      return NextResponse.json({
+        success: false,
+        error: match.status === 'finished' ? '该比赛已结束' : '该比赛还没有安排到场地上'
+      }, { status: 400 });
+    }
+
+    const completedGame = { team1: court.team1!, team2: court.team2! };
+
+    // 记录比赛结果并更新选手评分
+    const result = recordGameResult(session, court, score);
+    if (result) {
+      await updateRatingsFromResult(session, result);
+    }
+
+    // 记录上场时长
+    recordCourtTime(session, court);
+
+    // 更新参与者统计信息
+    updatePlayerStats(session.participants, completedGame);
+    session.stats.totalGamesPlayed += 1;
+
+    // 清空场地
+    court.team1 = null;
+    court.team2 = null;
+    court.status = 'empty';
+    court.startTime = undefined;
+    court.tournamentMatchId = undefined;
+
+    completeTournamentMatch(tournament, match, score);
+
+    // 待撤场的场地撤掉，其余空出的场地安排下一场比赛
+    retireIfDraining(session, court);
+    assignTournamentCourts(session);
+    syncWaitingTimes(session);
+
+    session.updatedAt = new Date();
+    await saveGameSession(session, session.createdBy);
+
+    const champion = tournament.teams.find(team => team.id === tournament.championId);
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: champion ? `锦标赛结束，冠军：${champion.name}` : '比分已录入'
+    });
+
+  } catch (error) {
+    console.error('录入锦标赛比分失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
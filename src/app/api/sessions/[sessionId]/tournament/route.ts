@@ -0,0 +1,268 @@
+/**
+ * 锦标赛API路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse, BracketType, GameSession, TournamentTeamInput } from '@/lib/types';
+import { validateAuthSession, isAdmin } from '@/lib/auth';
+import { getGameSession, saveGameSession } from '@/lib/memory-store';
+import { autoMaintainQueue } from '@/lib/queue-maintenance';
+import { syncWaitingTimes } from '@/lib/court-time';
+import {
+  createTournament,
+  createSwissTournament,
+  validateTournamentOptions,
+  validateSwissOptions,
+  getDefaultSwissRounds,
+  assignTournamentCourts,
+  clearTournament
+} from '@/lib/tournament';
+
+const BRACKET_TYPES: BracketType[] = ['single', 'double'];
+
+/**
+ * 检查报名队伍的格式：两名队员的ID必填，队名可选
+ */
+function isTournamentTeamInput(team: unknown): team is TournamentTeamInput {
+  if (typeof team !== 'object' || team === null) return false;
+  const { name, player1, player2 } = team as Record<string, unknown>;
+  return typeof player1 === 'string' && typeof player2 === 'string' &&
+    (name === undefined || typeof name === 'string');
+}
+
+/**
+ * 创建锦标赛并切换到锦标赛赛制
+ * 未传入报名队伍时使用球局中的固定搭档作为报名队伍
+ * mode 为 swiss 时创建瑞士制，未传入轮数时使用创建球局时设定的轮数
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以创建锦标赛'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const {
+      teams,
+      mode = 'elimination',
+      rounds,
+      poolCount = 0,
+      advancePerPool = 2,
+      bracketType = 'single'
+    } = await request.json();
+
+    if (mode !== 'elimination' && mode !== 'swiss') {
+      return NextResponse.json({
+        success: false,
+        error: '锦标赛模式必须是elimination或swiss'
+      }, { status: 400 });
+    }
+
+    if (!BRACKET_TYPES.includes(bracketType)) {
+      return NextResponse.json({
+        success: false,
+        error: '淘汰赛类型必须是single或double'
+      }, { status: 400 });
+    }
+
+    if (teams !== undefined && !Array.isArray(teams)) {
+      return NextResponse.json({
+        success: false,
+        error: '报名队伍必须是数组'
+      }, { status: 400 });
+    }
+
+    const teamInputs: unknown[] | undefined = teams;
+    if (teamInputs && !teamInputs.every(isTournamentTeamInput)) {
+      return NextResponse.json({
+        success: false,
+        error: '每支报名队伍都需要填写两名队员'
+      }, { status: 400 });
+    }
+
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    if (session.courts.some(court => court.status === 'playing')) {
+      return NextResponse.json({
+        success: false,
+        error: '还有比赛正在进行中，请先结束所有比赛'
+      }, { status: 400 });
+    }
+
+    const getName = (playerId: string) => session.participants.find(p => p.id === playerId)?.name || '未知';
+    const entries: Array<{ name: string; player1: string; player2: string }> = teamInputs
+      ? teamInputs.map(team => ({
+          name: team.name?.trim() || `${getName(team.player1)} & ${getName(team.player2)}`,
+          player1: team.player1,
+          player2: team.player2
+        }))
+      : (session.lockedPairs || []).map(pair => ({
+          name: `${getName(pair.player1)} & ${getName(pair.player2)}`,
+          player1: pair.player1,
+          player2: pair.player2
+        }));
+
+    // 每名队员必须是未离开的参与者，且只能报名一支队伍
+    const registered = new Set<string>();
+    for (const entry of entries) {
+      for (const playerId of [entry.player1, entry.player2]) {
+        const participant = session.participants.find(p => p.id === playerId);
+        if (!participant || participant.hasLeft) {
+          return NextResponse.json({
+            success: false,
+            error: `队伍"${entry.name}"中有选手不在球局中`
+          }, { status: 400 });
+        }
+        if (registered.has(playerId)) {
+          return NextResponse.json({
+            success: false,
+            error: `${participant.name} 只能报名一支队伍`
+          }, { status: 400 });
+        }
+        registered.add(playerId);
+      }
+    }
+
+    const swissRounds = rounds ?? session.settings.swissRounds ?? getDefaultSwissRounds(entries.length);
+    const validation = mode === 'swiss'
+      ? validateSwissOptions(entries.length, swissRounds)
+      : validateTournamentOptions(entries.length, poolCount, advancePerPool);
+    if (!validation.valid) {
+      return NextResponse.json({
+        success: false,
+        error: teams ? validation.error : `${validation.error}（报名队伍取自固定搭档）`
+      }, { status: 400 });
+    }
+
+    session.schedule = undefined;
+    session.challengerQueue = undefined;
+    session.settings.pointsPerMatch = undefined;
+    session.settings.format = 'tournament';
+    session.tournament = mode === 'swiss'
+      ? createSwissTournament(entries, swissRounds)
+      : createTournament(entries, poolCount, advancePerPool, bracketType);
+
+    // 锦标赛不使用等待队列，空场地直接安排第一批比赛
+    autoMaintainQueue(session);
+    const started = assignTournamentCourts(session);
+    syncWaitingTimes(session);
+
+    session.updatedAt = new Date();
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: mode === 'swiss'
+        ? `瑞士制已创建，${entries.length} 支队伍共 ${swissRounds} 轮，${started} 场比赛已开始`
+        : `锦标赛已创建，${entries.length} 支队伍，${started} 场比赛已开始`
+    });
+
+  } catch (error) {
+    console.error('创建锦标赛失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 结束锦标赛，恢复自由轮换
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+): Promise<NextResponse<ApiResponse<GameSession>>> {
+  try {
+    // 验证认证
+    const token = request.cookies.get('auth-token')?.value ||
+                  request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: '未提供认证token'
+      }, { status: 401 });
+    }
+
+    const currentUser = await validateAuthSession(token);
+    if (!currentUser) {
+      return NextResponse.json({
+        success: false,
+        error: '认证token无效或已过期'
+      }, { status: 401 });
+    }
+
+    // 检查管理员权限
+    if (!isAdmin(currentUser.role)) {
+      return NextResponse.json({
+        success: false,
+        error: '权限不足，仅管理员可以结束锦标赛'
+      }, { status: 403 });
+    }
+
+    const sessionId = params.sessionId;
+    const session = await getGameSession(sessionId);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: '球局不存在'
+      }, { status: 404 });
+    }
+
+    clearTournament(session);
+    session.settings.format = 'rotation';
+
+    // 恢复自由轮换后重新生成等待队列
+    autoMaintainQueue(session);
+
+    session.updatedAt = new Date();
+    await saveGameSession(session, session.createdBy);
+
+    return NextResponse.json({
+      success: true,
+      data: session,
+      message: '已结束锦标赛，恢复自由轮换'
+    });
+
+  } catch (error) {
+    console.error('结束锦标赛失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: '服务器内部错误'
+    }, { status: 500 });
+  }
+}
@@ -24,7 +24,7 @@ export async function POST(
     const { player1, player2, weight, type } = body;
 
     // 验证输入
-    if (!player1 || !player2 || !weight || !type) {
+    if (!player1 || !player2 || weight === undefined || weight === null || !type) {
       return NextResponse.json({
         success: false,
         error: '参数不完整'
@@ -38,10 +38,11 @@ export async function POST(
       }, { status: 400 });
     }
 
-    if (weight < 1 || weight > 10) {
+    // 正数增加组合概率，负数表示尽量避免该组合
+    if (typeof weight !== 'number' || !Number.isInteger(weight) || weight < -10 || weight > 10 || weight === 0) {
       return NextResponse.json({
         success: false,
-        error: '权重值必须在1-10之间'
+        error: '权重值必须是-10到10之间的非零整数'
       }, { status: 400 });
     }
 
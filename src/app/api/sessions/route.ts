@@ -5,7 +5,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
 import { GameSession, Participant, CreateSessionRequest, ApiResponse } from '@/lib/types';
-import { generateOptimalTeams } from '@/lib/algorithm';
+import { generateOptimalTeams, createSeededScoringOptions } from '@/lib/algorithm';
+import { syncWaitingTimes } from '@/lib/court-time';
+import { loadParticipantRatings } from '@/lib/rating';
+import { MIN_SWISS_ROUNDS, MAX_SWISS_ROUNDS } from '@/lib/tournament';
 import { saveGameSession, getGameSession, validateCustomSessionId, isSessionIdExists, deleteGameSession } from '@/lib/memory-store';
 import { validateAuthSession, isAdmin, isSuperAdmin } from '@/lib/auth';
 
@@ -42,7 +45,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
     }
 
     const body: CreateSessionRequest = await request.json();
-    const { participantNames, courtCount, maxGamesPerRound = 10, customSessionId } = body;
+    const { participantNames, courtCount, maxGamesPerRound = 10, customSessionId, skillBalanceWeight = 0, swissRounds } = body;
 
     // 验证输入
     if (!participantNames || !Array.isArray(participantNames) || participantNames.length < 4) {
@@ -59,6 +62,20 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       }, { status: 400 });
     }
 
+    if (typeof skillBalanceWeight !== 'number' || skillBalanceWeight < 0 || skillBalanceWeight > 5) {
+      return NextResponse.json({
+        success: false,
+        error: '实力平衡权重必须在0-5之间'
+      }, { status: 400 });
+    }
+
+    if (swissRounds !== undefined && (!Number.isInteger(swissRounds) || swissRounds < MIN_SWISS_ROUNDS || swissRounds > MAX_SWISS_ROUNDS)) {
+      return NextResponse.json({
+        success: false,
+        error: `瑞士制轮数必须是${MIN_SWISS_ROUNDS}-${MAX_SWISS_ROUNDS}之间的整数`
+      }, { status: 400 });
+    }
+
     // 处理球局ID
     let sessionId: string;
     
@@ -96,9 +113,18 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       opponents: {},
       status: 'resting',
       joinedAt: new Date(),
-      hasLeft: false  // 初始化为未离开
+      hasLeft: false,  // 初始化为未离开
+      wins: 0,
+      losses: 0,
+      pointDifferential: 0,
+      courtMinutes: 0,
+      waitingMinutes: 0,
+      longestWaitMinutes: 0
     }));
 
+    // 加载选手的历史评分
+    await loadParticipantRatings(participants);
+
     // 创建游戏球局
     const session: GameSession = {
       id: sessionId,
@@ -106,13 +132,17 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       courts: [],
       queue: [],
       weights: [],
+      results: [],
+      seedHistory: [],
       createdBy: currentUser.id, // 添加创建者信息
       createdAt: new Date(),
       updatedAt: new Date(),
       settings: {
         courtCount,
         participantCount: participants.length,
-        maxGamesPerRound
+        maxGamesPerRound,
+        skillBalanceWeight,
+        swissRounds
       },
       stats: {
         totalGamesPlayed: 0,
@@ -121,9 +151,11 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
     };
 
     // 生成初始队伍分配
-    const assignment = generateOptimalTeams(participants, courtCount, []);
+    const assignment = generateOptimalTeams(participants, courtCount, [], createSeededScoringOptions(session, 'create'));
     session.courts = assignment.courts;
     session.queue = assignment.queue;
+    session.queueWarning = assignment.queueWarning;
+    session.ruleWarning = assignment.ruleWarning;
 
     // 更新参与者状态
     for (const participant of session.participants) {
@@ -164,6 +196,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       }
     }
 
+    // 开始记录未上场参与者的等待时间
+    syncWaitingTimes(session);
+
     // 保存到内存存储
     await saveGameSession(session, currentUser.id);
 
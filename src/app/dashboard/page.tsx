@@ -628,6 +628,8 @@ function CreateUserModal({ onClose, onSuccess }: { onClose: () => void; onSucces
 function CreateSessionModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: (sessionId: string) => void }) {
   const [participantNames, setParticipantNames] = useState('');
   const [courtCount, setCourtCount] = useState(2);
+  const [skillBalanceWeight, setSkillBalanceWeight] = useState(0);
+  const [swissRounds, setSwissRounds] = useState('');
   const [customSessionId, setCustomSessionId] = useState('');
   const [useCustomId, setUseCustomId] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -655,6 +657,8 @@ function CreateSessionModal({ onClose, onSuccess }: { onClose: () => void; onSuc
         body: JSON.stringify({
           participantNames: names,
           courtCount,
+          skillBalanceWeight,
+          swissRounds: swissRounds ? Number(swissRounds) : undefined,
           customSessionId: useCustomId ? customSessionId : undefined,
         }),
       });
@@ -714,6 +718,36 @@ function CreateSessionModal({ onClose, onSuccess }: { onClose: () => void; onSuc
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              组队风格
+            </label>
+            <select
+              value={skillBalanceWeight}
+              onChange={(e) => setSkillBalanceWeight(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pickleball-500 focus:border-transparent"
+            >
+              <option value={0}>社交（不考虑实力）</option>
+              <option value={1}>均衡（适度平衡实力）</option>
+              <option value={3}>竞技（优先实力接近）</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              瑞士制轮数（可选）
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={15}
+              value={swissRounds}
+              onChange={(e) => setSwissRounds(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pickleball-500 focus:border-transparent"
+              placeholder="之后创建瑞士制锦标赛时使用"
+            />
+          </div>
+
           <div>
             <label className="flex items-center space-x-2">
               <input
@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react'
 import { useParams } from 'next/navigation'
 import { GameSession, Participant } from '@/lib/types'
 import ContactAdmin from '@/components/ContactAdmin'
+import PointsStandings from '@/components/PointsStandings'
+import { isPointsFormat } from '@/lib/points-tournament'
 
 export default function ParticipantPage() {
   const params = useParams()
@@ -113,6 +115,8 @@ export default function ParticipantPage() {
   const playingParticipants = session.participants.filter(p => p.status === 'playing')
   const queuedParticipants = session.participants.filter(p => p.status === 'queued')
   const restingParticipants = session.participants.filter(p => p.status === 'resting')
+  const isKingOfCourt = session.settings.format === 'king-of-court'
+  const challengerQueue = isKingOfCourt ? (session.challengerQueue || []) : []
 
   // 计算平均比赛次数
   const avgGames = session.participants.length > 0 
@@ -161,7 +165,12 @@ export default function ParticipantPage() {
                   {court.team1 && court.team2 ? (
                     <div className="grid grid-cols-2 gap-4">
                       <div className="bg-blue-50 rounded-lg p-3">
-                        <div className="text-sm text-blue-700 font-medium mb-1">队伍 A</div>
+                        <div className="text-sm text-blue-700 font-medium mb-1">
+                          {isKingOfCourt ? '守擂方' : '队伍 A'}
+                          {isKingOfCourt && (court.streak || 0) > 0 && (
+                            <span className="ml-2 text-orange-600">🔥 {court.streak} 连胜</span>
+                          )}
+                        </div>
                         <div className="text-blue-800 font-medium">
                           {getParticipantName(court.team1.player1)}
                         </div>
@@ -170,7 +179,7 @@ export default function ParticipantPage() {
                         </div>
                       </div>
                       <div className="bg-red-50 rounded-lg p-3">
-                        <div className="text-sm text-red-700 font-medium mb-1">队伍 B</div>
+                        <div className="text-sm text-red-700 font-medium mb-1">{isKingOfCourt ? '挑战方' : '队伍 B'}</div>
                         <div className="text-red-800 font-medium">
                           {getParticipantName(court.team2.player1)}
                         </div>
@@ -192,13 +201,31 @@ export default function ParticipantPage() {
           {/* 等待队列 - 第二重要，右上角 */}
           <div className="bg-white rounded-xl shadow-lg p-6">
             <h2 className="text-2xl font-semibold text-gray-800 mb-6">
-              等待队列 ({session.queue.length} 场比赛)
+              {isKingOfCourt ? `挑战者队列 (${challengerQueue.length} 人)` : `等待队列 (${session.queue.length} 场比赛)`}
             </h2>
-            {session.queue.length > 0 ? (
-              <div className="space-y-4 max-h-96 overflow-y-auto">
+            {isKingOfCourt ? (
+              challengerQueue.length > 0 ? (
+                <div className="space-y-2">
+                  {challengerQueue.map((playerId, index) => (
+                    <div key={playerId} className="flex justify-between bg-gray-50 rounded-lg px-3 py-2 text-sm">
+                      <span className="text-gray-800">{index + 1}. {getParticipantName(playerId)}</span>
+                      <span className="text-gray-500">{index < 2 ? '下一个挑战' : `前面还有 ${index} 人`}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-gray-500 text-center py-8">
+                  暂无挑战者排队
+                </div>
+              )
+            ) : session.queue.length > 0 ? (
+              <div className="space-y-4">
                 {session.queue.map((match, index) => (
                   <div key={index} className="border border-gray-200 rounded-lg p-4">
-                    <div className="text-sm text-gray-500 mb-2">第 {index + 1} 场</div>
+                    <div className="flex justify-between text-sm text-gray-500 mb-2">
+                      <span>第 {index + 1} 场</span>
+                      <span>{index === 0 ? '下一场上场' : `前面还有 ${index} 场`}</span>
+                    </div>
                     <div className="grid grid-cols-2 gap-3">
                       <div className="bg-blue-50 rounded-lg p-3">
                         <div className="text-xs text-blue-700 font-medium mb-1">队伍 A</div>
@@ -230,6 +257,11 @@ export default function ParticipantPage() {
           </div>
         </div>
 
+        {/* 积分赛积分榜 */}
+        {isPointsFormat(session.settings.format) && session.schedule && (
+          <PointsStandings session={session} className="mb-8" />
+        )}
+
         {/* 参与者统计 - 最后，底部全宽 */}
         <div className="bg-white rounded-xl shadow-lg p-6">
           <h2 className="text-2xl font-semibold text-gray-800 mb-6">参与者统计</h2>
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react'
 import { useParams } from 'next/navigation'
 import { GameSession, Participant } from '@/lib/types'
 import Navigation from '@/components/ui/Navigation'
+import TournamentBracket from '@/components/TournamentBracket'
 
 export default function SessionPage() {
   const params = useParams()
@@ -249,6 +250,11 @@ export default function SessionPage() {
           </div>
         </div>
 
+        {/* 锦标赛对阵表 */}
+        {session.settings.format === 'tournament' && session.tournament && (
+          <TournamentBracket session={session} className="mt-8" />
+        )}
+
         {/* 参与者状态 */}
         <div className="mt-8">
           <h2 className="text-lg font-medium text-gray-900 mb-4">参与者状态</h2>
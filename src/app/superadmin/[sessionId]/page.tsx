@@ -2,7 +2,22 @@
 
 import { useState, useEffect } from 'react'
 import { useParams, useRouter } from 'next/navigation'
-import { GameSession, Weight, Participant } from '@/lib/types'
+import { GameSession, Weight, Participant, PairingMode, FairnessMode, ScoringCoefficients, ScoringPreset, ExclusionType, SessionFormat, RestUnit } from '@/lib/types'
+import {
+  SCORING_PRESETS,
+  SCORING_PRESET_IDS,
+  SCORING_COEFFICIENT_RANGES,
+  resolveScoringCoefficients
+} from '@/lib/scoring-presets'
+import {
+  DEFAULT_QUEUE_DEPTH,
+  MIN_QUEUE_DEPTH,
+  MAX_QUEUE_DEPTH,
+  MAX_CONSECUTIVE_GAMES_LIMIT,
+  MAX_MIN_REST_GAMES,
+  MAX_MIN_REST_MINUTES
+} from '@/lib/algorithm'
+import { MAX_KING_STREAK_LIMIT } from '@/lib/king-of-court'
 import { useSuperAdminSocket } from '@/hooks/useSocket'
 import Navigation from '@/components/ui/Navigation'
 
@@ -15,6 +30,18 @@ export default function SuperAdminPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showAddWeight, setShowAddWeight] = useState(false)
+  const [skillBalanceWeight, setSkillBalanceWeight] = useState(0)
+  const [pairingMode, setPairingMode] = useState<PairingMode>('any')
+  const [fairnessMode, setFairnessMode] = useState<FairnessMode>('games')
+  const [queueDepth, setQueueDepth] = useState(DEFAULT_QUEUE_DEPTH)
+  const [maxConsecutiveGames, setMaxConsecutiveGames] = useState(0)
+  const [minRest, setMinRest] = useState(0)
+  const [minRestUnit, setMinRestUnit] = useState<RestUnit>('games')
+  const [format, setFormat] = useState<SessionFormat>('rotation')
+  const [kingStreakLimit, setKingStreakLimit] = useState(0)
+  const [scoringPreset, setScoringPreset] = useState<ScoringPreset | 'custom'>('default')
+  const [scoringCoefficients, setScoringCoefficients] = useState<ScoringCoefficients>(resolveScoringCoefficients())
+  const [savingSettings, setSavingSettings] = useState(false)
   const [newWeight, setNewWeight] = useState({
     player1: '',
     player2: '',
@@ -22,6 +49,13 @@ export default function SuperAdminPage() {
     type: 'teammate' as 'teammate' | 'opponent'
   })
 
+  const [newExclusion, setNewExclusion] = useState({
+    player1: '',
+    player2: '',
+    type: 'opponent' as ExclusionType,
+    reason: ''
+  })
+
   const { isConnected, on, off, setWeight, removeWeight } = useSuperAdminSocket(sessionId)
 
   useEffect(() => {
@@ -63,6 +97,17 @@ export default function SuperAdminPage() {
       
       if (data.success) {
         setSession(data.data)
+        setSkillBalanceWeight(data.data.settings.skillBalanceWeight ?? 0)
+        setPairingMode(data.data.settings.pairingMode ?? 'any')
+        setFairnessMode(data.data.settings.fairnessMode ?? 'games')
+        setQueueDepth(data.data.settings.queueDepth ?? DEFAULT_QUEUE_DEPTH)
+        setMaxConsecutiveGames(data.data.settings.maxConsecutiveGames ?? 0)
+        setMinRest(data.data.settings.minRest ?? 0)
+        setMinRestUnit(data.data.settings.minRestUnit ?? 'games')
+        setFormat(data.data.settings.format ?? 'rotation')
+        setKingStreakLimit(data.data.settings.kingStreakLimit ?? 0)
+        setScoringPreset(data.data.settings.scoringPreset ?? 'default')
+        setScoringCoefficients(resolveScoringCoefficients(data.data.settings.scoringCoefficients))
         setError(null)
       } else {
         setError(data.error || '加载球局失败')
@@ -80,6 +125,11 @@ export default function SuperAdminPage() {
       return
     }
 
+    if (newWeight.weight === 0) {
+      alert('权重值不能为0')
+      return
+    }
+
     try {
       console.log('🔄 添加权重:', newWeight);
       
@@ -151,6 +201,135 @@ export default function SuperAdminPage() {
     }
   }
 
+  const handleAddExclusion = async () => {
+    if (!newExclusion.player1 || !newExclusion.player2 || newExclusion.player1 === newExclusion.player2) {
+      alert('请选择两个不同的参与者')
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/exclusions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          player1: newExclusion.player1,
+          player2: newExclusion.player2,
+          type: newExclusion.type,
+          reason: newExclusion.reason.trim() || undefined
+        }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setNewExclusion({ player1: '', player2: '', type: 'opponent', reason: '' })
+        await loadSession();
+      } else {
+        alert(data.error || '添加禁止组合规则失败');
+      }
+    } catch (error) {
+      console.error('添加禁止组合规则失败:', error);
+      alert('网络错误，请重试');
+    }
+  }
+
+  const handleRemoveExclusion = async (exclusionId: string) => {
+    if (!confirm('确定要删除这条禁止组合规则吗？')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/exclusions?exclusionId=${exclusionId}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        await loadSession();
+      } else {
+        alert(data.error || '删除禁止组合规则失败');
+      }
+    } catch (error) {
+      console.error('删除禁止组合规则失败:', error);
+      alert('网络错误，请重试');
+    }
+  }
+
+  const handleSelectPreset = (preset: ScoringPreset | 'custom') => {
+    setScoringPreset(preset)
+    if (preset !== 'custom') {
+      setScoringCoefficients({ ...SCORING_PRESETS[preset].coefficients })
+      setSkillBalanceWeight(SCORING_PRESETS[preset].skillBalanceWeight)
+    }
+  }
+
+  const handleCoefficientChange = (key: keyof ScoringCoefficients, value: number) => {
+    setScoringCoefficients(prev => ({ ...prev, [key]: value }))
+    setScoringPreset('custom')
+  }
+
+  const handleSaveSettings = async () => {
+    try {
+      setSavingSettings(true)
+      const response = await fetch(`/api/sessions/${sessionId}/settings`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          skillBalanceWeight,
+          pairingMode,
+          fairnessMode,
+          queueDepth,
+          maxConsecutiveGames,
+          minRest,
+          minRestUnit,
+          kingStreakLimit,
+          // 预排赛程、积分赛和锦标赛只能在管理页面生成，保持不变时不提交赛制
+          ...(!['schedule', 'americano', 'mexicano', 'tournament'].includes(format) ? { format } : {}),
+          // 选择预设时由服务器应用预设系数，自定义时提交具体系数
+          ...(scoringPreset === 'custom' ? { scoringCoefficients } : { scoringPreset })
+        }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setSession(data.data);
+        alert('组队设置已保存！');
+      } else {
+        alert(data.error || '保存组队设置失败');
+      }
+    } catch (error) {
+      console.error('保存组队设置失败:', error);
+      alert('网络错误，请重试');
+    } finally {
+      setSavingSettings(false)
+    }
+  }
+
+  const handleUpdateParticipant = async (participantId: string, updates: Record<string, unknown>) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/participants/${participantId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setSession(data.data);
+      } else {
+        alert(data.error || '更新参与者信息失败');
+      }
+    } catch (error) {
+      console.error('更新参与者信息失败:', error);
+      alert('网络错误，请重试');
+    }
+  }
+
   const getParticipantName = (id: string) => {
     return session?.participants.find(p => p.id === id)?.name || '未知'
   }
@@ -271,13 +450,230 @@ export default function SuperAdminPage() {
           </div>
         </div>
 
+        {/* 组队设置 */}
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">组队设置</h2>
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              赛制
+            </label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as SessionFormat)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="rotation">自由轮换</option>
+              <option value="king-of-court">擂台赛（赢家留场）</option>
+              <option value="ladder">升降梯（赢家升场、输家降场）</option>
+              {format === 'schedule' && (
+                <option value="schedule" disabled>预排赛程（在管理页面生成）</option>
+              )}
+              {format === 'americano' && (
+                <option value="americano" disabled>Americano 积分赛（在管理页面生成）</option>
+              )}
+              {format === 'mexicano' && (
+                <option value="mexicano" disabled>Mexicano 积分赛（在管理页面生成）</option>
+              )}
+              {format === 'tournament' && (
+                <option value="tournament" disabled>锦标赛（在管理页面创建）</option>
+              )}
+            </select>
+            <p className="text-sm text-gray-600 mt-2">
+              擂台赛中获胜队伍留在场上，输方排到挑战者队列末尾，由队首两人组队挑战；结束比赛时必须录入比分。
+              升降梯按场地编号排出高低，每轮所有场地录入比分后统一轮换，赢家升一级、输家降一级并拆开搭档。
+            </p>
+            {format === 'king-of-court' && (
+              <div className="mt-3">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  连胜上限: {kingStreakLimit === 0 ? '不限' : `${kingStreakLimit} 场`}
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max={MAX_KING_STREAK_LIMIT}
+                  step="1"
+                  value={kingStreakLimit}
+                  onChange={(e) => setKingStreakLimit(Number(e.target.value))}
+                  className="w-full"
+                />
+                <p className="text-sm text-gray-600 mt-2">
+                  守擂队伍连胜达到上限后拆开下场排队，避免同一对一直占着场地。
+                </p>
+              </div>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              实力平衡权重: {skillBalanceWeight}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="5"
+              step="0.5"
+              value={skillBalanceWeight}
+              onChange={(e) => setSkillBalanceWeight(Number(e.target.value))}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              <span>纯社交（不考虑实力）</span>
+              <span>竞技（双方实力接近）</span>
+            </div>
+            <p className="text-sm text-gray-600 mt-2">
+              实力优先使用下方录入的技术水平，未录入时使用选手的历史评分。
+            </p>
+          </div>
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              组队模式
+            </label>
+            <select
+              value={pairingMode}
+              onChange={(e) => setPairingMode(e.target.value as PairingMode)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="any">不限</option>
+              <option value="mixed">混双（每队一男一女）</option>
+              <option value="same-gender">同性双打</option>
+              <option value="mixed-preferred">优先混双</option>
+            </select>
+            <p className="text-sm text-gray-600 mt-2">
+              混双和同性双打为硬性要求，人员无法满足时自动放宽；未设置性别的参与者可与任何人组队。
+            </p>
+          </div>
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              等待队列组数: {queueDepth}
+            </label>
+            <input
+              type="range"
+              min={MIN_QUEUE_DEPTH}
+              max={MAX_QUEUE_DEPTH}
+              step="1"
+              value={queueDepth}
+              onChange={(e) => setQueueDepth(Number(e.target.value))}
+              className="w-full"
+            />
+            <p className="text-sm text-gray-600 mt-2">
+              大型球局可提前排出3-4组，小型球局只排1组；保存后立即按新组数重新规划队列。
+            </p>
+          </div>
+          <div className="mt-4 grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                最多连续上场
+              </label>
+              <select
+                value={maxConsecutiveGames}
+                onChange={(e) => setMaxConsecutiveGames(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                <option value={0}>不限</option>
+                {Array.from({ length: MAX_CONSECUTIVE_GAMES_LIMIT }, (_, i) => i + 1).map(count => (
+                  <option key={count} value={count}>{count} 场</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                两场之间最少休息
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  max={minRestUnit === 'minutes' ? MAX_MIN_REST_MINUTES : MAX_MIN_REST_GAMES}
+                  value={minRest}
+                  onChange={(e) => setMinRest(Number(e.target.value))}
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                />
+                <select
+                  value={minRestUnit}
+                  onChange={(e) => setMinRestUnit(e.target.value as RestUnit)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="games">场</option>
+                  <option value="minutes">分钟</option>
+                </select>
+              </div>
+            </div>
+            <p className="text-sm text-gray-600 md:col-span-2">
+              休息的人不够时，等待队列会从场上的人中补充；设置后补充时遵守这两条规则（0 表示不限），
+              规则无法满足时队列少排几组，管理页面会显示"人手不足"提示。
+            </p>
+          </div>
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              公平性模式
+            </label>
+            <select
+              value={fairnessMode}
+              onChange={(e) => setFairnessMode(e.target.value as FairnessMode)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="games">按比赛场数</option>
+              <option value="time">按上场时长和等待时间</option>
+            </select>
+            <p className="text-sm text-gray-600 mt-2">
+              按时长模式下，累计上场时间少的优先上场，时间相近时等待最久的优先。
+            </p>
+          </div>
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              评分预设
+            </label>
+            <select
+              value={scoringPreset}
+              onChange={(e) => handleSelectPreset(e.target.value as ScoringPreset | 'custom')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              {SCORING_PRESET_IDS.map(id => (
+                <option key={id} value={id}>{SCORING_PRESETS[id].label}</option>
+              ))}
+              <option value="custom">自定义</option>
+            </select>
+            <p className="text-sm text-gray-600 mt-2">
+              {scoringPreset === 'custom'
+                ? '已手动调整评分系数'
+                : SCORING_PRESETS[scoringPreset].description}
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-3">
+              {(Object.keys(SCORING_COEFFICIENT_RANGES) as Array<keyof ScoringCoefficients>).map(key => (
+                <div key={key}>
+                  <label className="block text-xs text-gray-600 mb-1">
+                    {SCORING_COEFFICIENT_RANGES[key].label}
+                  </label>
+                  <input
+                    type="number"
+                    min={SCORING_COEFFICIENT_RANGES[key].min}
+                    max={SCORING_COEFFICIENT_RANGES[key].max}
+                    step="0.05"
+                    value={scoringCoefficients[key]}
+                    onChange={(e) => handleCoefficientChange(key, Number(e.target.value))}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end mt-4">
+            <button
+              onClick={handleSaveSettings}
+              disabled={savingSettings}
+              className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 disabled:opacity-50"
+            >
+              {savingSettings ? '保存中...' : '保存设置'}
+            </button>
+          </div>
+        </div>
+
         <div className="grid lg:grid-cols-2 gap-8">
           {/* 权重管理 */}
           <div className="bg-white rounded-xl shadow-lg p-6">
             <h2 className="text-2xl font-semibold text-gray-800 mb-6">权重管理</h2>
             <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
               <p className="text-sm text-blue-700">
-                💡 <strong>提示</strong>：可以为同一对参与者分别设置队友权重和对手权重，两种权重会同时生效。
+                💡 <strong>提示</strong>：可以为同一对参与者分别设置队友权重和对手权重，两种权重会同时生效。负数权重表示尽量避免该组合。
               </p>
             </div>
             
@@ -299,7 +695,9 @@ export default function SuperAdminPage() {
                               ? 'bg-green-100 text-green-800' 
                               : 'bg-red-100 text-red-800'
                           }`}>
-                            {weight.type === 'teammate' ? '队友偏好' : '对手偏好'}
+                            {weight.type === 'teammate'
+                              ? (weight.weight > 0 ? '队友偏好' : '避免搭档')
+                              : (weight.weight > 0 ? '对手偏好' : '避免对战')}
                           </span>
                           <span className="ml-2">权重: {weight.weight}/10</span>
                           <span className="ml-2 text-gray-400">
@@ -320,9 +718,9 @@ export default function SuperAdminPage() {
                       <div className="w-full bg-gray-200 rounded-full h-2">
                         <div 
                           className={`h-2 rounded-full ${
-                            weight.type === 'teammate' ? 'bg-green-500' : 'bg-red-500'
+                            weight.weight < 0 ? 'bg-gray-500' : weight.type === 'teammate' ? 'bg-green-500' : 'bg-red-500'
                           }`}
-                          style={{ width: `${weight.weight * 10}%` }}
+                          style={{ width: `${Math.abs(weight.weight) * 10}%` }}
                         ></div>
                       </div>
                     </div>
@@ -336,6 +734,92 @@ export default function SuperAdminPage() {
                 <div className="text-sm mt-1">点击"添加权重"开始设置参与者偏好</div>
               </div>
             )}
+
+            {/* 禁止组合规则 */}
+            <div className="mt-8 pt-6 border-t border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-800 mb-2">禁止组合规则</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                硬性规则，算法不会安排违反规则的比赛；仅当在场人数不足以避开时才会放宽。
+              </p>
+
+              {(session.exclusions || []).length > 0 ? (
+                <div className="space-y-2 mb-4">
+                  {(session.exclusions || []).map(exclusion => (
+                    <div key={exclusion.id} className="flex justify-between items-center border border-gray-200 rounded-lg p-3">
+                      <div>
+                        <div className="font-medium text-gray-800">
+                          {getParticipantName(exclusion.player1)} & {getParticipantName(exclusion.player2)}
+                        </div>
+                        <div className="text-sm text-gray-600 mt-1">
+                          <span className="px-2 py-1 rounded text-xs bg-gray-800 text-white">
+                            {exclusion.type === 'teammate' ? '禁止搭档' : exclusion.type === 'opponent' ? '禁止对战' : '禁止同场'}
+                          </span>
+                          {exclusion.reason && <span className="ml-2">{exclusion.reason}</span>}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleRemoveExclusion(exclusion.id)}
+                        className="text-red-600 hover:text-red-800 text-sm px-3 py-1 rounded hover:bg-red-50"
+                      >
+                        删除
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-sm text-gray-500 mb-4">暂无禁止组合规则</div>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={newExclusion.player1}
+                  onChange={(e) => setNewExclusion({ ...newExclusion, player1: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="">选择参与者</option>
+                  {session.participants.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={newExclusion.player2}
+                  onChange={(e) => setNewExclusion({ ...newExclusion, player2: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="">选择参与者</option>
+                  {session.participants
+                    .filter(p => p.id !== newExclusion.player1)
+                    .map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                </select>
+                <select
+                  value={newExclusion.type}
+                  onChange={(e) => setNewExclusion({ ...newExclusion, type: e.target.value as ExclusionType })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="teammate">禁止搭档</option>
+                  <option value="opponent">禁止对战</option>
+                  <option value="court">禁止同场</option>
+                </select>
+                <input
+                  type="text"
+                  value={newExclusion.reason}
+                  onChange={(e) => setNewExclusion({ ...newExclusion, reason: e.target.value })}
+                  placeholder="备注（可选）"
+                  maxLength={100}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                />
+              </div>
+              <div className="flex justify-end mt-2">
+                <button
+                  onClick={handleAddExclusion}
+                  className="bg-gray-800 text-white px-4 py-2 rounded-lg text-sm hover:bg-gray-900"
+                >
+                  添加规则
+                </button>
+              </div>
+            </div>
           </div>
 
           {/* 参与者列表 */}
@@ -358,6 +842,34 @@ export default function SuperAdminPage() {
                         <div className="font-medium text-gray-800">{participant.name}</div>
                         <div className="text-sm text-gray-600">
                           {participant.gamesPlayed} 场比赛 | 休息 {participant.restRounds} 轮
+                          {participant.rating !== undefined && ` | 评分 ${Math.round(participant.rating)}`}
+                        </div>
+                        <div className="flex items-center space-x-2 mt-1 text-sm text-gray-600">
+                          <span>技术水平</span>
+                          <select
+                            value={participant.skillLevel ?? ''}
+                            onChange={(e) => handleUpdateParticipant(participant.id, {
+                              skillLevel: e.target.value === '' ? null : Number(e.target.value)
+                            })}
+                            className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                          >
+                            <option value="">未录入</option>
+                            {[2.0, 2.5, 3.0, 3.5, 4.0, 4.5, 5.0].map(level => (
+                              <option key={level} value={level}>{level.toFixed(1)}</option>
+                            ))}
+                          </select>
+                          <span>性别</span>
+                          <select
+                            value={participant.category ?? ''}
+                            onChange={(e) => handleUpdateParticipant(participant.id, {
+                              category: e.target.value === '' ? null : e.target.value
+                            })}
+                            className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                          >
+                            <option value="">未设置</option>
+                            <option value="male">男</option>
+                            <option value="female">女</option>
+                          </select>
                         </div>
                         {/* 权重状态显示 */}
                         <div className="flex items-center space-x-2 mt-1">
@@ -446,8 +958,8 @@ export default function SuperAdminPage() {
                     onChange={(e) => setNewWeight({...newWeight, type: e.target.value as 'teammate' | 'opponent'})}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                   >
-                    <option value="teammate">队友偏好 (增加组队概率)</option>
-                    <option value="opponent">对手偏好 (增加对战概率)</option>
+                    <option value="teammate">队友 (正数增加、负数减少组队概率)</option>
+                    <option value="opponent">对手 (正数增加、负数减少对战概率)</option>
                   </select>
                 </div>
 
@@ -457,15 +969,15 @@ export default function SuperAdminPage() {
                   </label>
                   <input
                     type="range"
-                    min="1"
+                    min="-10"
                     max="10"
                     value={newWeight.weight}
                     onChange={(e) => setNewWeight({...newWeight, weight: Number(e.target.value)})}
                     className="w-full"
                   />
                   <div className="flex justify-between text-xs text-gray-500 mt-1">
-                    <span>低</span>
-                    <span>高</span>
+                    <span>尽量避免</span>
+                    <span>尽量安排</span>
                   </div>
                 </div>
               </div>
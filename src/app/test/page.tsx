@@ -3,12 +3,15 @@
 import { useState } from 'react'
 import { generateOptimalTeams, updatePlayerStats } from '@/lib/algorithm'
 import { Participant, Weight } from '@/lib/types'
+import { createRandom, generateSeed, isValidSeed } from '@/lib/random'
 
 export default function TestPage() {
   const [participants, setParticipants] = useState<Participant[]>([])
   const [courtCount, setCourtCount] = useState(3)
   const [weights, setWeights] = useState<Weight[]>([])
   const [result, setResult] = useState<any>(null)
+  const [seedInput, setSeedInput] = useState('')
+  const [lastSeed, setLastSeed] = useState<number | null>(null)
 
   // 创建测试参与者
   const createTestParticipants = () => {
@@ -34,6 +37,19 @@ export default function TestPage() {
     setParticipants(testParticipants)
   }
 
+  // 确定本次分配使用的种子：填写了种子时重放，否则随机生成
+  const resolveSeed = (): number | null => {
+    if (seedInput.trim() === '') {
+      return generateSeed()
+    }
+    const seed = Number(seedInput.trim())
+    if (!isValidSeed(seed)) {
+      alert('随机种子必须是 0 到 4294967295 之间的整数')
+      return null
+    }
+    return seed
+  }
+
   // 运行算法测试
   const runAlgorithmTest = () => {
     if (participants.length === 0) {
@@ -41,7 +57,11 @@ export default function TestPage() {
       return
     }
 
-    const assignment = generateOptimalTeams(participants, courtCount, weights)
+    const seed = resolveSeed()
+    if (seed === null) return
+
+    const assignment = generateOptimalTeams(participants, courtCount, weights, { random: createRandom(seed) })
+    setLastSeed(seed)
     setResult(assignment)
   }
 
@@ -68,7 +88,9 @@ export default function TestPage() {
     setParticipants(updatedParticipants)
     
     // 重新分配
-    const newAssignment = generateOptimalTeams(updatedParticipants, courtCount, weights)
+    const seed = generateSeed()
+    const newAssignment = generateOptimalTeams(updatedParticipants, courtCount, weights, { random: createRandom(seed) })
+    setLastSeed(seed)
     setResult(newAssignment)
   }
 
@@ -145,6 +167,20 @@ export default function TestPage() {
               className="w-full"
             />
           </div>
+
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              随机种子（留空则随机生成，填写后可重放相同分配）
+            </label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              placeholder="例如 123456789"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono"
+            />
+          </div>
         </div>
 
         {/* 参与者列表 */}
@@ -202,6 +238,17 @@ export default function TestPage() {
         {result && (
           <div className="bg-white rounded-lg shadow-md p-6">
             <h2 className="text-xl font-semibold mb-4">分配结果</h2>
+            {lastSeed !== null && (
+              <div className="text-sm text-gray-600 mb-4">
+                随机种子: <span className="font-mono">{lastSeed}</span>
+                <button
+                  onClick={() => setSeedInput(String(lastSeed))}
+                  className="ml-2 text-blue-600 hover:text-blue-800 underline"
+                >
+                  填入种子以重放
+                </button>
+              </div>
+            )}
             
             {/* 统计信息 */}
             <div className="grid grid-cols-3 gap-4 mb-6">
@@ -0,0 +1,143 @@
+'use client'
+
+import { useState } from 'react';
+import { CourtTier } from '@/lib/types';
+
+interface EditableCourtTierProps {
+  courtId: number;
+  tier?: CourtTier;
+  onUpdate: (courtId: number, tier: CourtTier | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * 场地级别显示文本，如 "3.0-3.5"、"4.0+"、"≤3.0"
+ */
+function formatTier(tier?: CourtTier): string {
+  if (!tier) return '不限水平';
+  const { minLevel, maxLevel } = tier;
+  if (minLevel !== undefined && maxLevel !== undefined) {
+    return `${minLevel.toFixed(1)}-${maxLevel.toFixed(1)}`;
+  }
+  if (minLevel !== undefined) return `${minLevel.toFixed(1)}+`;
+  if (maxLevel !== undefined) return `≤${maxLevel.toFixed(1)}`;
+  return '不限水平';
+}
+
+export default function EditableCourtTier({
+  courtId,
+  tier,
+  onUpdate,
+  disabled = false
+}: EditableCourtTierProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [minValue, setMinValue] = useState('');
+  const [maxValue, setMaxValue] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const handleStartEdit = () => {
+    if (disabled) return;
+    setIsEditing(true);
+    setMinValue(tier?.minLevel?.toString() ?? '');
+    setMaxValue(tier?.maxLevel?.toString() ?? '');
+  };
+
+  const handleCancel = () => {
+    setIsEditing(false);
+  };
+
+  const handleSave = async () => {
+    const minLevel = minValue.trim() === '' ? undefined : Number(minValue);
+    const maxLevel = maxValue.trim() === '' ? undefined : Number(maxValue);
+
+    if ((minLevel !== undefined && isNaN(minLevel)) || (maxLevel !== undefined && isNaN(maxLevel))) {
+      alert('水平必须是数字');
+      return;
+    }
+
+    if (minLevel !== undefined && maxLevel !== undefined && minLevel > maxLevel) {
+      alert('最低水平不能高于最高水平');
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      // 两端都不填时清除级别
+      await onUpdate(courtId, minLevel === undefined && maxLevel === undefined ? null : { minLevel, maxLevel });
+      setIsEditing(false);
+    } catch (error) {
+      // 错误处理由父组件完成
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSave();
+    } else if (e.key === 'Escape') {
+      handleCancel();
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center space-x-1">
+        <input
+          type="number"
+          step="0.5"
+          min="1"
+          max="6"
+          value={minValue}
+          onChange={(e) => setMinValue(e.target.value)}
+          onKeyDown={handleKeyPress}
+          className="w-14 bg-white border border-gray-300 rounded px-1 py-0.5 text-xs text-center focus:outline-none focus:ring-2 focus:ring-pickleball-500 focus:border-transparent"
+          placeholder="最低"
+          autoFocus
+          disabled={isUpdating}
+        />
+        <span className="text-xs text-gray-500">-</span>
+        <input
+          type="number"
+          step="0.5"
+          min="1"
+          max="6"
+          value={maxValue}
+          onChange={(e) => setMaxValue(e.target.value)}
+          onKeyDown={handleKeyPress}
+          className="w-14 bg-white border border-gray-300 rounded px-1 py-0.5 text-xs text-center focus:outline-none focus:ring-2 focus:ring-pickleball-500 focus:border-transparent"
+          placeholder="最高"
+          disabled={isUpdating}
+        />
+        <button
+          onClick={handleSave}
+          disabled={isUpdating}
+          className="text-green-600 hover:text-green-800 text-sm px-1 disabled:opacity-50"
+          title="保存"
+        >
+          {isUpdating ? '⏳' : '✓'}
+        </button>
+        <button
+          onClick={handleCancel}
+          disabled={isUpdating}
+          className="text-red-600 hover:text-red-800 text-sm px-1 disabled:opacity-50"
+          title="取消"
+        >
+          ✕
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <span
+      className={`text-xs px-2 py-0.5 rounded-full ${
+        tier ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-500'
+      } ${disabled ? '' : 'cursor-pointer hover:ring-1 hover:ring-pickleball-500'}`}
+      onClick={handleStartEdit}
+      title={disabled ? '' : '点击设置场地级别（只安排水平在范围内的选手，不足时用水平最接近的选手补足）'}
+    >
+      {formatTier(tier)}
+    </span>
+  );
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { GameSession } from '@/lib/types';
+import { calculateStandings, isPointsTournamentFinished } from '@/lib/points-tournament';
+
+interface PointsStandingsProps {
+  session: GameSession;
+  className?: string;
+}
+
+export default function PointsStandings({ session, className = '' }: PointsStandingsProps) {
+  const standings = calculateStandings(session);
+  const finished = isPointsTournamentFinished(session);
+  const formatName = session.settings.format === 'mexicano' ? 'Mexicano' : 'Americano';
+
+  const getParticipantName = (playerId: string) => {
+    return session.participants.find(p => p.id === playerId)?.name || '未知';
+  };
+
+  const hasLeft = (playerId: string) => {
+    return !!session.participants.find(p => p.id === playerId)?.hasLeft;
+  };
+
+  const rankBadge = (rank: number) => {
+    if (!finished) return rank;
+    return rank === 1 ? '🥇' : rank === 2 ? '🥈' : rank === 3 ? '🥉' : rank;
+  };
+
+  return (
+    <div className={`bg-white rounded-xl shadow-lg p-6 ${className}`}>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h2 className="text-2xl font-semibold text-gray-800">
+          {finished ? '最终排名' : '积分榜'}
+        </h2>
+        <span className="text-sm text-gray-600">
+          {formatName}
+          {session.settings.pointsPerMatch ? ` • 每场 ${session.settings.pointsPerMatch} 分` : ''}
+        </span>
+      </div>
+
+      {standings.length === 0 ? (
+        <div className="text-gray-500 text-center py-8">
+          暂无积分
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-600">
+                <th className="py-2 pr-2 text-left font-medium">名次</th>
+                <th className="py-2 pr-2 text-left font-medium">选手</th>
+                <th className="py-2 px-2 text-right font-medium">积分</th>
+                <th className="py-2 px-2 text-right font-medium">失分</th>
+                <th className="py-2 px-2 text-right font-medium">净胜分</th>
+                <th className="py-2 px-2 text-right font-medium">胜/平/负</th>
+                <th className="py-2 px-2 text-right font-medium">场次</th>
+                <th className="py-2 pl-2 text-right font-medium">轮空</th>
+              </tr>
+            </thead>
+            <tbody>
+              {standings.map(row => {
+                const differential = row.points - row.pointsAgainst;
+                return (
+                  <tr
+                    key={row.playerId}
+                    className={`border-b border-gray-100 ${hasLeft(row.playerId) ? 'text-gray-400' : 'text-gray-800'}`}
+                  >
+                    <td className="py-2 pr-2">{rankBadge(row.rank)}</td>
+                    <td className="py-2 pr-2 font-medium">
+                      {getParticipantName(row.playerId)}
+                      {hasLeft(row.playerId) && <span className="ml-1 text-xs">（已离开）</span>}
+                    </td>
+                    <td className="py-2 px-2 text-right font-semibold">{row.points}</td>
+                    <td className="py-2 px-2 text-right">{row.pointsAgainst}</td>
+                    <td className={`py-2 px-2 text-right ${differential > 0 ? 'text-green-600' : differential < 0 ? 'text-red-600' : ''}`}>
+                      {differential > 0 ? `+${differential}` : differential}
+                    </td>
+                    <td className="py-2 px-2 text-right">{row.wins}/{row.draws}/{row.losses}</td>
+                    <td className="py-2 px-2 text-right">{row.gamesPlayed}</td>
+                    <td className="py-2 pl-2 text-right">{row.sitOuts}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
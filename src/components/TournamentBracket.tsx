@@ -0,0 +1,255 @@
+'use client'
+
+import { GameSession, TournamentBracket as BracketName, TournamentMatch } from '@/lib/types';
+import { getPoolStandings, getSwissStandings } from '@/lib/tournament';
+
+interface TournamentBracketProps {
+  session: GameSession;
+  className?: string;
+}
+
+export default function TournamentBracket({ session, className = '' }: TournamentBracketProps) {
+  const tournament = session.tournament;
+  if (!tournament) return null;
+
+  const getTeamName = (teamId?: string | null) => {
+    if (teamId === null) return '轮空';
+    if (teamId === undefined) return '待定';
+    return tournament.teams.find(team => team.id === teamId)?.name || '未知';
+  };
+
+  const getCourtName = (courtId?: number) => {
+    const court = session.courts.find(c => c.id === courtId);
+    return court?.name || `场地 ${courtId}`;
+  };
+
+  const stageLabel = {
+    pools: '小组赛',
+    bracket: tournament.bracketType === 'double' ? '双败淘汰赛' : '单败淘汰赛',
+    swiss: `瑞士制 共 ${tournament.swissRounds} 轮`,
+    finished: '已结束'
+  }[tournament.stage];
+
+  const bracketMatches = (bracket: BracketName) => tournament.matches
+    .filter(match => match.bracket === bracket)
+    // 双方都轮空的比赛不显示
+    .filter(match => !(match.team1Id === null && match.team2Id === null));
+
+  const groupByRound = (matches: TournamentMatch[]) => {
+    const rounds = new Map<number, TournamentMatch[]>();
+    for (const match of matches) {
+      rounds.set(match.round, [...(rounds.get(match.round) || []), match]);
+    }
+    return Array.from(rounds.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([round, list]) => ({ round, matches: list.sort((a, b) => a.position - b.position) }));
+  };
+
+  const winnersRoundLabel = (round: number, roundCount: number) => {
+    if (tournament.bracketType === 'single') {
+      if (round === roundCount) return '决赛';
+      if (round === roundCount - 1) return '半决赛';
+    } else if (round === roundCount) {
+      return '胜者组决赛';
+    }
+    return `第 ${round} 轮`;
+  };
+
+  const renderMatch = (match: TournamentMatch) => {
+    const isBye = match.status === 'finished' && !match.score;
+    const teamRow = (teamId: string | null | undefined, points?: number) => (
+      <div className={`flex justify-between gap-2 ${
+        match.winnerId && match.winnerId === teamId ? 'font-semibold text-gray-900' : 'text-gray-600'
+      }`}>
+        <span className="truncate">{getTeamName(teamId)}</span>
+        {points !== undefined && <span>{points}</span>}
+      </div>
+    );
+
+    return (
+      <div
+        key={match.id}
+        className={`rounded-lg border p-2 text-sm min-w-[10rem] ${
+          match.status === 'playing' ? 'border-green-400 bg-green-50' : 'border-gray-200 bg-white'
+        }`}
+      >
+        {teamRow(match.team1Id, match.score?.team1)}
+        {teamRow(match.team2Id, match.score?.team2)}
+        {match.status === 'playing' && (
+          <div className="text-xs text-green-700 mt-1">进行中 • {getCourtName(match.courtId)}</div>
+        )}
+        {isBye && <div className="text-xs text-gray-400 mt-1">轮空晋级</div>}
+      </div>
+    );
+  };
+
+  const renderRounds = (title: string, matches: TournamentMatch[], label: (round: number, count: number) => string) => {
+    const rounds = groupByRound(matches);
+    if (rounds.length === 0) return null;
+
+    return (
+      <div className="mb-6">
+        <h3 className="font-medium text-gray-800 mb-3">{title}</h3>
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          {rounds.map(({ round, matches: roundMatches }) => (
+            <div key={round} className="flex flex-col justify-around gap-3">
+              <div className="text-xs text-gray-500 text-center">{label(round, rounds[rounds.length - 1].round)}</div>
+              {roundMatches.map(renderMatch)}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const champion = tournament.teams.find(team => team.id === tournament.championId);
+
+  return (
+    <div className={`bg-white rounded-xl shadow-lg p-6 ${className}`}>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h2 className="text-2xl font-semibold text-gray-800">锦标赛</h2>
+        <span className="text-sm text-gray-600">
+          {tournament.teams.length} 支队伍 • {stageLabel}
+        </span>
+      </div>
+
+      {champion && (
+        <div className="mb-6 rounded-lg bg-yellow-50 border border-yellow-300 p-4 text-center">
+          <div className="text-sm text-yellow-700">冠军</div>
+          <div className="text-xl font-semibold text-yellow-900">🏆 {champion.name}</div>
+        </div>
+      )}
+
+      {tournament.pools.length > 0 && (
+        <div className="mb-6">
+          <h3 className="font-medium text-gray-800 mb-3">
+            小组赛
+            <span className="ml-2 text-sm font-normal text-gray-500">每组前 {tournament.advancePerPool} 名晋级</span>
+          </h3>
+          <div className="grid md:grid-cols-2 gap-4">
+            {tournament.pools.map(pool => (
+              <div key={pool.id} className="border border-gray-200 rounded-lg p-3">
+                <div className="font-medium text-gray-800 mb-2">{pool.name}</div>
+                <table className="w-full text-sm mb-3">
+                  <thead>
+                    <tr className="text-gray-500 border-b border-gray-100">
+                      <th className="py-1 text-left font-medium">名次</th>
+                      <th className="py-1 text-left font-medium">队伍</th>
+                      <th className="py-1 text-right font-medium">胜/负</th>
+                      <th className="py-1 text-right font-medium">净胜分</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {getPoolStandings(tournament, pool).map(row => {
+                      const differential = row.pointsFor - row.pointsAgainst;
+                      return (
+                        <tr
+                          key={row.teamId}
+                          className={row.rank <= tournament.advancePerPool && tournament.stage !== 'pools' ? 'text-green-700' : 'text-gray-800'}
+                        >
+                          <td className="py-1">{row.rank}</td>
+                          <td className="py-1">{getTeamName(row.teamId)}</td>
+                          <td className="py-1 text-right">{row.wins}/{row.losses}</td>
+                          <td className="py-1 text-right">{differential > 0 ? `+${differential}` : differential}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <div className="space-y-1 text-xs text-gray-600">
+                  {tournament.matches
+                    .filter(match => match.poolId === pool.id)
+                    .map(match => (
+                      <div key={match.id} className="flex justify-between gap-2">
+                        <span className="truncate">
+                          {getTeamName(match.team1Id)} vs {getTeamName(match.team2Id)}
+                        </span>
+                        <span className={match.status === 'playing' ? 'text-green-700' : ''}>
+                          {match.score
+                            ? `${match.score.team1}:${match.score.team2}`
+                            : match.status === 'playing' ? getCourtName(match.courtId) : '未开始'}
+                        </span>
+                      </div>
+                    ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {tournament.swissRounds !== undefined && (
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <h3 className="font-medium text-gray-800 mb-3">{tournament.stage === 'finished' ? '最终排名' : '积分榜'}</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-200">
+                  <th className="py-1 text-left font-medium">名次</th>
+                  <th className="py-1 text-left font-medium">队伍</th>
+                  <th className="py-1 text-right font-medium">胜/负</th>
+                  <th className="py-1 text-right font-medium" title="所有对手的胜场之和">Buchholz</th>
+                  <th className="py-1 text-right font-medium">净胜分</th>
+                </tr>
+              </thead>
+              <tbody>
+                {getSwissStandings(tournament).map(row => {
+                  const differential = row.pointsFor - row.pointsAgainst;
+                  return (
+                    <tr key={row.teamId} className="border-b border-gray-100 text-gray-800">
+                      <td className="py-1">{row.rank}</td>
+                      <td className="py-1">{getTeamName(row.teamId)}</td>
+                      <td className="py-1 text-right">{row.wins}/{row.losses}</td>
+                      <td className="py-1 text-right">{row.buchholz}</td>
+                      <td className="py-1 text-right">{differential > 0 ? `+${differential}` : differential}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="space-y-3">
+            {groupByRound(bracketMatches('swiss')).map(({ round, matches }) => (
+              <div key={round}>
+                <div className="text-sm font-medium text-gray-700 mb-1">第 {round} 轮</div>
+                <div className="space-y-1 text-xs text-gray-600">
+                  {matches.map(match => (
+                    <div key={match.id} className="flex justify-between gap-2">
+                      <span className="truncate">
+                        {match.team2Id === null
+                          ? `${getTeamName(match.team1Id)} 轮空`
+                          : `${getTeamName(match.team1Id)} vs ${getTeamName(match.team2Id)}`}
+                      </span>
+                      <span className={match.status === 'playing' ? 'text-green-700' : ''}>
+                        {match.score
+                          ? `${match.score.team1}:${match.score.team2}`
+                          : match.status === 'playing' ? getCourtName(match.courtId)
+                          : match.status === 'finished' ? '记1胜' : '未开始'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {tournament.swissRounds !== undefined ? null : tournament.stage === 'pools' ? (
+        <p className="text-sm text-gray-500">小组赛全部结束后按小组成绩生成淘汰赛对阵表</p>
+      ) : (
+        <>
+          {renderRounds(
+            tournament.bracketType === 'double' ? '胜者组' : '淘汰赛',
+            bracketMatches('winners'),
+            winnersRoundLabel
+          )}
+          {renderRounds('败者组', bracketMatches('losers'), (round, count) =>
+            round === count ? '败者组决赛' : `第 ${round} 轮`)}
+          {renderRounds('总决赛', bracketMatches('final'), round =>
+            round === 1 ? '总决赛' : '加赛')}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+/**
+ * 组队算法测试：固定种子下的等待队列规划与多场地搜索
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  generateOptimalTeams,
+  calculateTeamScore,
+  getMatchPlayerIds,
+  validateAssignment,
+  violatesExclusions,
+  regenerateQueueWithSupplement,
+  GLOBAL_SEARCH_TIME_BUDGET_MS
+} from '../algorithm';
+import { createRandom } from '../random';
+import { resolveScoringCoefficients } from '../scoring-presets';
+import { GameMatch, Participant, ParticipantCategory, PairExclusion, ScoringOptions } from '../types';
+import { createCourt, createSession } from './helpers';
+
+// 去掉随机因子，使评分只由球局状态决定
+const DETERMINISTIC_COEFFICIENTS = resolveScoringCoefficients({ randomness: 0 });
+
+function createParticipant(
+  id: string,
+  overrides: Partial<Participant> = {},
+  category?: ParticipantCategory
+): Participant {
+  return {
+    id,
+    name: id,
+    gamesPlayed: 0,
+    restRounds: 0,
+    teammates: {},
+    opponents: {},
+    status: 'resting',
+    joinedAt: new Date(0),
+    hasLeft: false,
+    category,
+    ...overrides
+  };
+}
+
+function courtExclusion(player1: string, player2: string): PairExclusion {
+  return { id: `${player1}-${player2}`, player1, player2, type: 'court', createdAt: new Date(0) };
+}
+
+function seededOptions(seed: number, options: ScoringOptions = {}): ScoringOptions {
+  return { coefficients: DETERMINISTIC_COEFFICIENTS, random: createRandom(seed), ...options };
+}
+
+function courtMatches(courts: ReturnType<typeof generateOptimalTeams>['courts']): GameMatch[] {
+  return courts
+    .filter(court => court.team1 && court.team2)
+    .map(court => ({ team1: court.team1!, team2: court.team2! }));
+}
+
+test('相同种子规划出相同的多组等待队列，且没有人重复', () => {
+  const participants = Array.from({ length: 14 }, (_, i) =>
+    createParticipant(`P${i}`, { gamesPlayed: i % 3, restRounds: i % 4 })
+  );
+  const options = { queueDepth: 3 };
+
+  const first = generateOptimalTeams(participants, 2, [], seededOptions(42, options));
+  const second = generateOptimalTeams(participants, 2, [], seededOptions(42, options));
+
+  assert.deepEqual(second.queue, first.queue);
+  assert.equal(first.queue.length, 3);
+  // 队列可以从场上的人中补充，因此只检查队列内部
+  assert.ok(validateAssignment({ ...first, courts: [] }).isValid);
+});
+
+test('队列只有一组时按禁止组合和混双规则选人', () => {
+  // 场上4人优先级最高；剩下的人按 M1、M2、M3、F1、M4、F2 的顺序排队，M1 与 F1 不能同场
+  const participants = [
+    createParticipant('A', { restRounds: 10 }, 'male'),
+    createParticipant('B', { restRounds: 9 }, 'male'),
+    createParticipant('C', { restRounds: 8 }, 'female'),
+    createParticipant('D', { restRounds: 7 }, 'female'),
+    createParticipant('M1', { gamesPlayed: 1, restRounds: 6 }, 'male'),
+    createParticipant('M2', { gamesPlayed: 1, restRounds: 5 }, 'male'),
+    createParticipant('M3', { gamesPlayed: 1, restRounds: 4 }, 'male'),
+    createParticipant('F1', { gamesPlayed: 1, restRounds: 3 }, 'female'),
+    createParticipant('M4', { gamesPlayed: 1, restRounds: 2 }, 'male'),
+    createParticipant('F2', { gamesPlayed: 1, restRounds: 1 }, 'female')
+  ];
+  const exclusions = [courtExclusion('M1', 'F1')];
+
+  for (let seed = 1; seed <= 20; seed++) {
+    const result = generateOptimalTeams(participants, 1, [], seededOptions(seed, {
+      queueDepth: 1,
+      pairingMode: 'mixed',
+      exclusions
+    }));
+
+    assert.equal(result.queue.length, 1);
+    const [match] = result.queue;
+    assert.deepEqual(getMatchPlayerIds(match).sort(), ['F1', 'F2', 'M2', 'M3']);
+    assert.ok(!violatesExclusions(match, exclusions));
+    assert.equal(result.ruleWarning, undefined);
+  }
+});
+
+test('人员足够时上场的人不违反禁止同场规则', () => {
+  const participants = ['A', 'B', 'C', 'D', 'E'].map(id => createParticipant(id));
+  const exclusions = [courtExclusion('A', 'B')];
+
+  for (let seed = 1; seed <= 20; seed++) {
+    const result = generateOptimalTeams(participants, 1, [], seededOptions(seed, { exclusions }));
+    for (const match of [...courtMatches(result.courts), ...result.queue]) {
+      assert.ok(!violatesExclusions(match, exclusions));
+    }
+    assert.equal(result.ruleWarning, undefined);
+  }
+});
+
+test('无法满足禁止组合规则时放宽规则并提示管理员', () => {
+  const participants = ['A', 'B', 'C', 'D'].map(id => createParticipant(id));
+  const result = generateOptimalTeams(participants, 1, [], seededOptions(1, {
+    exclusions: [courtExclusion('A', 'B')]
+  }));
+
+  assert.equal(courtMatches(result.courts).length, 1);
+  assert.ok(result.ruleWarning);
+});
+
+test('最后一个名额不会拆开固定搭档', () => {
+  const participants = [
+    createParticipant('A', { gamesPlayed: 1 }),
+    createParticipant('B', { gamesPlayed: 1 }),
+    createParticipant('C'),
+    createParticipant('D'),
+    createParticipant('E')
+  ];
+  const lockedPairs = [{ id: 'AB', player1: 'A', player2: 'B', createdAt: new Date(0) }];
+
+  for (let seed = 1; seed <= 20; seed++) {
+    const result = generateOptimalTeams(participants, 1, [], seededOptions(seed, { lockedPairs }));
+    const [match] = courtMatches(result.courts);
+    const teams = [match.team1, match.team2].map(team => [team.player1, team.player2].sort().join());
+    assert.ok(teams.includes('A,B'));
+  }
+});
+
+test('3个场地的搜索结果不差于按优先级顺序分组', () => {
+  // 优先级顺序为 P0..P11；按顺序分组时每组都是反复搭档、对战过的人
+  const participants = Array.from({ length: 12 }, (_, i) => createParticipant(`P${i}`, { restRounds: 12 - i }));
+  for (let group = 0; group < 3; group++) {
+    const members = participants.slice(group * 4, group * 4 + 4);
+    for (const player of members) {
+      for (const other of members) {
+        if (other === player) continue;
+        player.teammates[other.id] = 3;
+        player.opponents[other.id] = 3;
+      }
+    }
+  }
+
+  const options = seededOptions(7);
+  const score = (match: GameMatch) => calculateTeamScore(match.team1, match.team2, [], participants, options);
+  const bestPairingScore = (ids: string[]) => Math.max(
+    score({ team1: { player1: ids[0], player2: ids[1] }, team2: { player1: ids[2], player2: ids[3] } }),
+    score({ team1: { player1: ids[0], player2: ids[2] }, team2: { player1: ids[1], player2: ids[3] } }),
+    score({ team1: { player1: ids[0], player2: ids[3] }, team2: { player1: ids[1], player2: ids[2] } })
+  );
+  const sequentialScore = [0, 1, 2].reduce(
+    (sum, group) => sum + bestPairingScore(participants.slice(group * 4, group * 4 + 4).map(p => p.id)),
+    0
+  );
+
+  const result = generateOptimalTeams(participants, 3, [], options);
+  const matches = courtMatches(result.courts);
+  const searchedScore = matches.reduce((sum, match) => sum + score(match), 0);
+
+  assert.equal(matches.length, 3);
+  assert.equal(new Set(matches.flatMap(getMatchPlayerIds)).size, 12);
+  assert.ok(searchedScore >= sequentialScore);
+});
+
+test('大场馆（6个场地、32人）的多场地搜索在时间预算内完成', () => {
+  const participants = Array.from({ length: 32 }, (_, i) =>
+    createParticipant(`P${i}`, { gamesPlayed: i % 4, restRounds: i % 3, skillLevel: 3 + (i % 5) * 0.5 })
+  );
+
+  const startTime = Date.now();
+  const result = generateOptimalTeams(participants, 6, [], seededOptions(11, { queueDepth: 2 }));
+  const elapsed = Date.now() - startTime;
+
+  assert.equal(courtMatches(result.courts).length, 6);
+  // 搜索本身受时间预算限制，其余的选人与评分只占很少时间
+  assert.ok(elapsed < GLOBAL_SEARCH_TIME_BUDGET_MS * 2, `耗时 ${elapsed}ms`);
+});
+
+test('连续上场达到上限的人不会排进下一组', () => {
+  const participants = [
+    createParticipant('A', { gamesPlayed: 2, consecutiveGames: 1 }),
+    createParticipant('B', { gamesPlayed: 2, consecutiveGames: 1 }),
+    createParticipant('C', { gamesPlayed: 1 }),
+    createParticipant('D', { gamesPlayed: 1 }),
+    createParticipant('E', { gamesPlayed: 1, restRounds: 1 }),
+    createParticipant('F', { gamesPlayed: 1, restRounds: 1 })
+  ];
+  const session = createSession(participants, [createCourt(1, ['A', 'B', 'C', 'D'])], {
+    queueDepth: 1,
+    maxConsecutiveGames: 2
+  });
+
+  regenerateQueueWithSupplement(session);
+
+  assert.equal(session.queue.length, 1);
+  assert.deepEqual(getMatchPlayerIds(session.queue[0]).sort(), ['C', 'D', 'E', 'F']);
+});
+
+test('场上的人休息不够时不补进队列，并提示人手不足', () => {
+  // 休息中的人已休息1场，下一场结束后就够了；场上的人至少要等两场
+  const participants = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'].map(id =>
+    createParticipant(id, { gamesPlayed: 1, restRounds: 1 })
+  );
+  const session = createSession(participants, [createCourt(1, ['A', 'B', 'C', 'D'])], {
+    queueDepth: 2,
+    minRest: 2
+  });
+
+  regenerateQueueWithSupplement(session);
+
+  assert.equal(session.queue.length, 1);
+  assert.deepEqual(getMatchPlayerIds(session.queue[0]).sort(), ['E', 'F', 'G', 'H']);
+  assert.match(session.queueWarning ?? '', /人手不足.*至少休息 2 场/);
+});
+
+test('按分钟计的最少休息根据已等待的时间判断', () => {
+  const participants = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'].map(id =>
+    createParticipant(id, { gamesPlayed: 1 })
+  );
+  const session = createSession(participants, [createCourt(1, ['A', 'B', 'C', 'D'])], {
+    queueDepth: 1,
+    minRest: 30,
+    minRestUnit: 'minutes'
+  });
+  const waitingFor = (minutes: number) => {
+    for (const participant of session.participants.filter(p => p.status === 'resting')) {
+      participant.waitingSince = new Date(Date.now() - minutes * 60000);
+    }
+  };
+
+  waitingFor(5);
+  regenerateQueueWithSupplement(session);
+  assert.equal(session.queue.length, 0);
+  assert.ok(session.queueWarning);
+
+  waitingFor(20);
+  regenerateQueueWithSupplement(session);
+  assert.equal(session.queue.length, 1);
+  assert.equal(session.queueWarning, undefined);
+});
+
+test('场上没有比赛时临时放宽休息规则，避免场地一直空着', () => {
+  const participants = ['A', 'B', 'C', 'D'].map(id => createParticipant(id, { gamesPlayed: 1 }));
+  const session = createSession(participants, [createCourt(1)], { queueDepth: 1, minRest: 3 });
+
+  regenerateQueueWithSupplement(session);
+
+  assert.equal(session.queue.length, 1);
+  assert.match(session.queueWarning ?? '', /临时放宽规则/);
+});
@@ -0,0 +1,181 @@
+/**
+ * 参与者离开与返回、比赛中换人与移除参与者测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  finishCourtEarly,
+  isPlayerQueued,
+  markParticipantLeft,
+  markParticipantReturned,
+  pickSubstitute,
+  removeParticipant,
+  validateSubstitute,
+  substituteOnCourt
+} from '../attendance';
+import { autoMaintainQueue } from '../queue-maintenance';
+import { createTournament } from '../tournament';
+import { createCourt, createParticipant, createSession } from './helpers';
+
+function createPlayers(ids: string[]) {
+  return ids.map(id => createParticipant(id));
+}
+
+test('排队的人离开后重新规划队列，队列中不再有他', () => {
+  const session = createSession(
+    createPlayers(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'L']),
+    [createCourt(1, ['A', 'B', 'C', 'D'])],
+    { queueDepth: 2 }
+  );
+  autoMaintainQueue(session);
+  assert.ok(isPlayerQueued(session, 'E'));
+
+  const leaving = session.participants.find(p => p.id === 'E')!;
+  const leftAt = new Date(60000);
+  markParticipantLeft(leaving, '有事先走', leftAt);
+  autoMaintainQueue(session);
+
+  assert.equal(leaving.hasLeft, true);
+  assert.equal(leaving.leftReason, '有事先走');
+  assert.equal(leaving.leftAt, leftAt);
+  assert.equal(isPlayerQueued(session, 'E'), false);
+  assert.equal(session.queue.length, 2);
+});
+
+test('场上的人离开时提前结束比赛，计入场数并由队首的组上场', () => {
+  const session = createSession(
+    createPlayers(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']),
+    [createCourt(1, ['A', 'B', 'C', 'D'])],
+    { queueDepth: 1 }
+  );
+  autoMaintainQueue(session);
+  const court = session.courts[0];
+
+  markParticipantLeft(session.participants.find(p => p.id === 'A')!);
+  finishCourtEarly(session, court);
+
+  assert.equal(session.stats.totalGamesPlayed, 1);
+  assert.equal(session.results?.[0].winner, undefined);
+  assert.equal(session.participants.find(p => p.id === 'B')!.gamesPlayed, 1);
+  assert.deepEqual(
+    [court.team1!.player1, court.team1!.player2, court.team2!.player1, court.team2!.player2].sort(),
+    ['E', 'F', 'G', 'H']
+  );
+});
+
+test('返回的人重新作为休息中的候选人排队', () => {
+  const session = createSession(
+    createPlayers(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']),
+    [createCourt(1, ['A', 'B', 'C', 'D'])],
+    { queueDepth: 1 }
+  );
+  const returning = session.participants.find(p => p.id === 'E')!;
+  markParticipantLeft(returning);
+  autoMaintainQueue(session);
+  assert.equal(isPlayerQueued(session, 'E'), false);
+
+  markParticipantReturned(returning);
+  assert.equal(returning.hasLeft, false);
+  assert.equal(returning.leftAt, undefined);
+  assert.equal(returning.status, 'resting');
+
+  autoMaintainQueue(session);
+  assert.ok(isPlayerQueued(session, 'E'));
+});
+
+test('自由轮换中按优先级挑选休息中的替补，并接替场上的位置', () => {
+  const session = createSession(
+    createPlayers(['A', 'B', 'C', 'D', 'E', 'F']),
+    [createCourt(1, ['A', 'B', 'C', 'D'])]
+  );
+  session.participants.find(p => p.id === 'F')!.gamesPlayed = 2;
+
+  const court = session.courts[0];
+  const substitute = pickSubstitute(session, court, 'A');
+  assert.equal(substitute?.id, 'E');
+
+  substituteOnCourt(session, court, 'A', substitute!);
+  assert.equal(court.team1?.player1, 'E');
+  assert.equal(session.participants.find(p => p.id === 'E')!.status, 'playing');
+  assert.equal(session.participants.find(p => p.id === 'A')!.status, 'resting');
+});
+
+test('替补不能与自己的固定搭档分开', () => {
+  const session = createSession(
+    createPlayers(['A', 'B', 'C', 'D', 'E', 'F', 'G']),
+    [createCourt(1, ['A', 'B', 'C', 'D'])]
+  );
+  session.lockedPairs = [{ id: 'EF', player1: 'E', player2: 'F', createdAt: new Date(0) }];
+
+  const court = session.courts[0];
+  assert.equal(pickSubstitute(session, court, 'A')?.id, 'G');
+  assert.match(validateSubstitute(session, court, 'A', 'E') ?? '', /固定搭档/);
+});
+
+test('锦标赛只能换上没有报名队伍的人', () => {
+  const session = createSession(
+    createPlayers(['A', 'B', 'C', 'D', 'E', 'F', 'G']),
+    [createCourt(1, ['A', 'B', 'C', 'D'])],
+    { format: 'tournament' }
+  );
+  session.tournament = createTournament([
+    { name: 'AB', player1: 'A', player2: 'B' },
+    { name: 'CD', player1: 'C', player2: 'D' },
+    { name: 'EF', player1: 'E', player2: 'F' }
+  ], 0, 0, 'single');
+
+  const court = session.courts[0];
+  assert.equal(pickSubstitute(session, court, 'A')?.id, 'G');
+  assert.match(validateSubstitute(session, court, 'A', 'E') ?? '', /锦标赛队伍/);
+  assert.equal(validateSubstitute(session, court, 'A', 'G'), undefined);
+});
+
+test('预排赛程和积分赛不支持换人', () => {
+  for (const format of ['schedule', 'americano', 'mexicano'] as const) {
+    const session = createSession(
+      createPlayers(['A', 'B', 'C', 'D', 'E']),
+      [createCourt(1, ['A', 'B', 'C', 'D'])],
+      { format }
+    );
+
+    const court = session.courts[0];
+    assert.equal(pickSubstitute(session, court, 'A'), undefined);
+    assert.ok(validateSubstitute(session, court, 'A', 'E'));
+  }
+});
+
+test('移除场上的人时由替补接替，并清理权重、禁止组合和固定搭档', () => {
+  const session = createSession(
+    createPlayers(['A', 'B', 'C', 'D', 'E']),
+    [createCourt(1, ['A', 'B', 'C', 'D'])]
+  );
+  session.weights = [{ id: 'w', player1: 'A', player2: 'C', weight: 5, type: 'teammate', createdAt: new Date(0) }];
+  session.exclusions = [{ id: 'x', player1: 'A', player2: 'D', type: 'court', createdAt: new Date(0) }];
+  session.lockedPairs = [{ id: 'l', player1: 'A', player2: 'B', createdAt: new Date(0) }];
+  session.participants.find(p => p.id === 'B')!.teammates = { A: 2 };
+
+  const notes = removeParticipant(session, 'A', true);
+
+  assert.match(notes[0], /E 替补上场/);
+  assert.equal(session.courts[0].team1?.player1, 'E');
+  assert.equal(session.participants.some(p => p.id === 'A'), false);
+  assert.deepEqual(session.weights, []);
+  assert.deepEqual(session.exclusions, []);
+  assert.deepEqual(session.lockedPairs, []);
+  assert.deepEqual(session.participants.find(p => p.id === 'B')!.teammates, {});
+});
+
+test('移除场上的人且没有替补时取消这场比赛，不计场数', () => {
+  const session = createSession(
+    createPlayers(['A', 'B', 'C', 'D']),
+    [createCourt(1, ['A', 'B', 'C', 'D'])]
+  );
+
+  const notes = removeParticipant(session, 'A');
+
+  assert.match(notes[0], /比赛已取消/);
+  assert.equal(session.courts[0].status, 'empty');
+  assert.equal(session.stats.totalGamesPlayed, 0);
+  assert.ok(session.participants.every(p => p.status === 'resting' && p.gamesPlayed === 0));
+});
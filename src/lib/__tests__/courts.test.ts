@@ -0,0 +1,53 @@
+/**
+ * 球局进行中增减场地测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addCourt, removeCourt, retireIfDraining } from '../courts';
+import { autoMaintainQueue } from '../queue-maintenance';
+import { createCourt, createParticipant, createSession } from './helpers';
+
+function createRotationSession(playerCount: number) {
+  const participants = Array.from({ length: playerCount }, (_, i) => createParticipant(`P${i}`));
+  const session = createSession(participants, [createCourt(1, ['P0', 'P1', 'P2', 'P3'])], { queueDepth: 2 });
+  autoMaintainQueue(session);
+  return session;
+}
+
+test('新增场地后立即安排队列中的下一组，等待队列按新场地数补满', () => {
+  const session = createRotationSession(16);
+  assert.equal(session.queue.length, 2);
+
+  const court = addCourt(session);
+
+  assert.equal(court.id, 2);
+  assert.equal(court.status, 'playing');
+  assert.equal(session.settings.courtCount, 2);
+  assert.equal(session.queue.length, 2);
+  assert.equal(session.seedHistory?.filter(record => record.source === 'queue').length, 2);
+});
+
+test('移除正在比赛的场地时先待撤场，比赛结束后撤掉', () => {
+  const session = createRotationSession(12);
+  const court = addCourt(session);
+
+  assert.equal(removeCourt(session, court), false);
+  assert.equal(court.draining, true);
+  assert.equal(session.settings.courtCount, 1);
+
+  assert.equal(retireIfDraining(session, court), true);
+  assert.ok(!session.courts.includes(court));
+  assert.ok(court.team1 && session.participants
+    .filter(p => [court.team1!.player1, court.team1!.player2].includes(p.id))
+    .every(p => p.status === 'resting'));
+});
+
+test('没有比赛的场地立即移除', () => {
+  const session = createRotationSession(8);
+  session.courts.push(createCourt(2));
+
+  assert.equal(removeCourt(session, session.courts[1]), true);
+  assert.equal(session.courts.length, 1);
+  assert.equal(session.settings.courtCount, 1);
+});
@@ -0,0 +1,56 @@
+/**
+ * 比赛结果测试：比分校验与胜负统计
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateGameScore, validatePointsScore, recordGameResult } from '../game-results';
+import { createCourt, createParticipant, createSession } from './helpers';
+
+test('比分需打到获胜分并领先2分，加分局必须恰好领先2分', () => {
+  assert.equal(validateGameScore({ team1: 11, team2: 9 }).valid, true);
+  assert.equal(validateGameScore({ team1: 7, team2: 11 }).valid, true);
+  assert.equal(validateGameScore({ team1: 14, team2: 12 }).valid, true);
+  assert.equal(validateGameScore({ team1: 21, team2: 15 }).valid, true);
+
+  assert.equal(validateGameScore({ team1: 11, team2: 10 }).valid, false);
+  assert.equal(validateGameScore({ team1: 14, team2: 11 }).valid, false);
+  assert.equal(validateGameScore({ team1: 9, team2: 5 }).valid, false);
+  assert.equal(validateGameScore({ team1: 11, team2: 11 }).valid, false);
+  assert.equal(validateGameScore({ team1: -1, team2: 11 }).valid, false);
+  assert.equal(validateGameScore({ team1: 11.5, team2: 9 }).valid, false);
+});
+
+test('指定获胜分数时只接受该分数', () => {
+  assert.equal(validateGameScore({ team1: 15, team2: 10 }, 15).valid, true);
+  assert.equal(validateGameScore({ team1: 11, team2: 5 }, 15).valid, false);
+});
+
+test('积分赛允许打平，指定每场总分时双方得分之和必须相等', () => {
+  assert.equal(validatePointsScore({ team1: 12, team2: 12 }, 24).valid, true);
+  assert.equal(validatePointsScore({ team1: 13, team2: 10 }, 24).valid, false);
+  assert.equal(validatePointsScore({ team1: 5, team2: 3 }).valid, true);
+  assert.equal(validatePointsScore({ team1: 0, team2: 0 }).valid, false);
+});
+
+test('记录结果时更新胜负场和净胜分，未录比分时不计胜负', () => {
+  const session = createSession(
+    ['A', 'B', 'C', 'D'].map(id => createParticipant(id)),
+    [createCourt(1, ['A', 'B', 'C', 'D']), createCourt(2, ['A', 'B', 'C', 'D'])]
+  );
+
+  const result = recordGameResult(session, session.courts[0], { team1: 8, team2: 11 });
+  assert.equal(result?.winner, 'team2');
+  const byId = (id: string) => session.participants.find(p => p.id === id)!;
+  assert.equal(byId('A').losses, 1);
+  assert.equal(byId('A').pointDifferential, -3);
+  assert.equal(byId('C').wins, 1);
+  assert.equal(byId('D').pointDifferential, 3);
+
+  const unscored = recordGameResult(session, session.courts[1]);
+  assert.equal(unscored?.winner, undefined);
+  assert.equal(byId('C').wins, 1);
+  assert.equal(session.results?.length, 2);
+
+  assert.equal(recordGameResult(session, createCourt(3)), null);
+});
@@ -0,0 +1,85 @@
+/**
+ * 测试用的参与者、场地与球局
+ */
+
+import { Court, GameSession, Participant } from '../types';
+
+/**
+ * 创建休息中的参与者，名字与ID相同
+ */
+export function createParticipant(id: string, overrides: Partial<Participant> = {}): Participant {
+  return {
+    id,
+    name: id,
+    gamesPlayed: 0,
+    restRounds: 0,
+    teammates: {},
+    opponents: {},
+    status: 'resting',
+    joinedAt: new Date(0),
+    hasLeft: false,
+    ...overrides
+  };
+}
+
+/**
+ * 创建场地：传入4名选手时为正在进行的比赛（前两人一队），否则为空场地
+ */
+export function createCourt(id: number, playerIds?: [string, string, string, string], startTime = new Date(0)): Court {
+  if (!playerIds) {
+    return { id, name: `场地 ${id}`, team1: null, team2: null, status: 'empty' };
+  }
+  return {
+    id,
+    name: `场地 ${id}`,
+    team1: { player1: playerIds[0], player2: playerIds[1] },
+    team2: { player1: playerIds[2], player2: playerIds[3] },
+    status: 'playing',
+    startTime
+  };
+}
+
+/**
+ * 创建球局：场上的人标记为比赛中，场地数取自场地列表
+ */
+export function createSession(
+  participants: Participant[],
+  courts: Court[] = [],
+  settings: Partial<GameSession['settings']> = {}
+): GameSession {
+  const playing = new Set(courts.flatMap(court =>
+    court.team1 && court.team2
+      ? [court.team1.player1, court.team1.player2, court.team2.player1, court.team2.player2]
+      : []
+  ));
+  for (const participant of participants) {
+    if (playing.has(participant.id)) {
+      participant.status = 'playing';
+    }
+  }
+
+  return {
+    id: 'session',
+    participants,
+    courts,
+    queue: [],
+    weights: [],
+    exclusions: [],
+    lockedPairs: [],
+    results: [],
+    seedHistory: [],
+    createdBy: 'admin',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    settings: {
+      courtCount: courts.length,
+      participantCount: participants.length,
+      maxGamesPerRound: 1,
+      ...settings
+    },
+    stats: {
+      totalGamesPlayed: 0,
+      currentRound: 1
+    }
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * 擂台赛测试：赢家留场、输家排队尾与连胜上限
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { rotateKingOfCourt, fillKingCourt } from '../king-of-court';
+import { createCourt, createParticipant, createSession } from './helpers';
+
+function createKingSession(kingStreakLimit = 0) {
+  const session = createSession(
+    ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'].map(id => createParticipant(id)),
+    [createCourt(1, ['A', 'B', 'C', 'D'])],
+    { format: 'king-of-court', kingStreakLimit }
+  );
+  session.challengerQueue = ['E', 'F', 'G', 'H'];
+  return session;
+}
+
+test('守擂成功的队伍留场并累计连胜，输家排到挑战者队尾', () => {
+  const session = createKingSession();
+  const court = session.courts[0];
+
+  assert.deepEqual(rotateKingOfCourt(session, court, 'team1'), { streak: 1, split: false });
+  assert.deepEqual(court.team1, { player1: 'A', player2: 'B' });
+  assert.deepEqual([court.team2!.player1, court.team2!.player2].sort(), ['E', 'F']);
+  assert.equal(court.streak, 1);
+  assert.deepEqual(session.challengerQueue, ['G', 'H', 'C', 'D']);
+  assert.equal(session.participants.find(p => p.id === 'C')!.status, 'queued');
+});
+
+test('挑战成功的队伍成为守擂方，连胜从1开始', () => {
+  const session = createKingSession();
+  const court = session.courts[0];
+  court.streak = 3;
+
+  assert.deepEqual(rotateKingOfCourt(session, court, 'team2'), { streak: 1, split: false });
+  assert.deepEqual(court.team1, { player1: 'C', player2: 'D' });
+  assert.deepEqual(session.challengerQueue?.slice(-2), ['A', 'B']);
+});
+
+test('达到连胜上限时守擂队伍拆开，排在输家之后', () => {
+  const session = createKingSession(2);
+  const court = session.courts[0];
+  court.streak = 1;
+
+  assert.deepEqual(rotateKingOfCourt(session, court, 'team1'), { streak: 2, split: true });
+  const onCourt = [court.team1!.player1, court.team1!.player2, court.team2!.player1, court.team2!.player2];
+  assert.deepEqual(onCourt.sort(), ['E', 'F', 'G', 'H']);
+  assert.deepEqual(session.challengerQueue, ['C', 'D', 'A', 'B']);
+  assert.equal(court.streak, 0);
+});
+
+test('空场地由挑战者队首的两支队伍上场，人数不足时保持空场', () => {
+  const session = createKingSession();
+  session.courts.push(createCourt(2));
+  assert.equal(fillKingCourt(session, session.courts[1]), true);
+  assert.equal(session.courts[1].status, 'playing');
+  assert.deepEqual(session.challengerQueue, []);
+
+  session.courts.push(createCourt(3));
+  assert.equal(fillKingCourt(session, session.courts[2]), false);
+  assert.equal(session.courts[2].status, 'empty');
+});
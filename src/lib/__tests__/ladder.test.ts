@@ -0,0 +1,67 @@
+/**
+ * 升降梯测试：按实力开场、赢家升级输家降级与轮空补位
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startLadder, rotateLadder } from '../ladder';
+import { Court } from '../types';
+import { createCourt, createParticipant, createSession } from './helpers';
+
+function createLadderSession(playerCount: number) {
+  const participants = Array.from({ length: playerCount }, (_, i) =>
+    createParticipant(`P${i + 1}`, { rating: 2000 - i * 50 })
+  );
+  return createSession(participants, [createCourt(1), createCourt(2)], { format: 'ladder' });
+}
+
+function courtPlayers(court: Court): string[] {
+  return court.team1 && court.team2
+    ? [court.team1.player1, court.team1.player2, court.team2.player1, court.team2.player2].sort()
+    : [];
+}
+
+test('开始时按实力从高到低安排场地，场内第1、4名对阵第2、3名', () => {
+  const session = createLadderSession(8);
+
+  assert.equal(startLadder(session), 2);
+  assert.deepEqual(session.courts[0].team1, { player1: 'P1', player2: 'P4' });
+  assert.deepEqual(session.courts[0].team2, { player1: 'P2', player2: 'P3' });
+  assert.deepEqual(courtPlayers(session.courts[1]), ['P5', 'P6', 'P7', 'P8']);
+});
+
+test('赢家升一级、输家降一级，来到同一场地的搭档拆开', () => {
+  const session = createLadderSession(8);
+  startLadder(session);
+
+  assert.equal(rotateLadder(session, { 1: 'team1', 2: 'team2' }), 2);
+  assert.deepEqual(courtPlayers(session.courts[0]), ['P1', 'P4', 'P6', 'P7']);
+  assert.deepEqual(courtPlayers(session.courts[1]), ['P2', 'P3', 'P5', 'P8']);
+
+  for (const court of session.courts) {
+    for (const [a, b] of [['P1', 'P4'], ['P6', 'P7'], ['P2', 'P3'], ['P5', 'P8']]) {
+      const together = [court.team1!, court.team2!].some(team =>
+        [team.player1, team.player2].includes(a) && [team.player1, team.player2].includes(b)
+      );
+      assert.equal(together, false);
+    }
+  }
+});
+
+test('有人休息时最低级场地的输家下场，由休息的人补上', () => {
+  const session = createLadderSession(10);
+  startLadder(session);
+  const bottom = session.courts[1];
+  const losers = [bottom.team2!.player1, bottom.team2!.player2];
+  const resting = session.participants.filter(p => p.status === 'resting').map(p => p.id);
+  assert.equal(resting.length, 2);
+
+  rotateLadder(session, { 1: 'team1', 2: 'team1' });
+
+  for (const id of resting) {
+    assert.ok(courtPlayers(session.courts[1]).includes(id));
+  }
+  for (const id of losers) {
+    assert.equal(session.participants.find(p => p.id === id)!.status, 'resting');
+  }
+});
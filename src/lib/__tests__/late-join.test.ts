@@ -0,0 +1,74 @@
+/**
+ * 迟到补记测试：各策略的补记场数与上场分钟数
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyLateJoinPolicy, getEffectiveGamesPlayed, getLateJoinCredit } from '../late-join';
+import { LateJoinPolicy } from '../types';
+import { createParticipant, createSession } from './helpers';
+
+const PLAY_START = new Date('2024-01-01T10:00:00Z');
+const ONE_HOUR_LATER = new Date('2024-01-01T11:00:00Z');
+
+/**
+ * 4人从开场就在，已打 2/3/4/5 场、上场 20/30/40/50 分钟
+ */
+function createPlayingSession(lateJoinPolicy: LateJoinPolicy) {
+  const participants = [2, 3, 4, 5].map((games, i) =>
+    createParticipant(`P${i + 1}`, { gamesPlayed: games, courtMinutes: games * 10 })
+  );
+  const session = createSession(participants, [], { lateJoinPolicy });
+  session.results = [{
+    id: 'first',
+    courtId: 1,
+    team1: { player1: 'P1', player2: 'P2' },
+    team2: { player1: 'P3', player2: 'P4' },
+    startTime: PLAY_START,
+    endTime: new Date('2024-01-01T10:15:00Z')
+  }];
+  return session;
+}
+
+test('不补记或比赛还没开始时没有补记', () => {
+  assert.deepEqual(getLateJoinCredit(createPlayingSession('none'), ONE_HOUR_LATER), { games: 0, minutes: 0 });
+
+  const notStarted = createPlayingSession('average');
+  notStarted.results = [];
+  assert.deepEqual(getLateJoinCredit(notStarted, ONE_HOUR_LATER), { games: 0, minutes: 0 });
+});
+
+test('追平最少场数和按平均场数补记，场数向下取整', () => {
+  assert.deepEqual(getLateJoinCredit(createPlayingSession('minimum'), ONE_HOUR_LATER), { games: 2, minutes: 20 });
+  assert.deepEqual(getLateJoinCredit(createPlayingSession('average'), ONE_HOUR_LATER), { games: 3, minutes: 35 });
+});
+
+test('按缺席时长折算时只计其他人在场期间的平均速率', () => {
+  const session = createPlayingSession('prorated');
+  assert.deepEqual(getLateJoinCredit(session, ONE_HOUR_LATER), { games: 3, minutes: 35 });
+
+  // 开场半小时后才来的人在场时间短，拉高平均速率
+  session.participants.push(createParticipant('P5', {
+    gamesPlayed: 2,
+    courtMinutes: 30,
+    joinedAt: new Date('2024-01-01T10:30:00Z')
+  }));
+  // 场数 16 / 270 分钟 × 60 ≈ 3.6，分钟数 170 / 270 × 60 ≈ 37.8
+  assert.deepEqual(getLateJoinCredit(session, ONE_HOUR_LATER), { games: 3, minutes: 37.8 });
+});
+
+test('补记只计入排优先级用的场数，不改变真实场数', () => {
+  const session = createPlayingSession('minimum');
+  const newcomer = createParticipant('P6');
+
+  applyLateJoinPolicy(session, newcomer, ONE_HOUR_LATER);
+
+  assert.equal(newcomer.gamesPlayed, 0);
+  assert.equal(newcomer.catchUpGames, 2);
+  assert.equal(getEffectiveGamesPlayed(newcomer), 2);
+
+  session.settings.lateJoinPolicy = 'none';
+  applyLateJoinPolicy(session, newcomer, ONE_HOUR_LATER);
+  assert.equal(newcomer.catchUpGames, undefined);
+  assert.equal(newcomer.catchUpMinutes, undefined);
+});
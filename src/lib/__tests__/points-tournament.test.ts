@@ -0,0 +1,90 @@
+/**
+ * 积分赛测试：Americano 轮数、积分榜与 Mexicano 逐轮生成
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getAmericanoRoundCount, calculateStandings, generateMexicanoRound } from '../points-tournament';
+import { MAX_SCHEDULE_ROUNDS } from '../schedule';
+import { createRandom } from '../random';
+import { GameResult, GameScore, Team } from '../types';
+import { createCourt, createParticipant, createSession } from './helpers';
+
+function createResult(courtId: number, team1: Team, team2: Team, score: GameScore, endTime: Date): GameResult {
+  return { id: `${courtId}-${endTime.getTime()}`, courtId, team1, team2, score, endTime };
+}
+
+/**
+ * 8人2场地的积分赛，第1轮已打完：P1/P2 15-9 胜 P3/P4，P5/P6 与 P7/P8 12-12 打平
+ */
+function createPlayedSession() {
+  const participants = Array.from({ length: 8 }, (_, i) => createParticipant(`P${i + 1}`));
+  const session = createSession(participants, [createCourt(1), createCourt(2)], { format: 'mexicano' });
+  const court1 = { team1: { player1: 'P1', player2: 'P2' }, team2: { player1: 'P3', player2: 'P4' }, courtId: 1 };
+  const court2 = { team1: { player1: 'P5', player2: 'P6' }, team2: { player1: 'P7', player2: 'P8' }, courtId: 2 };
+
+  session.schedule = {
+    rounds: [{ round: 1, matches: [court1, court2], sittingOut: [] }],
+    playerIds: participants.map(p => p.id),
+    currentRound: 1,
+    totalRounds: 3,
+    seed: 1,
+    stats: { partnerPairs: 4, possiblePartnerPairs: 28, repeatedPartnerPairs: 0, opponentPairs: 8, minSitOuts: 0, maxSitOuts: 0 },
+    createdAt: new Date(1000)
+  };
+  session.results = [
+    // 赛程生成之前的比赛不计入积分
+    createResult(1, court1.team2, court1.team1, { team1: 11, team2: 0 }, new Date(500)),
+    createResult(1, court1.team1, court1.team2, { team1: 15, team2: 9 }, new Date(2000)),
+    createResult(2, court2.team1, court2.team2, { team1: 12, team2: 12 }, new Date(2000))
+  ];
+  return session;
+}
+
+test('Americano 轮数让每人与所有人各搭档一次，并受最大轮数限制', () => {
+  assert.equal(getAmericanoRoundCount(8, 2), 7);
+  assert.equal(getAmericanoRoundCount(5, 1), 5);
+  assert.equal(getAmericanoRoundCount(3, 2), 0);
+  assert.equal(getAmericanoRoundCount(40, 10), MAX_SCHEDULE_ROUNDS);
+});
+
+test('积分榜按个人积分和净胜分排名，相同时名次并列', () => {
+  const standings = calculateStandings(createPlayedSession());
+  const byId = Object.fromEntries(standings.map(row => [row.playerId, row]));
+
+  assert.deepEqual(standings.map(row => row.rank), [1, 1, 3, 3, 3, 3, 7, 7]);
+  assert.equal(byId.P1.points, 15);
+  assert.equal(byId.P1.wins, 1);
+  assert.equal(byId.P3.points, 9);
+  assert.equal(byId.P3.pointsAgainst, 15);
+  assert.equal(byId.P5.draws, 1);
+});
+
+test('Mexicano 下一轮按名次每4人一组，第1、4名对阵第2、3名', () => {
+  const session = createPlayedSession();
+  const round = generateMexicanoRound(session, createRandom(1));
+
+  assert.equal(round?.round, 2);
+  assert.deepEqual(round?.matches[0], {
+    team1: { player1: 'P1', player2: 'P6' },
+    team2: { player1: 'P2', player2: 'P5' },
+    courtId: 1
+  });
+  assert.deepEqual(round?.matches[1], {
+    team1: { player1: 'P7', player2: 'P4' },
+    team2: { player1: 'P8', player2: 'P3' },
+    courtId: 2
+  });
+});
+
+test('中途加入的人进入积分榜，错过的轮次计为轮空，不会优先轮空', () => {
+  const session = createPlayedSession();
+  session.participants.push(createParticipant('P9'));
+
+  const round = generateMexicanoRound(session, createRandom(1));
+
+  assert.ok(session.schedule!.playerIds.includes('P9'));
+  assert.equal(round?.sittingOut.length, 1);
+  assert.notEqual(round?.sittingOut[0], 'P9');
+  assert.equal(calculateStandings(session).find(row => row.playerId === 'P9')?.sitOuts, 1);
+});
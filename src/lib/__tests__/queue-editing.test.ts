@@ -0,0 +1,74 @@
+/**
+ * 手动调整等待队列测试：调整顺序、交换选手、锁定与规则检查
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { moveQueuedMatch, setQueuedMatchLocked, swapQueuedPlayers } from '../queue-editing';
+import { getMatchPlayerIds } from '../algorithm';
+import { autoMaintainQueue } from '../queue-maintenance';
+import { GameMatch } from '../types';
+import { createCourt, createParticipant, createSession } from './helpers';
+
+function createMatch(ids: [string, string, string, string]): GameMatch {
+  return { team1: { player1: ids[0], player2: ids[1] }, team2: { player1: ids[2], player2: ids[3] } };
+}
+
+/**
+ * A-D 在场上，队列为 EF 对 GH、IJ 对 KL，M 在休息
+ */
+function createQueuedSession() {
+  const session = createSession(
+    ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'L', 'M'].map(id => createParticipant(id)),
+    [createCourt(1, ['A', 'B', 'C', 'D'])],
+    { queueDepth: 2 }
+  );
+  session.queue = [createMatch(['E', 'F', 'G', 'H']), createMatch(['I', 'J', 'K', 'L'])];
+  for (const participant of session.participants) {
+    if (session.queue.some(match => getMatchPlayerIds(match).includes(participant.id))) {
+      participant.status = 'queued';
+    }
+  }
+  return session;
+}
+
+test('调整顺序后该组自动锁定，重新规划队列时保留在原位', () => {
+  const session = createQueuedSession();
+
+  assert.equal(moveQueuedMatch(session, 1, 0), undefined);
+  assert.deepEqual(session.queue[0], { ...createMatch(['I', 'J', 'K', 'L']), locked: true });
+
+  autoMaintainQueue(session);
+  assert.deepEqual(session.queue[0], { ...createMatch(['I', 'J', 'K', 'L']), locked: true });
+  assert.equal(session.queue.length, 2);
+
+  assert.equal(setQueuedMatchLocked(session, 0, false), undefined);
+  assert.equal(session.queue[0].locked, undefined);
+});
+
+test('交换队列中的两人，或用休息中的人替换队列中的人', () => {
+  const session = createQueuedSession();
+
+  assert.equal(swapQueuedPlayers(session, 'E', 'I'), undefined);
+  assert.deepEqual(session.queue[0].team1, { player1: 'I', player2: 'F' });
+  assert.deepEqual(session.queue[1].team1, { player1: 'E', player2: 'J' });
+  assert.ok(session.queue.every(match => match.locked));
+
+  assert.equal(swapQueuedPlayers(session, 'F', 'M'), undefined);
+  assert.deepEqual(session.queue[0].team1, { player1: 'I', player2: 'M' });
+  assert.equal(session.participants.find(p => p.id === 'M')!.status, 'queued');
+  assert.equal(session.participants.find(p => p.id === 'F')!.status, 'resting');
+});
+
+test('不能换上场上的人，也不能违反禁止组合或拆开固定搭档', () => {
+  const session = createQueuedSession();
+  session.exclusions = [{ id: 'x', player1: 'M', player2: 'G', type: 'court', createdAt: new Date(0) }];
+  session.lockedPairs = [{ id: 'l', player1: 'I', player2: 'J', createdAt: new Date(0) }];
+  const before = JSON.stringify(session.queue);
+
+  assert.match(swapQueuedPlayers(session, 'E', 'A') ?? '', /正在场上比赛/);
+  assert.match(swapQueuedPlayers(session, 'E', 'M') ?? '', /禁止组合/);
+  assert.match(swapQueuedPlayers(session, 'E', 'I') ?? '', /固定搭档/);
+  assert.match(swapQueuedPlayers(session, 'E', 'F') ?? '', /同一队/);
+  assert.equal(JSON.stringify(session.queue), before);
+});
@@ -0,0 +1,71 @@
+/**
+ * 选手评分测试：Glicko 评分更新与不确定度增长
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateRatingUpdates, inflateDeviation, DEFAULT_RATING, DEFAULT_RATING_DEVIATION } from '../rating';
+
+const match = {
+  team1: { player1: 'A', player2: 'B' },
+  team2: { player1: 'C', player2: 'D' }
+};
+
+test('新选手获胜方评分上升、失败方下降，不确定度都减小', () => {
+  const updates = calculateRatingUpdates(match, 'team1', {});
+
+  for (const id of ['A', 'B']) {
+    assert.ok(updates[id].rating > DEFAULT_RATING);
+  }
+  for (const id of ['C', 'D']) {
+    assert.ok(updates[id].rating < DEFAULT_RATING);
+  }
+  for (const id of ['A', 'B', 'C', 'D']) {
+    assert.ok(updates[id].ratingDeviation < DEFAULT_RATING_DEVIATION);
+  }
+  assert.ok(Math.abs((updates.A.rating - DEFAULT_RATING) + (updates.C.rating - DEFAULT_RATING)) < 1e-9);
+});
+
+test('爆冷获胜的评分变化大于强队赢弱队', () => {
+  const ratings = {
+    A: { rating: 1800, ratingDeviation: 80 },
+    B: { rating: 1800, ratingDeviation: 80 },
+    C: { rating: 1400, ratingDeviation: 80 },
+    D: { rating: 1400, ratingDeviation: 80 }
+  };
+
+  const expectedWin = calculateRatingUpdates(match, 'team1', ratings);
+  const upset = calculateRatingUpdates(match, 'team2', ratings);
+
+  assert.ok(upset.C.rating - 1400 > expectedWin.A.rating - 1800);
+});
+
+test('不确定度越低，同一场比赛的评分变化越小', () => {
+  const settled = { rating: DEFAULT_RATING, ratingDeviation: 60 };
+  const updates = calculateRatingUpdates(match, 'team1', {
+    A: settled,
+    C: { rating: DEFAULT_RATING, ratingDeviation: 60 }
+  });
+
+  assert.ok(updates.A.rating - DEFAULT_RATING < updates.B.rating - DEFAULT_RATING);
+});
+
+test('长时间未参赛的不确定度随天数增长，但不超过默认值', () => {
+  const now = new Date('2024-03-01T00:00:00Z');
+  const rating = {
+    playerName: 'A',
+    rating: 1600,
+    ratingDeviation: 60,
+    gamesRated: 20,
+    updatedAt: now
+  };
+
+  assert.equal(inflateDeviation(rating, now), 60);
+  assert.equal(inflateDeviation({ ...rating, lastPlayedAt: now }, now), 60);
+
+  const afterMonth = inflateDeviation({ ...rating, lastPlayedAt: new Date('2024-01-31T00:00:00Z') }, now);
+  assert.ok(afterMonth > 60 && afterMonth < DEFAULT_RATING_DEVIATION);
+
+  const afterYears = inflateDeviation({ ...rating, lastPlayedAt: new Date('2020-01-01T00:00:00Z') }, now);
+  assert.equal(afterYears, DEFAULT_RATING_DEVIATION);
+});
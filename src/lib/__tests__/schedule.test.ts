@@ -0,0 +1,74 @@
+/**
+ * 预排赛程测试：轮空均衡、固定搭档、禁止组合与开始轮次
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateRoundRobinSchedule, applyScheduleRound } from '../schedule';
+import { violatesExclusions } from '../algorithm';
+import { createRandom } from '../random';
+import { createCourt, createParticipant, createSession } from './helpers';
+
+function createPlayers(count: number) {
+  return Array.from({ length: count }, (_, i) => createParticipant(`P${i + 1}`));
+}
+
+test('同一种子生成相同赛程，每人轮空次数相差不超过1', () => {
+  const players = createPlayers(10);
+  const first = generateRoundRobinSchedule(players, [1, 2], 7, { random: createRandom(42) });
+  const second = generateRoundRobinSchedule(players, [1, 2], 7, { random: createRandom(42) });
+
+  assert.deepEqual(first.rounds, second.rounds);
+  assert.equal(first.rounds.length, 7);
+  for (const round of first.rounds) {
+    assert.equal(round.matches.length, 2);
+    assert.equal(round.sittingOut.length, 2);
+    assert.deepEqual(round.matches.map(match => match.courtId), [1, 2]);
+  }
+  assert.ok(first.stats.maxSitOuts - first.stats.minSitOuts <= 1);
+});
+
+test('固定搭档始终同队并一起轮空，禁止组合不会出现', () => {
+  const players = createPlayers(10);
+  const lockedPairs = [{ id: 'lock', player1: 'P1', player2: 'P2', createdAt: new Date(0) }];
+  const exclusions = [{ id: 'ex', player1: 'P3', player2: 'P4', type: 'court' as const, createdAt: new Date(0) }];
+  const { rounds } = generateRoundRobinSchedule(players, [1, 2], 6, {
+    random: createRandom(7),
+    lockedPairs,
+    exclusions
+  });
+
+  for (const round of rounds) {
+    assert.equal(round.sittingOut.includes('P1'), round.sittingOut.includes('P2'));
+    for (const match of round.matches) {
+      const teams = [match.team1, match.team2].map(team => [team.player1, team.player2]);
+      assert.ok(!teams.some(team => team.includes('P1') !== team.includes('P2')));
+      assert.equal(violatesExclusions(match, exclusions), false);
+    }
+  }
+});
+
+test('开始一轮时安排到对应场地，有人离开的比赛被跳过', () => {
+  const players = createPlayers(8);
+  const session = createSession(players, [createCourt(1), createCourt(2)], { format: 'schedule' });
+  const { rounds, stats } = generateRoundRobinSchedule(players, [1, 2], 3, { random: createRandom(3) });
+  session.schedule = {
+    rounds,
+    playerIds: players.map(p => p.id),
+    currentRound: 0,
+    seed: 3,
+    stats,
+    createdAt: new Date(0)
+  };
+
+  assert.deepEqual(applyScheduleRound(session, 1), { started: 2, skipped: 0 });
+  assert.equal(session.schedule.currentRound, 1);
+  assert.ok(session.courts.every(court => court.status === 'playing'));
+
+  const leaving = rounds[1].matches[0].team1.player1;
+  session.participants.find(p => p.id === leaving)!.hasLeft = true;
+
+  assert.deepEqual(applyScheduleRound(session, 2), { started: 1, skipped: 1 });
+  assert.equal(session.courts.find(c => c.id === rounds[1].matches[0].courtId)!.status, 'empty');
+  assert.equal(session.participants.filter(p => !p.hasLeft && p.status === 'playing').length, 4);
+});
@@ -0,0 +1,144 @@
+/**
+ * 锦标赛测试：设置校验、小组循环、单败与双败淘汰赛、瑞士制
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createTournament,
+  createSwissTournament,
+  completeTournamentMatch,
+  getDefaultSwissRounds,
+  getSwissStandings,
+  validateSwissOptions,
+  validateTournamentOptions
+} from '../tournament';
+import { Tournament, TournamentMatch } from '../types';
+
+function createTeams(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    name: `T${i + 1}`,
+    player1: `T${i + 1}a`,
+    player2: `T${i + 1}b`
+  }));
+}
+
+function teamName(tournament: Tournament, teamId?: string | null): string | undefined {
+  return tournament.teams.find(team => team.id === teamId)?.name;
+}
+
+/**
+ * 依次打完所有可以开始的比赛，pickWinner 决定每场的获胜方
+ * @returns 实际打过的比赛数
+ */
+function playAll(
+  tournament: Tournament,
+  pickWinner: (match: TournamentMatch) => 'team1' | 'team2'
+): number {
+  let played = 0;
+  for (;;) {
+    const match = tournament.matches.find(m => m.status === 'pending' && m.team1Id && m.team2Id);
+    if (!match) return played;
+
+    completeTournamentMatch(tournament, match, pickWinner(match) === 'team1'
+      ? { team1: 11, team2: 5 }
+      : { team1: 5, team2: 11 });
+    played++;
+    assert.ok(played < 100);
+  }
+}
+
+/**
+ * 种子靠前的队伍获胜
+ */
+function favoriteWins(tournament: Tournament) {
+  const seedOf = (teamId?: string | null) => tournament.teams.find(team => team.id === teamId)!.seed;
+  return (match: TournamentMatch) => seedOf(match.team1Id) < seedOf(match.team2Id) ? 'team1' as const : 'team2' as const;
+}
+
+test('小组数和晋级队伍数超出范围时校验失败', () => {
+  assert.equal(validateTournamentOptions(8, 0, 0).valid, true);
+  assert.equal(validateTournamentOptions(8, 2, 2).valid, true);
+  assert.equal(validateTournamentOptions(1, 0, 0).valid, false);
+  assert.equal(validateTournamentOptions(5, 3, 1).valid, false);
+  assert.equal(validateTournamentOptions(7, 2, 4).valid, false);
+  assert.equal(validateTournamentOptions(4, 1, 1).valid, false);
+});
+
+test('单败淘汰赛中头号种子轮空晋级，决赛胜者为冠军', () => {
+  const tournament = createTournament(createTeams(3), 0, 0, 'single');
+
+  const bye = tournament.matches.find(m => m.round === 1 && m.status === 'finished');
+  assert.equal(teamName(tournament, bye?.winnerId), 'T1');
+
+  assert.equal(playAll(tournament, favoriteWins(tournament)), 2);
+  assert.equal(tournament.stage, 'finished');
+  assert.equal(teamName(tournament, tournament.championId), 'T1');
+});
+
+test('小组蛇形分组，小组赛全部结束后各组第一名进入淘汰赛', () => {
+  const tournament = createTournament(createTeams(4), 2, 1, 'single');
+
+  assert.equal(tournament.stage, 'pools');
+  assert.deepEqual(
+    tournament.pools.map(pool => pool.teamIds.map(id => teamName(tournament, id))),
+    [['T1', 'T4'], ['T2', 'T3']]
+  );
+
+  playAll(tournament, favoriteWins(tournament));
+
+  const final = tournament.matches.find(m => m.bracket === 'winners');
+  assert.deepEqual([teamName(tournament, final?.team1Id), teamName(tournament, final?.team2Id)], ['T1', 'T2']);
+  assert.equal(teamName(tournament, tournament.championId), 'T1');
+});
+
+test('双败淘汰赛中败者组冠军赢下总决赛时加赛一场', () => {
+  const tournament = createTournament(createTeams(4), 0, 0, 'double');
+  const favorite = favoriteWins(tournament);
+
+  playAll(tournament, match => match.bracket === 'final' ? 'team2' : favorite(match));
+
+  const finals = tournament.matches.filter(m => m.bracket === 'final');
+  assert.equal(finals.length, 2);
+  assert.deepEqual([teamName(tournament, finals[1].team1Id), teamName(tournament, finals[1].team2Id)], ['T1', 'T2']);
+  assert.equal(teamName(tournament, tournament.championId), 'T2');
+});
+
+test('瑞士制轮数不能超过不重复交手所能排出的轮数', () => {
+  assert.equal(validateSwissOptions(4, 3).valid, true);
+  assert.equal(validateSwissOptions(4, 4).valid, false);
+  assert.equal(validateSwissOptions(5, 5).valid, true);
+  assert.equal(getDefaultSwissRounds(8), 3);
+  assert.equal(getDefaultSwissRounds(3), 2);
+});
+
+test('瑞士制第一轮前一半种子对阵后一半，之后不重复交手，打满轮数后决出冠军', () => {
+  const tournament = createSwissTournament(createTeams(6), 3);
+
+  assert.deepEqual(
+    tournament.matches.map(m => [teamName(tournament, m.team1Id), teamName(tournament, m.team2Id)]),
+    [['T1', 'T4'], ['T2', 'T5'], ['T3', 'T6']]
+  );
+
+  assert.equal(playAll(tournament, favoriteWins(tournament)), 9);
+  assert.equal(tournament.stage, 'finished');
+  assert.equal(teamName(tournament, tournament.championId), 'T1');
+
+  const pairings = tournament.matches.map(m => [m.team1Id, m.team2Id].sort().join('|'));
+  assert.equal(new Set(pairings).size, pairings.length);
+  assert.equal(getSwissStandings(tournament)[0].wins, 3);
+});
+
+test('瑞士制队伍数为奇数时每轮一队轮空记一场胜利，每队最多轮空一次', () => {
+  const tournament = createSwissTournament(createTeams(5), 5);
+
+  playAll(tournament, favoriteWins(tournament));
+
+  const byes = tournament.matches.filter(m => m.team2Id === null);
+  assert.equal(byes.length, 5);
+  assert.equal(new Set(byes.map(m => m.winnerId)).size, 5);
+
+  const standings = getSwissStandings(tournament);
+  assert.equal(standings.reduce((sum, row) => sum + row.wins, 0), 10 + 5);
+  assert.ok(standings.every(row => row.played === 4));
+});
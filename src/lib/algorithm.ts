@@ -16,34 +16,80 @@ import {
   GameMatch, 
   TeamAssignmentResult, 
   TeamScoreDetails,
-  WeightType 
+  ScoringOptions,
+  ScoringCoefficients,
+  GameSession,
+  PairingMode,
+  WeightType,
+  GenerationSource,
+  PairExclusion,
+  LockedPair,
+  FairnessMode,
+  CourtTier
 } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { createRandom, generateSeed } from './random';
+import { resolveScoringCoefficients } from './scoring-presets';
+import { getEffectiveGamesPlayed, getEffectiveCourtMinutes } from './late-join';
+
+// 未录入水平且没有评分的选手使用的实力值（与 rating.ts 的默认评分一致）
+const DEFAULT_SKILL_RATING = 1500;
+
+// 每支符合组队模式的队伍获得的加分
+const PAIRING_BONUS_PER_TEAM = 2;
+
+// 无法满足禁止组合规则的场地评分，保证搜索优先选择满足规则的分组
+const INFEASIBLE_COURT_SCORE = -1000;
+
+// 按时长计算公平性时，上场时长的分档粒度（分钟）与折合一场比赛的分钟数
+const COURT_TIME_BUCKET_MINUTES = 5;
+const MINUTES_PER_GAME = 15;
+
+// 默认等待队列深度（组数）与允许的范围
+export const DEFAULT_QUEUE_DEPTH = 2;
+export const MIN_QUEUE_DEPTH = 1;
+export const MAX_QUEUE_DEPTH = 6;
+
+// 休息规则的上限：最多连续上场场数、两场之间最少休息的场数 / 分钟数
+export const MAX_CONSECUTIVE_GAMES_LIMIT = 10;
+export const MAX_MIN_REST_GAMES = 5;
+export const MAX_MIN_REST_MINUTES = 60;
+
+// 3个及以上场地时局部搜索的最大迭代次数与时间预算（毫秒）
+// 正常情况下由迭代次数结束搜索，保证相同种子可重放；时间预算保证大场馆（多场地、多人）也能及时返回
+const GLOBAL_SEARCH_MAX_ITERATIONS = 2000;
+export const GLOBAL_SEARCH_TIME_BUDGET_MS = 500;
+
+// 球局保留的组队种子记录条数，更早的记录丢弃
+const MAX_SEED_HISTORY = 100;
+
+// 选人时寻找合规组合的范围：优先级最靠前的上场单位数
+const GROUP_SELECTION_WINDOW = 8;
+
+// 模拟退火的初始温度与最低温度
+const ANNEALING_START_TEMPERATURE = 2;
+const ANNEALING_MIN_TEMPERATURE = 0.01;
 
 /**
  * 生成最优队伍分配
  * @param participants 所有参与者
  * @param courtCount 场地数量
  * @param weights 权重设置
+ * @param options 组队评分选项
  * @returns 分配结果
  */
 export function generateOptimalTeams(
   participants: Participant[], 
   courtCount: number,
-  weights: Weight[] = []
+  weights: Weight[] = [],
+  options: ScoringOptions = {}
 ): TeamAssignmentResult {
   // 过滤出可用的参与者（未离开的参与者）
   const availableParticipants = participants.filter(p => !p.hasLeft);
   
   if (availableParticipants.length < 4) {
     return {
-      courts: Array.from({ length: courtCount }, (_, i) => ({
-        id: i + 1,
-        name: `场地 ${i + 1}`,
-        team1: null,
-        team2: null,
-        status: 'empty' as const
-      })),
+      courts: createEmptyCourts(courtCount, options),
       queue: [],
       waiting: availableParticipants.map(p => p.id),
       stats: {
@@ -54,23 +100,17 @@ export function generateOptimalTeams(
     };
   }
 
-  // 按优先级排序参与者（游戏次数少的优先，休息轮数多的优先）
-  const sortedParticipants = [...availableParticipants].sort((a, b) => {
-    // 首先按游戏次数排序（少的优先）
-    if (a.gamesPlayed !== b.gamesPlayed) {
-      return a.gamesPlayed - b.gamesPlayed;
-    }
-    // 然后按休息轮数排序（多的优先）
-    if (a.restRounds !== b.restRounds) {
-      return b.restRounds - a.restRounds;
-    }
-    // 最后随机排序
-    return Math.random() - 0.5;
-  });
+  const random = options.random ?? Math.random;
+
+  // 按优先级排序参与者（游戏次数少的优先，休息轮数多的优先；时长模式下按上场时长和等待时间）
+  const sortedParticipants = [...availableParticipants].sort((a, b) => 
+    // 优先级相同时随机排序
+    comparePlayerPriority(a, b, options.fairnessMode) || random() - 0.5
+  );
 
   // 新的通用分配策略：
   // 1. 计算实际可用场地数（基于总人数）
-  // 2. 确保等待队列始终显示两组（8人），即使需要从当前比赛者中补充
+  // 2. 确保等待队列始终显示设定的组数（默认两组），即使需要从当前比赛者中补充
   // 3. 剩余的人处于休息状态
   
   const totalPlayers = sortedParticipants.length;
@@ -78,16 +118,17 @@ export function generateOptimalTeams(
   
   // 计算当前比赛人数
   const playingCount = maxCourtsCanFill * 4;
-  const playingPlayers = sortedParticipants.slice(0, playingCount);
+  const playingPlayers = selectPlayerGroups(sortedParticipants, maxCourtsCanFill, options);
   
-  // 计算等待队列 - 关键改进：确保始终有两组
-  const remainingPlayers = sortedParticipants.slice(playingCount);
-  const queuePlayers = generateQueueWithSupplement(
+  // 计算等待队列 - 关键改进：确保始终有设定的组数
+  const remainingPlayers = sortedParticipants.filter(p => !playingPlayers.includes(p));
+  const { queue: queuePlayers, warning: queueWarning } = generateQueueWithSupplement(
     remainingPlayers, 
     playingPlayers, 
     courtCount,
     weights,
-    participants
+    participants,
+    options
   );
   
   // 剩余休息的人（排除正在比赛和排队的）
@@ -100,13 +141,274 @@ export function generateOptimalTeams(
     !playingPlayerIds.includes(p.id) && !queuePlayerIds.includes(p.id)
   );
 
-  // 使用全局优化算法分配场地
+  // 使用全局优化算法分配场地，其余场地保持空闲
   const actualCourtsUsed = Math.ceil(playingCount / 4);
-  const courts = assignPlayersToCourts(playingPlayers, actualCourtsUsed, weights, participants);
+  const courts = createEmptyCourts(courtCount, options);
+  assignPlayersToCourts(playingPlayers, courts.slice(0, actualCourtsUsed), weights, participants, options);
+
+  // 计算统计信息
+  const stats = calculateAssignmentStats(courts, queuePlayers, weights, participants);
+  const courtMatches = courts
+    .filter(court => court.team1 && court.team2)
+    .map(court => ({ team1: court.team1!, team2: court.team2! }));
+
+  return {
+    courts,
+    queue: queuePlayers,
+    waiting: waitingPlayers.map(p => p.id),
+    queueWarning,
+    ruleWarning: describeRelaxedRules([...courtMatches, ...queuePlayers], sortedParticipants, options),
+    stats
+  };
+}
+
+/**
+ * 筛选双方都在指定玩家中的固定搭档（一方已离开的搭档不再约束）
+ */
+function getActiveLockedPairs(lockedPairs: LockedPair[] = [], players: Participant[]): LockedPair[] {
+  const playerIds = new Set(players.map(p => p.id));
+  return lockedPairs.filter(pair => playerIds.has(pair.player1) && playerIds.has(pair.player2));
+}
+
+/**
+ * 获取玩家的固定搭档ID
+ */
+function getLockedPartner(playerId: string, lockedPairs: LockedPair[] = []): string | undefined {
+  const pair = lockedPairs.find(p => p.player1 === playerId || p.player2 === playerId);
+  if (!pair) return undefined;
+  return pair.player1 === playerId ? pair.player2 : pair.player1;
+}
+
+/**
+ * 按固定搭档将玩家分成上场单位（固定搭档为2人一组，其他玩家各自一组），保持优先级顺序
+ * 固定搭档的优先级取两人中优先级较高者
+ */
+function groupIntoUnits(sortedPlayers: Participant[], lockedPairs: LockedPair[]): Participant[][] {
+  const units: Participant[][] = [];
+  const grouped = new Set<string>();
+  
+  for (const player of sortedPlayers) {
+    if (grouped.has(player.id)) continue;
+    grouped.add(player.id);
+    
+    const partnerId = getLockedPartner(player.id, lockedPairs);
+    const partner = partnerId ? sortedPlayers.find(p => p.id === partnerId) : undefined;
+    if (partner) {
+      grouped.add(partner.id);
+      units.push([player, partner]);
+    } else {
+      units.push([player]);
+    }
+  }
   
-  // 补充空场地
+  return units;
+}
+
+/**
+ * 按上场单位选择比赛玩家，固定搭档要么一起上场，要么一起休息，从不拆开
+ * 剩余名额只有1个时跳过固定搭档，由后面的单人补足；没有单人可补时，
+ * 让已选中的优先级最低的单人让出名额，由下一对固定搭档上场
+ */
+function selectPlayersWithLockedPairs(
+  sortedPlayers: Participant[],
+  count: number,
+  lockedPairs: LockedPair[]
+): Participant[] {
+  const selected: Participant[][] = [];
+  const skipped: Participant[][] = [];
+  let size = 0;
+
+  for (const unit of groupIntoUnits(sortedPlayers, lockedPairs)) {
+    if (size === count) break;
+    if (size + unit.length > count) {
+      skipped.push(unit);
+      continue;
+    }
+    selected.push(unit);
+    size += unit.length;
+  }
+
+  // 只差1个名额且没有单人可补：换下优先级最低的单人，让下一对固定搭档上场
+  const nextPair = skipped.find(unit => unit.length === 2);
+  const lastSingle = [...selected].reverse().find(unit => unit.length === 1);
+  if (size === count - 1 && nextPair && lastSingle) {
+    selected.splice(selected.indexOf(lastSingle), 1, nextPair);
+  }
+
+  const picked = selected.flat();
+  return sortedPlayers.filter(p => picked.includes(p));
+}
+
+/**
+ * 逐组选出上场玩家，返回按组排列的玩家（每4人为一组，组内保持优先级顺序）
+ * 每组优先选能满足组队模式、禁止组合和固定搭档规则的4人，固定搭档从不拆开
+ * @param sortedPlayers 按优先级排序的玩家
+ * @param groupCount 组数
+ * @param options 组队评分选项（组队模式、禁止组合规则、固定搭档）
+ */
+function selectPlayerGroups(
+  sortedPlayers: Participant[],
+  groupCount: number,
+  options: ScoringOptions
+): Participant[] {
+  const lockedPairs = getActiveLockedPairs(options.lockedPairs, sortedPlayers);
+  const selected: Participant[] = [];
+  let remaining = [...sortedPlayers];
+
+  for (let group = 0; group < groupCount && remaining.length >= 4; group++) {
+    const picked = selectAllowedGroup(remaining, lockedPairs, options);
+    selected.push(...picked);
+    remaining = remaining.filter(p => !picked.includes(p));
+  }
+
+  return selected;
+}
+
+/**
+ * 选出一组4人：按优先级选出的4人能组成合规比赛时直接使用，
+ * 否则在优先级靠前的上场单位中选排名之和最小、能组成合规比赛的组合；
+ * 组队模式无法满足时只保证禁止组合和固定搭档规则，仍无法满足时按优先级选择
+ * @param sortedPlayers 按优先级排序的玩家（至少4人）
+ * @param lockedPairs 双方都在候选人中的固定搭档
+ * @param options 组队评分选项
+ * @returns 选中的4名玩家（保持优先级顺序）
+ */
+function selectAllowedGroup(
+  sortedPlayers: Participant[],
+  lockedPairs: LockedPair[],
+  options: ScoringOptions
+): Participant[] {
+  const pairingMode = options.pairingMode ?? 'any';
+  const exclusions = options.exclusions ?? [];
+
+  const byPriority = selectPlayersWithLockedPairs(sortedPlayers, 4, lockedPairs);
+  if (canFormAllowedMatch(byPriority, pairingMode, exclusions, lockedPairs)) {
+    return byPriority;
+  }
+
+  const window = groupIntoUnits(sortedPlayers, lockedPairs).slice(0, GROUP_SELECTION_WINDOW);
+  const rankSum = (group: Participant[]) => group.reduce((sum, p) => sum + sortedPlayers.indexOf(p), 0);
+  const groups = [2, 3, 4]
+    .flatMap(size => getCombinations(window, size))
+    .map(units => units.flat())
+    .filter(group => group.length === 4)
+    .sort((a, b) => rankSum(a) - rankSum(b));
+
+  const picked = groups.find(group => canFormAllowedMatch(group, pairingMode, exclusions, lockedPairs))
+    ?? groups.find(group => canFormAllowedMatch(group, 'any', exclusions, lockedPairs))
+    ?? byPriority;
+  return sortedPlayers.filter(p => picked.includes(p));
+}
+
+/**
+ * 检查4名玩家能否组成符合组队模式、禁止组合和固定搭档规则的比赛
+ */
+function canFormAllowedMatch(
+  players: Participant[],
+  pairingMode: PairingMode,
+  exclusions: PairExclusion[] = [],
+  lockedPairs: LockedPair[] = []
+): boolean {
+  const combinations = generateTeamCombinationsForPlayers(players, 'any', exclusions, lockedPairs);
+  if (combinations.length === 0) return false;
+  if (pairingMode !== 'mixed' && pairingMode !== 'same-gender') return true;
+
+  const playerStats = players.reduce((acc, p) => {
+    acc[p.id] = p;
+    return acc;
+  }, {} as Record<string, Participant>);
+
+  return combinations.some(combination =>
+    isTeamAllowed(combination.team1, pairingMode, playerStats) &&
+    isTeamAllowed(combination.team2, pairingMode, playerStats)
+  );
+}
+
+/**
+ * 人员不足以满足禁止组合或固定搭档规则时，比赛会临时放宽规则，
+ * 返回列出这些比赛的提示，所有比赛都满足规则时返回 undefined
+ * @param matches 场上和等待队列中的比赛
+ * @param players 本次参与组队的玩家（不在其中的固定搭档不再约束）
+ * @param options 组队评分选项
+ */
+function describeRelaxedRules(
+  matches: GameMatch[],
+  players: Participant[],
+  options: ScoringOptions
+): string | undefined {
+  const lockedPairs = getActiveLockedPairs(options.lockedPairs, players);
+  const splitsPair = (match: GameMatch) => {
+    const ids = getMatchPlayerIds(match);
+    return lockedPairs.some(pair =>
+      (ids.includes(pair.player1) || ids.includes(pair.player2)) &&
+      !isTeammates(match.team1, pair.player1, pair.player2) &&
+      !isTeammates(match.team2, pair.player1, pair.player2)
+    );
+  };
+
+  const relaxed = matches.filter(match => violatesExclusions(match, options.exclusions) || splitsPair(match));
+  if (relaxed.length === 0) return undefined;
+
+  const nameOf = (id: string) => players.find(p => p.id === id)?.name ?? id;
+  return `人员不足以满足禁止组合或固定搭档规则，以下比赛已临时放宽规则：${
+    relaxed.map(match => getMatchPlayerIds(match).map(nameOf).join('、')).join('；')
+  }`;
+}
+
+/**
+ * 比较两名玩家的上场优先级，返回负数表示a优先，0表示优先级相同
+ * - 按场数：游戏次数少的优先，其次休息轮数多的优先
+ * - 按时长：累计上场时长少的优先（按5分钟分档），其次本次等待开始得早的优先
+ * 场数和上场时长都包含迟到补记
+ * @param fairnessMode 公平性模式
+ */
+export function comparePlayerPriority(
+  a: Participant, 
+  b: Participant, 
+  fairnessMode: FairnessMode = 'games'
+): number {
+  if (fairnessMode === 'time') {
+    const bucketA = Math.floor(getEffectiveCourtMinutes(a) / COURT_TIME_BUCKET_MINUTES);
+    const bucketB = Math.floor(getEffectiveCourtMinutes(b) / COURT_TIME_BUCKET_MINUTES);
+    if (bucketA !== bucketB) {
+      return bucketA - bucketB;
+    }
+    const waitA = a.waitingSince ? new Date(a.waitingSince).getTime() : Infinity;
+    const waitB = b.waitingSince ? new Date(b.waitingSince).getTime() : Infinity;
+    if (waitA !== waitB) {
+      return waitA < waitB ? -1 : 1;
+    }
+    return 0;
+  }
+  
+  const gamesA = getEffectiveGamesPlayed(a);
+  const gamesB = getEffectiveGamesPlayed(b);
+  if (gamesA !== gamesB) {
+    return gamesA - gamesB;
+  }
+  if (a.restRounds !== b.restRounds) {
+    return b.restRounds - a.restRounds;
+  }
+  return 0;
+}
+
+/**
+ * 创建空场地：沿用球局现有场地的编号、名称和级别，场地不足时按编号依次补充默认场地
+ * @param courtCount 场地数量
+ * @param options 组队评分选项（球局现有的场地）
+ */
+function createEmptyCourts(courtCount: number, options: ScoringOptions): Court[] {
+  const courts: Court[] = (options.courts ?? []).slice(0, courtCount).map(court => ({
+    id: court.id,
+    name: court.name,
+    tier: court.tier,
+    team1: null,
+    team2: null,
+    status: 'empty' as const
+  }));
+
   while (courts.length < courtCount) {
-    const courtId = courts.length + 1;
+    const courtId = courts.reduce((max, court) => Math.max(max, court.id), 0) + 1;
     courts.push({
       id: courtId,
       name: `场地 ${courtId}`,
@@ -116,76 +418,159 @@ export function generateOptimalTeams(
     });
   }
 
-  // 计算统计信息
-  const stats = calculateAssignmentStats(courts, queuePlayers, weights, participants);
-
-  return {
-    courts,
-    queue: queuePlayers,
-    waiting: waitingPlayers.map(p => p.id),
-    stats
-  };
+  return courts;
 }
 
 /**
  * 将玩家分配到场地 - 使用全局优化算法
+ * 设置了级别的场地先选出水平相符的4人，其余玩家在未设置级别的场地间全局优化
+ * @param courts 要安排比赛的空场地，直接在其上安排
  */
 function assignPlayersToCourts(
   players: Participant[], 
-  courtCount: number, 
+  courts: Court[], 
   weights: Weight[], 
-  allParticipants: Participant[]
+  allParticipants: Participant[],
+  options: ScoringOptions
 ): Court[] {
-  const courts: Court[] = Array.from({ length: courtCount }, (_, i) => ({
-    id: i + 1,
-    name: `场地 ${i + 1}`,
-    team1: null,
-    team2: null,
-    status: 'empty' as const
-  }));
-
   if (players.length < 4) {
     return courts;
   }
 
-  // 如果只有一个场地或人数刚好够一个场地
-  if (courtCount === 1 || players.length === 4) {
-    const bestMatch = findBestTeamMatch(players, weights, allParticipants);
-    if (bestMatch) {
-      courts[0] = {
-        id: 1,
-        name: courts[0].name || '场地 1',
-        team1: bestMatch.team1,
-        team2: bestMatch.team2,
-        status: 'playing',
-        startTime: new Date()
-      };
+  const startMatch = (court: Court, match: GameMatch | null) => {
+    if (match && match.team1 && match.team2) {
+      court.team1 = match.team1;
+      court.team2 = match.team2;
+      court.status = 'playing';
+      court.startTime = new Date();
     }
+  };
+
+  const tierGroups = pickTierCourtPlayers(players, courts, options);
+  for (const [courtId, group] of Array.from(tierGroups.entries())) {
+    const court = courts.find(c => c.id === courtId)!;
+    startMatch(court, findBestTeamMatchWithFallback(group, weights, allParticipants, options));
+  }
+
+  const assigned = new Set(Array.from(tierGroups.values()).flat());
+  const restPlayers = players.filter(p => !assigned.has(p));
+  const openCourts = courts.filter(c => !tierGroups.has(c.id));
+
+  if (restPlayers.length < 4 || openCourts.length === 0) {
+    return courts;
+  }
+
+  // 如果只有一个场地或人数刚好够一个场地
+  if (openCourts.length === 1 || restPlayers.length === 4) {
+    startMatch(openCourts[0], findBestTeamMatchWithFallback(restPlayers, weights, allParticipants, options));
     return courts;
   }
 
   // 多场地全局优化分配
-  const bestAssignment = findBestGlobalAssignment(players, courtCount, weights, allParticipants);
-  
-  for (let i = 0; i < bestAssignment.length && i < courtCount; i++) {
-    if (bestAssignment[i]) {
-      const match = bestAssignment[i];
-      if (match && match.team1 && match.team2) {
-        courts[i] = {
-          id: i + 1,
-          name: courts[i].name || `场地 ${i + 1}`,
-          team1: match.team1,
-          team2: match.team2,
-          status: 'playing',
-          startTime: new Date()
-        };
-      }
-    }
+  const bestAssignment = findBestGlobalAssignment(restPlayers, openCourts.length, weights, allParticipants, options);
+  
+  for (let i = 0; i < bestAssignment.length && i < openCourts.length; i++) {
+    startMatch(openCourts[i], bestAssignment[i]);
   }
 
   return courts;
 }
 
+/**
+ * 为设置了级别的场地选出水平在范围内的4人（固定搭档整体考虑）
+ * 符合条件的人越少的场地越先选；符合的人不足4人时用水平最接近范围的人补足，
+ * 仍凑不齐4人（只剩固定搭档放不下）时该场地按普通场地参与全局分配
+ * @returns 各场地选出的玩家 - courtId: 4名玩家
+ */
+function pickTierCourtPlayers(
+  players: Participant[],
+  courts: Court[],
+  options: ScoringOptions
+): Map<number, Participant[]> {
+  const groups = new Map<number, Participant[]>();
+  const tierCourts = courts.filter(court => court.tier);
+  if (tierCourts.length === 0) {
+    return groups;
+  }
+
+  const lockedPairs = getActiveLockedPairs(options.lockedPairs, players);
+  let units = groupIntoUnits(players, lockedPairs);
+  const unitFits = (unit: Participant[], tier: CourtTier) => unit.every(p => isLevelInTier(getPlayerLevel(p), tier));
+  const unitDistance = (unit: Participant[], tier: CourtTier) =>
+    Math.max(...unit.map(p => getTierDistance(getPlayerLevel(p), tier)));
+  // 能去的级别场地越少的人越优先安排，把适合多个级别的人留给其他场地
+  const fitCount = (unit: Participant[]) => tierCourts.filter(court => unitFits(unit, court.tier!)).length;
+
+  const orderedCourts = [...tierCourts].sort((a, b) =>
+    units.filter(unit => unitFits(unit, a.tier!)).length - units.filter(unit => unitFits(unit, b.tier!)).length
+  );
+
+  for (const court of orderedCourts) {
+    const tier = court.tier!;
+    const eligible = units
+      .filter(unit => unitFits(unit, tier))
+      .sort((a, b) => fitCount(a) - fitCount(b));
+    const nearest = units
+      .filter(unit => !unitFits(unit, tier))
+      .sort((a, b) => unitDistance(a, tier) - unitDistance(b, tier));
+
+    const picked: Participant[][] = [];
+    let size = 0;
+    for (const unit of [...eligible, ...nearest]) {
+      if (size + unit.length > 4) continue;
+      picked.push(unit);
+      size += unit.length;
+      if (size === 4) break;
+    }
+
+    if (size === 4) {
+      groups.set(court.id, picked.flat());
+      units = units.filter(unit => !picked.includes(unit));
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * 水平是否在场地级别范围内
+ */
+export function isLevelInTier(level: number, tier: CourtTier): boolean {
+  return (tier.minLevel === undefined || level >= tier.minLevel) &&
+    (tier.maxLevel === undefined || level <= tier.maxLevel);
+}
+
+/**
+ * 水平到场地级别范围的距离，在范围内为0
+ */
+function getTierDistance(level: number, tier: CourtTier): number {
+  if (tier.minLevel !== undefined && level < tier.minLevel) return tier.minLevel - level;
+  if (tier.maxLevel !== undefined && level > tier.maxLevel) return level - tier.maxLevel;
+  return 0;
+}
+
+/**
+ * 从等待队列中取出下一组进入指定场地：场地设置了级别时，
+ * 优先取队列中第一组4人水平都在范围内的比赛，没有时按顺序取第一组
+ * @param session 游戏会话
+ * @param court 空出的场地
+ * @returns 取出的比赛，队列为空时返回undefined
+ */
+export function takeQueuedMatchForCourt(session: GameSession, court: Court): GameMatch | undefined {
+  const tier = court.tier;
+  if (tier) {
+    const index = session.queue.findIndex(match =>
+      [match.team1.player1, match.team1.player2, match.team2.player1, match.team2.player2].every(id =>
+        isLevelInTier(getPlayerLevel(session.participants.find(p => p.id === id)), tier)
+      )
+    );
+    if (index > 0) {
+      return session.queue.splice(index, 1)[0];
+    }
+  }
+  return session.queue.shift();
+}
+
 /**
  * 找到最佳的全局分配方案
  */
@@ -193,7 +578,8 @@ function findBestGlobalAssignment(
   players: Participant[], 
   courtCount: number, 
   weights: Weight[], 
-  allParticipants: Participant[]
+  allParticipants: Participant[],
+  options: ScoringOptions
 ): (GameMatch | null)[] {
   const playerIds = players.map(p => p.id);
   const totalPlayers = playerIds.length;
@@ -204,10 +590,16 @@ function findBestGlobalAssignment(
     return Array(courtCount).fill(null);
   }
 
+  // 3个或更多场地：组合数量过大，改用模拟退火在时间预算内搜索
+  if (maxCourts >= 3) {
+    return searchGlobalAssignment(players, courtCount, maxCourts, weights, allParticipants, options);
+  }
+
   // 生成所有可能的场地分配组合
   const allAssignments = generateCourtAssignments(playerIds, maxCourts);
   
   let bestAssignment: (GameMatch | null)[] = Array(courtCount).fill(null);
+  let bestGroups: string[][] = [];
   let bestScore = -Infinity;
 
   for (const assignment of allAssignments) {
@@ -220,10 +612,12 @@ function findBestGlobalAssignment(
         const courtParticipants = courtPlayers.map(id => 
           players.find(p => p.id === id)!
         );
-        const bestMatch = findBestTeamMatch(courtParticipants, weights, allParticipants);
+        const bestMatch = findBestTeamMatch(courtParticipants, weights, allParticipants, options);
         if (bestMatch) {
           matches[courtIndex] = bestMatch;
-          totalScore += calculateTeamScore(bestMatch.team1, bestMatch.team2, weights, allParticipants);
+          totalScore += calculateTeamScore(bestMatch.team1, bestMatch.team2, weights, allParticipants, options);
+        } else {
+          totalScore += INFEASIBLE_COURT_SCORE;
         }
       }
     }
@@ -231,12 +625,169 @@ function findBestGlobalAssignment(
     if (totalScore > bestScore) {
       bestScore = totalScore;
       bestAssignment = matches;
+      bestGroups = assignment;
     }
   }
 
+  // 所有分组都无法满足禁止组合规则时，放宽规则保证场地有人
+  bestGroups.forEach((group, index) => {
+    if (!bestAssignment[index] && group.length === 4) {
+      bestAssignment[index] = findBestTeamMatchWithFallback(
+        group.map(id => players.find(p => p.id === id)!), weights, allParticipants, options
+      );
+    }
+  });
+
   return bestAssignment;
 }
 
+/**
+ * 使用模拟退火搜索多场地分配方案
+ * 以按顺序分组为初始解，反复交换不同场地的两名玩家，始终保留出现过的最优解，
+ * 因此结果不会差于按顺序分组
+ */
+function searchGlobalAssignment(
+  players: Participant[], 
+  courtCount: number, 
+  maxCourts: number,
+  weights: Weight[], 
+  allParticipants: Participant[],
+  options: ScoringOptions
+): (GameMatch | null)[] {
+  const playerMap = new Map(players.map(p => [p.id, p]));
+  const random = options.random ?? Math.random;
+  
+  // 同一组4人的评分在一次搜索中保持不变，避免随机因子干扰比较
+  const courtCache = new Map<string, { match: GameMatch | null; score: number }>();
+  const evaluateCourt = (group: string[]) => {
+    const key = [...group].sort().join('|');
+    let cached = courtCache.get(key);
+    if (!cached) {
+      const match = findBestTeamMatch(group.map(id => playerMap.get(id)!), weights, allParticipants, options);
+      const score = match 
+        ? calculateTeamScore(match.team1, match.team2, weights, allParticipants, options) 
+        : INFEASIBLE_COURT_SCORE;
+      cached = { match, score };
+      courtCache.set(key, cached);
+    }
+    return cached;
+  };
+  
+  // 初始解：按传入顺序每4人一组（选人时已按组排好）；会拆开固定搭档时先放入搭档再放单人
+  const lockedPairs = getActiveLockedPairs(options.lockedPairs, players);
+  const sequential = generateCourtAssignments(players.map(p => p.id), maxCourts)[0].map(group => [...group]);
+  const keepsPairs = (group: string[]) =>
+    lockedPairs.every(pair => group.includes(pair.player1) === group.includes(pair.player2));
+  const groups = sequential.every(keepsPairs)
+    ? sequential
+    : packUnitsIntoGroups(players, maxCourts, lockedPairs);
+  const groupScores = groups.map(group => evaluateCourt(group).score);
+  let currentScore = groupScores.reduce((sum, score) => sum + score, 0);
+  let bestScore = currentScore;
+  let bestGroups = groups.map(group => [...group]);
+  
+  const startTime = Date.now();
+  for (let iteration = 0; iteration < GLOBAL_SEARCH_MAX_ITERATIONS; iteration++) {
+    if (Date.now() - startTime > GLOBAL_SEARCH_TIME_BUDGET_MS) break;
+    
+    const progress = iteration / GLOBAL_SEARCH_MAX_ITERATIONS;
+    const temperature = Math.max(ANNEALING_MIN_TEMPERATURE, ANNEALING_START_TEMPERATURE * (1 - progress));
+    
+    // 随机选择两个不同场地上的各一名玩家进行交换（固定搭档整体交换）
+    const courtA = Math.floor(random() * groups.length);
+    let courtB = Math.floor(random() * (groups.length - 1));
+    if (courtB >= courtA) courtB++;
+    const indexA = Math.floor(random() * 4);
+    const indexB = Math.floor(random() * 4);
+    
+    const swap = getSwapIndexes(groups[courtA], indexA, groups[courtB], indexB, lockedPairs);
+    if (!swap) continue;
+    
+    const newGroupA = [...groups[courtA]];
+    const newGroupB = [...groups[courtB]];
+    swap.forEach(([a, b]) => {
+      [newGroupA[a], newGroupB[b]] = [groups[courtB][b], groups[courtA][a]];
+    });
+    
+    const newScoreA = evaluateCourt(newGroupA).score;
+    const newScoreB = evaluateCourt(newGroupB).score;
+    const delta = newScoreA + newScoreB - groupScores[courtA] - groupScores[courtB];
+    
+    if (delta >= 0 || random() < Math.exp(delta / temperature)) {
+      groups[courtA] = newGroupA;
+      groups[courtB] = newGroupB;
+      groupScores[courtA] = newScoreA;
+      groupScores[courtB] = newScoreB;
+      currentScore += delta;
+      
+      if (currentScore > bestScore) {
+        bestScore = currentScore;
+        bestGroups = groups.map(group => [...group]);
+      }
+    }
+  }
+  
+  const matches: (GameMatch | null)[] = Array(courtCount).fill(null);
+  bestGroups.forEach((group, index) => {
+    matches[index] = evaluateCourt(group).match
+      ?? findBestTeamMatchWithFallback(group.map(id => playerMap.get(id)!), weights, allParticipants, options);
+  });
+  
+  return matches;
+}
+
+/**
+ * 将玩家按上场单位装入各场地：先放固定搭档，再按优先级放单人
+ */
+function packUnitsIntoGroups(players: Participant[], groupCount: number, lockedPairs: LockedPair[]): string[][] {
+  const groups: string[][] = Array.from({ length: groupCount }, () => []);
+  const units = groupIntoUnits(players, lockedPairs);
+  const orderedUnits = [...units.filter(u => u.length === 2), ...units.filter(u => u.length === 1)];
+  
+  for (const unit of orderedUnits) {
+    const group = groups.find(g => g.length + unit.length <= 4);
+    if (group) {
+      group.push(...unit.map(p => p.id));
+    }
+  }
+  
+  return groups;
+}
+
+/**
+ * 计算两个场地之间交换玩家的位置，固定搭档作为整体交换
+ * 一边是固定搭档、另一边是单人时，从单人所在场地再选一名单人一起交换
+ * @returns 交换的位置对，无法交换时返回null
+ */
+function getSwapIndexes(
+  groupA: string[],
+  indexA: number,
+  groupB: string[],
+  indexB: number,
+  lockedPairs: LockedPair[]
+): Array<[number, number]> | null {
+  const unitIndexes = (group: string[], index: number): number[] => {
+    const partnerId = getLockedPartner(group[index], lockedPairs);
+    const partnerIndex = partnerId ? group.indexOf(partnerId) : -1;
+    return partnerIndex >= 0 ? [index, partnerIndex] : [index];
+  };
+  const extraSingle = (group: string[], index: number): number[] | null => {
+    const other = group.findIndex((id, i) => i !== index && unitIndexes(group, i).length === 1);
+    return other >= 0 ? [index, other] : null;
+  };
+  
+  let unitA = unitIndexes(groupA, indexA);
+  let unitB = unitIndexes(groupB, indexB);
+  
+  if (unitA.length !== unitB.length) {
+    const extended = unitA.length === 1 ? extraSingle(groupA, indexA) : extraSingle(groupB, indexB);
+    if (!extended) return null;
+    if (unitA.length === 1) unitA = extended; else unitB = extended;
+  }
+  
+  return unitA.map((a, i) => [a, unitB[i]] as [number, number]);
+}
+
 /**
  * 生成所有可能的场地分配组合
  */
@@ -304,15 +855,22 @@ function getCombinations<T>(arr: T[], size: number): T[][] {
 
 /**
  * 为指定的玩家找到最佳的2v2组合
+ * 违反禁止组合规则或拆开固定搭档的组合不参与比较，4人无论如何都违反规则时返回null
  */
 function findBestTeamMatch(
   players: Participant[], 
   weights: Weight[], 
-  allParticipants: Participant[]
+  allParticipants: Participant[],
+  options: ScoringOptions = {}
 ): GameMatch | null {
   if (players.length < 4) return null;
 
-  const allCombinations = generateTeamCombinationsForPlayers(players);
+  const allCombinations = generateTeamCombinationsForPlayers(
+    players, 
+    options.pairingMode, 
+    options.exclusions, 
+    options.lockedPairs
+  );
   let bestMatch: GameMatch | null = null;
   let bestScore = -Infinity;
 
@@ -321,7 +879,8 @@ function findBestTeamMatch(
       combination.team1, 
       combination.team2, 
       weights, 
-      allParticipants
+      allParticipants,
+      options
     );
     
     if (score > bestScore) {
@@ -333,13 +892,54 @@ function findBestTeamMatch(
   return bestMatch;
 }
 
+/**
+ * 为指定的玩家找到最佳的2v2组合，无法满足禁止组合或固定搭档规则时放宽规则
+ * 仅在人员不足以避开规则时使用，保证场地不会因此空置（由 describeRelaxedRules 提示管理员）
+ */
+function findBestTeamMatchWithFallback(
+  players: Participant[], 
+  weights: Weight[], 
+  allParticipants: Participant[],
+  options: ScoringOptions
+): GameMatch | null {
+  const match = findBestTeamMatch(players, weights, allParticipants, options);
+  if (match || (!options.exclusions?.length && !options.lockedPairs?.length)) {
+    return match;
+  }
+
+  return findBestTeamMatch(players, weights, allParticipants, { ...options, exclusions: [], lockedPairs: [] });
+}
+
 /**
  * 生成指定玩家的所有可能2v2组合
+ * 违反禁止组合规则或拆开固定搭档的组合始终被排除；
+ * 混双/同性双打模式下只保留符合要求的组合，无法满足时退回其余组合
+ * @param players 4名玩家
+ * @param pairingMode 组队模式
+ * @param exclusions 禁止组合规则
+ * @param lockedPairs 固定搭档
  */
-function generateTeamCombinationsForPlayers(players: Participant[]): GameMatch[] {
+function generateTeamCombinationsForPlayers(
+  players: Participant[],
+  pairingMode: PairingMode = 'any',
+  exclusions: PairExclusion[] = [],
+  lockedPairs: LockedPair[] = []
+): GameMatch[] {
   const combinations: GameMatch[] = [];
   const playerIds = players.map(p => p.id);
   
+  // 只有一名固定搭档在这4人中时，任何组合都会拆开搭档
+  const groupPairs = lockedPairs.filter(pair => 
+    playerIds.includes(pair.player1) || playerIds.includes(pair.player2)
+  );
+  if (groupPairs.some(pair => !playerIds.includes(pair.player1) || !playerIds.includes(pair.player2))) {
+    return combinations;
+  }
+  const playerStats = players.reduce((acc, p) => {
+    acc[p.id] = p;
+    return acc;
+  }, {} as Record<string, Participant>);
+  
   // 生成所有可能的队伍组合
   for (let i = 0; i < playerIds.length; i++) {
     for (let j = i + 1; j < playerIds.length; j++) {
@@ -351,54 +951,158 @@ function generateTeamCombinationsForPlayers(players: Participant[]): GameMatch[]
           const team1: Team = { player1: playerIds[i], player2: playerIds[j] };
           const team2: Team = { player1: playerIds[k], player2: playerIds[l] };
           
-          combinations.push({ team1, team2 });
+          const combination = { team1, team2 };
+          const keepsPairs = groupPairs.every(pair => 
+            isTeammates(team1, pair.player1, pair.player2) || isTeammates(team2, pair.player1, pair.player2)
+          );
+          if (keepsPairs && !violatesExclusions(combination, exclusions)) {
+            combinations.push(combination);
+          }
         }
       }
     }
   }
   
+  if (pairingMode === 'mixed' || pairingMode === 'same-gender') {
+    const validCombinations = combinations.filter(combination =>
+      isTeamAllowed(combination.team1, pairingMode, playerStats) &&
+      isTeamAllowed(combination.team2, pairingMode, playerStats)
+    );
+    if (validCombinations.length > 0) {
+      return validCombinations;
+    }
+  }
+  
   return combinations;
 }
 
+/**
+ * 检查队伍是否符合组队模式（未设置性别的玩家可与任何人组队）
+ */
+function isTeamAllowed(
+  team: Team,
+  pairingMode: PairingMode,
+  playerStats: Record<string, Participant>
+): boolean {
+  const category1 = playerStats[team.player1]?.category;
+  const category2 = playerStats[team.player2]?.category;
+  
+  if (!category1 || !category2) return true;
+  
+  switch (pairingMode) {
+    case 'mixed':
+    case 'mixed-preferred':
+      return category1 !== category2;
+    case 'same-gender':
+      return category1 === category2;
+    default:
+      return true;
+  }
+}
+
+/**
+ * 检查比赛是否违反禁止组合规则
+ * @param match 比赛双方
+ * @param exclusions 禁止组合规则
+ */
+export function violatesExclusions(match: GameMatch, exclusions: PairExclusion[] = []): boolean {
+  const courtPlayers = [match.team1.player1, match.team1.player2, match.team2.player1, match.team2.player2];
+  
+  return exclusions.some(exclusion => {
+    switch (exclusion.type) {
+      case 'teammate':
+        return isTeammates(match.team1, exclusion.player1, exclusion.player2) ||
+               isTeammates(match.team2, exclusion.player1, exclusion.player2);
+      case 'opponent':
+        return isOpponents(match.team1, match.team2, exclusion.player1, exclusion.player2);
+      case 'court':
+        return courtPlayers.includes(exclusion.player1) && courtPlayers.includes(exclusion.player2);
+      default:
+        return false;
+    }
+  });
+}
+
 /**
  * 计算队伍组合的评分
  * @param team1 队伍1
  * @param team2 队伍2
  * @param weights 权重设置
  * @param participants 所有参与者
+ * @param options 组队评分选项
  * @returns 评分（越高越好）
  */
 export function calculateTeamScore(
   team1: Team, 
   team2: Team, 
   weights: Weight[], 
-  participants: Participant[]
+  participants: Participant[],
+  options: ScoringOptions = {}
 ): number {
+  return calculateTeamScoreDetails(team1, team2, weights, participants, options).totalScore;
+}
+
+/**
+ * 计算队伍组合的评分详情
+ * @param team1 队伍1
+ * @param team2 队伍2
+ * @param weights 权重设置
+ * @param participants 所有参与者
+ * @param options 组队评分选项
+ * @returns 各项评分及总分
+ */
+export function calculateTeamScoreDetails(
+  team1: Team, 
+  team2: Team, 
+  weights: Weight[], 
+  participants: Participant[],
+  options: ScoringOptions = {}
+): TeamScoreDetails {
   const playerStats = participants.reduce((acc, p) => {
     acc[p.id] = p;
     return acc;
   }, {} as Record<string, Participant>);
 
+  const coefficients = resolveScoringCoefficients(options.coefficients);
+
   // 1. 公平性评分 - 基于游戏次数差异
-  const fairnessScore = calculateFairnessScore(team1, team2, playerStats);
+  const fairnessScore = calculateFairnessScore(team1, team2, playerStats, options.fairnessMode);
   
   // 2. 权重加分
-  const weightBonus = calculateWeightBonus(team1, team2, weights);
+  const weightBonus = calculateWeightBonus(team1, team2, weights, coefficients);
   
   // 3. 重复惩罚 - 避免相同组合
-  const repetitionPenalty = calculateRepetitionPenalty(team1, team2, playerStats);
+  const repetitionPenalty = calculateRepetitionPenalty(team1, team2, playerStats, coefficients);
+  
+  // 4. 实力平衡 - 双方实力越接近评分越高
+  const balanceScore = calculateBalanceScore(team1, team2, playerStats);
+  const skillBalanceWeight = options.skillBalanceWeight ?? 0;
   
-  // 4. 随机因子
-  const randomFactor = (Math.random() - 0.5) * 0.1; // ±5% 随机性
+  // 5. 组队模式加分 - 符合混双/同性双打要求的队伍加分
+  const pairingBonus = calculatePairingBonus(team1, team2, playerStats, options.pairingMode ?? 'any');
   
-  // 综合评分（权重可调整）
+  // 6. 随机因子
+  const random = options.random ?? Math.random;
+  const randomFactor = (random() - 0.5) * coefficients.randomness; // 默认 ±5% 随机性
+  
+  // 综合评分（系数由球局设置决定）
   const totalScore = 
-    fairnessScore * 1.0 +      // 公平性权重最高
-    weightBonus * 0.8 +        // 权重影响中等
-    repetitionPenalty * 0.6 +  // 多样性权重较低
+    fairnessScore * coefficients.fairness +        // 公平性权重最高
+    weightBonus * coefficients.weightBonus +       // 权重影响中等
+    repetitionPenalty * coefficients.repetition +  // 多样性权重较低
+    balanceScore * skillBalanceWeight + // 实力平衡由球局设置决定
+    pairingBonus +             // 组队模式偏好
     randomFactor;              // 随机因子最低
 
-  return totalScore;
+  return {
+    fairnessScore,
+    weightBonus,
+    repetitionPenalty,
+    balanceScore,
+    pairingBonus,
+    randomFactor,
+    totalScore
+  };
 }
 
 /**
@@ -407,10 +1111,18 @@ export function calculateTeamScore(
 function calculateFairnessScore(
   team1: Team, 
   team2: Team, 
-  playerStats: Record<string, Participant>
+  playerStats: Record<string, Participant>,
+  fairnessMode: FairnessMode = 'games'
 ): number {
   const players = [team1.player1, team1.player2, team2.player1, team2.player2];
-  const gamesPlayed = players.map(id => playerStats[id]?.gamesPlayed || 0);
+  // 时长模式下将上场分钟数折算为场数，保持评分尺度一致
+  const gamesPlayed = players.map(id => {
+    const player = playerStats[id];
+    if (!player) return 0;
+    return fairnessMode === 'time'
+      ? getEffectiveCourtMinutes(player) / MINUTES_PER_GAME
+      : getEffectiveGamesPlayed(player);
+  });
   
   // 计算游戏次数的标准差，越小越公平
   const mean = gamesPlayed.reduce((sum, games) => sum + games, 0) / gamesPlayed.length;
@@ -421,10 +1133,74 @@ function calculateFairnessScore(
   return Math.max(0, 10 - stdDev * 2);
 }
 
+/**
+ * 计算实力平衡评分
+ */
+function calculateBalanceScore(
+  team1: Team, 
+  team2: Team, 
+  playerStats: Record<string, Participant>
+): number {
+  const team1Skill = getPlayerSkill(playerStats[team1.player1]) + getPlayerSkill(playerStats[team1.player2]);
+  const team2Skill = getPlayerSkill(playerStats[team2.player1]) + getPlayerSkill(playerStats[team2.player2]);
+  
+  // 两队评分总和相差500分时评分降为0
+  return Math.max(0, 10 - Math.abs(team1Skill - team2Skill) / 50);
+}
+
+/**
+ * 计算组队模式加分
+ */
+function calculatePairingBonus(
+  team1: Team,
+  team2: Team,
+  playerStats: Record<string, Participant>,
+  pairingMode: PairingMode
+): number {
+  if (pairingMode === 'any') return 0;
+  
+  let bonus = 0;
+  for (const team of [team1, team2]) {
+    if (isTeamAllowed(team, pairingMode, playerStats)) {
+      bonus += PAIRING_BONUS_PER_TEAM;
+    }
+  }
+  return bonus;
+}
+
+/**
+ * 获取选手实力值 - 优先使用管理员录入的水平，其次使用评分
+ */
+export function getPlayerSkill(participant?: Participant): number {
+  if (!participant) return DEFAULT_SKILL_RATING;
+  
+  if (participant.skillLevel !== undefined) {
+    // 水平每差0.5折合约125评分，3.0水平对应默认评分
+    return DEFAULT_SKILL_RATING + (participant.skillLevel - 3.0) * 250;
+  }
+  
+  return participant.rating ?? DEFAULT_SKILL_RATING;
+}
+
+/**
+ * 获取选手水平（如 3.5）- 优先使用管理员录入的水平，其次由评分折算
+ */
+export function getPlayerLevel(participant?: Participant): number {
+  if (participant?.skillLevel !== undefined) {
+    return participant.skillLevel;
+  }
+  return 3.0 + (getPlayerSkill(participant) - DEFAULT_SKILL_RATING) / 250;
+}
+
 /**
  * 计算权重加分
  */
-function calculateWeightBonus(team1: Team, team2: Team, weights: Weight[]): number {
+function calculateWeightBonus(
+  team1: Team, 
+  team2: Team, 
+  weights: Weight[],
+  coefficients: ScoringCoefficients
+): number {
   let bonus = 0;
   
   // 检查队友权重
@@ -432,7 +1208,7 @@ function calculateWeightBonus(team1: Team, team2: Team, weights: Weight[]): numb
   for (const weight of teammateWeights) {
     if (isTeammates(team1, weight.player1, weight.player2) || 
         isTeammates(team2, weight.player1, weight.player2)) {
-      bonus += weight.weight * 0.5; // 队友权重加分
+      bonus += weight.weight * coefficients.teammateWeightFactor; // 队友权重加分
     }
   }
   
@@ -440,7 +1216,7 @@ function calculateWeightBonus(team1: Team, team2: Team, weights: Weight[]): numb
   const opponentWeights = weights.filter(w => w.type === 'opponent');
   for (const weight of opponentWeights) {
     if (isOpponents(team1, team2, weight.player1, weight.player2)) {
-      bonus += weight.weight * 0.3; // 对手权重加分
+      bonus += weight.weight * coefficients.opponentWeightFactor; // 对手权重加分
     }
   }
   
@@ -453,7 +1229,8 @@ function calculateWeightBonus(team1: Team, team2: Team, weights: Weight[]): numb
 function calculateRepetitionPenalty(
   team1: Team, 
   team2: Team, 
-  playerStats: Record<string, Participant>
+  playerStats: Record<string, Participant>,
+  coefficients: ScoringCoefficients
 ): number {
   let penalty = 0;
   
@@ -462,14 +1239,14 @@ function calculateRepetitionPenalty(
   const team1Player2 = playerStats[team1.player2];
   if (team1Player1 && team1Player2) {
     const teammateCount = team1Player1.teammates[team1.player2] || 0;
-    penalty -= teammateCount * 0.5; // 队友重复惩罚
+    penalty -= teammateCount * coefficients.teammateRepeatPenalty; // 队友重复惩罚
   }
   
   const team2Player1 = playerStats[team2.player1];
   const team2Player2 = playerStats[team2.player2];
   if (team2Player1 && team2Player2) {
     const teammateCount = team2Player1.teammates[team2.player2] || 0;
-    penalty -= teammateCount * 0.5;
+    penalty -= teammateCount * coefficients.teammateRepeatPenalty;
   }
   
   // 检查对手重复次数
@@ -480,7 +1257,7 @@ function calculateRepetitionPenalty(
       const player2Id = allPlayers[j];
       if (player1) {
         const opponentCount = player1.opponents[player2Id] || 0;
-        penalty -= opponentCount * 0.3; // 对手重复惩罚
+        penalty -= opponentCount * coefficients.opponentRepeatPenalty; // 对手重复惩罚
       }
     }
   }
@@ -534,12 +1311,15 @@ function generateAllTeamCombinations(players: Participant[]): GameMatch[] {
 }
 
 /**
- * 生成等待队列，确保始终有两组，必要时从当前比赛者中补充
+ * 生成等待队列，按球局设置的队列深度规划多组，必要时从当前比赛者中补充
+ * 采用整体规划而不是逐组贪心：先按优先级选出所有排队的人，
+ * 再像多场地分配一样整体分组，使靠后的组同样公平、多样，最后按优先级排列各组顺序
  * @param remainingPlayers 剩余可用的参与者
  * @param playingPlayers 当前比赛的参与者
  * @param courtCount 场地数量
  * @param weights 权重设置
  * @param allParticipants 所有参与者
+ * @param options 组队评分选项
  * @returns 等待队列比赛列表
  */
 function generateQueueWithSupplement(
@@ -547,99 +1327,231 @@ function generateQueueWithSupplement(
   playingPlayers: Participant[],
   courtCount: number,
   weights: Weight[],
-  allParticipants: Participant[]
-): GameMatch[] {
-  const targetQueueSize = 2; // 始终保持两组
+  allParticipants: Participant[],
+  options: ScoringOptions = {}
+): { queue: GameMatch[]; warning?: string } {
+  const targetQueueSize = options.queueDepth ?? DEFAULT_QUEUE_DEPTH;
+  const random = options.random ?? Math.random;
   const playersPerMatch = 4;
   const totalNeededPlayers = targetQueueSize * playersPerMatch;
   
+  // 休息规则：每人最早能排在第几组（从0开始），超出队列组数的人本次不排队
+  const playingIds = new Set(playingPlayers.map(p => p.id));
+  // 等待队列在比赛结束时才上场；场上没有比赛时前几组只能由管理员直接安排到空场地
+  const idleCourts = playingPlayers.length === 0 ? courtCount : 0;
+  const now = new Date();
+  const earliestGroup = new Map(
+    [...remainingPlayers, ...playingPlayers].map(p => [
+      p.id,
+      getEarliestQueueGroup(p, playingIds.has(p.id), idleCourts, courtCount, targetQueueSize, options, now)
+    ])
+  );
+  const canQueue = (player: Participant) => earliestGroup.get(player.id)! < targetQueueSize;
+  
   // 构建队列候选人池
-  let queueCandidates = [...remainingPlayers];
+  let queueCandidates = remainingPlayers.filter(canQueue);
   
-  // 如果剩余人数不足以组成两组，从当前比赛者中补充
+  // 如果剩余人数不足以组成全部队列，从当前比赛者中补充
   if (queueCandidates.length < totalNeededPlayers) {
     const shortage = totalNeededPlayers - queueCandidates.length;
+    const eligiblePlaying = playingPlayers.filter(canQueue);
     
-    // 从当前比赛者中选择比赛次数最多的人作为补充
-    const supplementPlayers = [...playingPlayers]
-      .sort((a, b) => {
-        // 优先选择比赛次数多的
-        if (a.gamesPlayed !== b.gamesPlayed) {
-          return b.gamesPlayed - a.gamesPlayed;
-        }
-        // 然后选择休息轮数少的（刚上场的）
-        if (a.restRounds !== b.restRounds) {
-          return a.restRounds - b.restRounds;
-        }
-        return Math.random() - 0.5;
-      })
+    // 从当前比赛者中选择优先级最低的人（比赛次数最多、刚上场的）作为补充
+    const supplementPlayers = [...eligiblePlaying]
+      .sort((a, b) => comparePlayerPriority(b, a, options.fairnessMode) || random() - 0.5)
       .slice(0, shortage);
     
+    // 固定搭档一起补充进队列
+    for (const player of [...supplementPlayers]) {
+      const partnerId = getLockedPartner(player.id, options.lockedPairs);
+      const partner = partnerId ? eligiblePlaying.find(p => p.id === partnerId) : undefined;
+      if (partner && !supplementPlayers.includes(partner)) {
+        supplementPlayers.push(partner);
+      }
+    }
+    
     queueCandidates.push(...supplementPlayers);
   }
   
-  // 生成两组队列
+  // 不考虑休息规则时能排出的组数，用于判断是否因规则而人手不足
+  const unrestrictedGroupCount = Math.min(
+    targetQueueSize,
+    Math.floor((remainingPlayers.length + playingPlayers.length) / playersPerMatch)
+  );
+  // 人数够再开一个场地，却因为没人休息够而空着
+  const playingCourts = Math.floor(playingPlayers.length / playersPerMatch);
+  const hasIdleCourt = playingCourts > 0 && playingCourts < courtCount &&
+    remainingPlayers.length + playingPlayers.length >= (playingCourts + 1) * playersPerMatch;
+  const hasRestRules = !!options.maxConsecutiveGames || !!options.minRest;
+  const shortHandedWarning = (queuedGroups: number) => {
+    if (!hasRestRules) return undefined;
+    if (queuedGroups < unrestrictedGroupCount) {
+      return `人手不足：按休息规则（${describeRestRules(options)}）只能排出 ${queuedGroups} 组等待队列`;
+    }
+    if (hasIdleCourt) {
+      return `人手不足：按休息规则（${describeRestRules(options)}）只能同时进行 ${playingCourts} 个场地的比赛`;
+    }
+    return undefined;
+  };
+  
+  // 场上没有比赛时不会再有人休息够，规则永远无法满足：临时放宽规则排队，避免所有场地一直空着
+  const relaxRules = () => {
+    const relaxed = generateQueueWithSupplement(
+      remainingPlayers, playingPlayers, courtCount, weights, allParticipants,
+      { ...options, maxConsecutiveGames: 0, minRest: 0 }
+    );
+    return {
+      queue: relaxed.queue,
+      warning: `人手不足：场上没有比赛，无法满足休息规则（${describeRestRules(options)}），已临时放宽规则排队`
+    };
+  };
+  
+  const groupCount = Math.min(targetQueueSize, Math.floor(queueCandidates.length / playersPerMatch));
+  if (groupCount === 0) {
+    return hasRestRules && playingPlayers.length === 0 && unrestrictedGroupCount > 0
+      ? relaxRules()
+      : { queue: [], warning: shortHandedWarning(0) };
+  }
+  
+  // 1. 按优先级逐组选出排队的人（与选择上场玩家的规则一致，每组优先选能满足组队模式、
+  //    禁止组合和固定搭档规则的4人），设置了休息规则时能早排的人优先
+  const sortedCandidates = [...queueCandidates].sort((a, b) => 
+    earliestGroup.get(a.id)! - earliestGroup.get(b.id)! ||
+    comparePlayerPriority(a, b, options.fairnessMode) || random() - 0.5
+  );
+  const queuedPlayers = selectPlayerGroups(sortedCandidates, groupCount, options);
+  
+  // 2. 整体分组，兼顾每一组的公平性、权重和多样性
+  //    有人需要多休息几组时按组依次选人，每组只从已经休息够的人中选
+  const matches = queuedPlayers.some(p => earliestGroup.get(p.id)! > 0)
+    ? groupByEarliestQueueGroup(queuedPlayers, groupCount, earliestGroup, weights, allParticipants, options)
+    : groupCount === 1
+      ? [findBestTeamMatchWithFallback(queuedPlayers, weights, allParticipants, options)]
+      : findBestGlobalAssignment(queuedPlayers, groupCount, weights, allParticipants, options);
+  
+  // 3. 优先级越高的组越靠前
+  const rank = new Map(sortedCandidates.map((p, index) => [p.id, index]));
+  const rankSum = (match: GameMatch) => 
+    [match.team1.player1, match.team1.player2, match.team2.player1, match.team2.player2]
+      .reduce((sum, id) => sum + (rank.get(id) ?? 0), 0);
+  
+  const ranked = matches
+    .filter((match): match is GameMatch => !!match)
+    .sort((a, b) => rankSum(a) - rankSum(b));
+  
+  // 4. 按休息规则调整顺序：每个位置放排名最靠前、且组内4人都已休息够的组，放不下的组不排队
+  const groupEarliest = (match: GameMatch) => Math.max(
+    ...[match.team1.player1, match.team1.player2, match.team2.player1, match.team2.player2]
+      .map(id => earliestGroup.get(id) ?? 0)
+  );
   const queue: GameMatch[] = [];
-  const usedPlayers = new Set<string>();
+  while (ranked.length > 0) {
+    const index = ranked.findIndex(match => groupEarliest(match) <= queue.length);
+    if (index < 0) break;
+    queue.push(ranked.splice(index, 1)[0]);
+  }
+  
+  if (queue.length === 0 && hasRestRules && playingPlayers.length === 0 && unrestrictedGroupCount > 0) {
+    return relaxRules();
+  }
   
-  for (let i = 0; i < targetQueueSize && queueCandidates.length - usedPlayers.size >= playersPerMatch; i++) {
-    // 从未使用的候选人中选择4人
-    const availableCandidates = queueCandidates.filter(p => !usedPlayers.has(p.id));
+  return { queue, warning: shortHandedWarning(queue.length) };
+}
+
+/**
+ * 按休息规则依次组成每一组：第 g 组只从最早能排在第 g 组及之前的人中选4人
+ * （与选择上场玩家的规则一致，固定搭档两人都休息够才一起排进这一组）
+ * 某一组凑不齐4人时停止，后面的组留到下次重新规划
+ */
+function groupByEarliestQueueGroup(
+  sortedPlayers: Participant[],
+  groupCount: number,
+  earliestGroup: Map<string, number>,
+  weights: Weight[],
+  allParticipants: Participant[],
+  options: ScoringOptions
+): (GameMatch | null)[] {
+  const matches: (GameMatch | null)[] = [];
+  const lockedPairs = getActiveLockedPairs(options.lockedPairs, sortedPlayers);
+  let remaining = [...sortedPlayers];
+  
+  for (let group = 0; group < groupCount; group++) {
+    const isReady = (id: string) => earliestGroup.get(id)! <= group;
+    const ready = remaining.filter(p => {
+      const partnerId = getLockedPartner(p.id, lockedPairs);
+      return isReady(p.id) && (!partnerId || isReady(partnerId));
+    });
+    if (ready.length < 4) break;
     
-    if (availableCandidates.length < playersPerMatch) {
-      break;
-    }
+    const picked = selectAllowedGroup(ready, getActiveLockedPairs(lockedPairs, ready), options);
+    matches.push(findBestTeamMatchWithFallback(picked, weights, allParticipants, options));
+    remaining = remaining.filter(p => !picked.includes(p));
+  }
+  
+  return matches;
+}
+
+/**
+ * 按休息规则计算玩家最早能排在等待队列的第几组（从0开始）
+ * 每结束一场比赛上场一组（场上没有比赛时，前几组直接安排到空场地）：
+ * 休息中的人到时已多休息这么多场，正在比赛的人要等自己这场结束才开始休息；按分钟计时以每场间隔折算
+ * 还没上过场的人不受最少休息限制
+ * @param player 玩家
+ * @param isPlaying 是否正在比赛
+ * @param idleCourts 不用等比赛结束就能直接上场的组数
+ * @param courtCount 场地数量
+ * @param groupLimit 队列组数，返回该值表示本次不能排队
+ * @param options 组队评分选项（包含休息规则）
+ * @param now 当前时间
+ */
+function getEarliestQueueGroup(
+  player: Participant,
+  isPlaying: boolean,
+  idleCourts: number,
+  courtCount: number,
+  groupLimit: number,
+  options: ScoringOptions,
+  now: Date
+): number {
+  const minRest = player.gamesPlayed > 0 || isPlaying ? options.minRest || 0 : 0;
+  const maxConsecutive = options.maxConsecutiveGames || 0;
+  // 多个场地同时进行时，平均每隔 MINUTES_PER_GAME / 场地数 分钟结束一场
+  const gap = MINUTES_PER_GAME / Math.max(1, courtCount);
+  const restedMinutes = !isPlaying && player.waitingSince
+    ? (now.getTime() - new Date(player.waitingSince).getTime()) / 60000
+    : 0;
+  const streak = (player.consecutiveGames || 0) + (isPlaying ? 1 : 0);
+  
+  for (let group = 0; group < groupLimit; group++) {
+    // 这一组上场前还会结束的比赛场数
+    const finishes = Math.max(0, group + 1 - idleCourts);
+    if (isPlaying && finishes === 0) continue;
     
-    // 选择最优的4人组合
-    const selectedPlayers = selectOptimalQueueGroup(availableCandidates, allParticipants, playersPerMatch);
+    const restGames = isPlaying ? finishes - 1 : player.restRounds + finishes;
+    const restMinutes = isPlaying ? (finishes - 1) * gap : restedMinutes + finishes * gap;
     
-    if (selectedPlayers.length === playersPerMatch) {
-      // 为这4个玩家生成最优队伍组合
-      const bestMatch = findBestTeamMatch(selectedPlayers, weights, allParticipants);
-      
-      if (bestMatch) {
-        queue.push(bestMatch);
-        
-        // 标记这些玩家为已使用
-        [bestMatch.team1.player1, bestMatch.team1.player2, 
-         bestMatch.team2.player1, bestMatch.team2.player2].forEach(id => usedPlayers.add(id));
-      }
-    }
+    // 连续上场达到上限的人必须先休息至少一场
+    if (maxConsecutive > 0 && streak >= maxConsecutive && restGames < 1) continue;
+    if (minRest > 0 && (options.minRestUnit === 'minutes' ? restMinutes : restGames) < minRest) continue;
+    
+    return group;
   }
   
-  return queue;
+  return groupLimit;
 }
 
 /**
- * 选择最优的队列组合（考虑公平性和多样性）
- * @param candidates 候选参与者
- * @param allParticipants 所有参与者
- * @param groupSize 组大小
- * @returns 选中的参与者
+ * 休息规则的文字说明
  */
-function selectOptimalQueueGroup(
-  candidates: Participant[], 
-  allParticipants: Participant[], 
-  groupSize: number
-): Participant[] {
-  if (candidates.length <= groupSize) {
-    return candidates.slice(0, groupSize);
+export function describeRestRules(options: Pick<ScoringOptions, 'maxConsecutiveGames' | 'minRest' | 'minRestUnit'>): string {
+  const rules: string[] = [];
+  if (options.maxConsecutiveGames) {
+    rules.push(`最多连续上场 ${options.maxConsecutiveGames} 场`);
   }
-  
-  // 优先选择游戏次数少、休息轮数多的组合
-  const sortedCandidates = [...candidates].sort((a, b) => {
-    // 首先按游戏次数排序（少的优先）
-    if (a.gamesPlayed !== b.gamesPlayed) {
-      return a.gamesPlayed - b.gamesPlayed;
-    }
-    // 然后按休息轮数排序（多的优先）
-    if (a.restRounds !== b.restRounds) {
-      return b.restRounds - a.restRounds;
-    }
-    return Math.random() - 0.5;
-  });
-  
-  return sortedCandidates.slice(0, groupSize);
+  if (options.minRest) {
+    rules.push(`两场之间至少休息 ${options.minRest} ${options.minRestUnit === 'minutes' ? '分钟' : '场'}`);
+  }
+  return rules.length > 0 ? rules.join('，') : '不限';
 }
 
 /**
@@ -661,20 +1573,17 @@ function calculateAssignmentStats(
   let weightMatches = 0;
   let totalWeights = weights.length;
   
-  for (const court of courts) {
-    if (court.team1 && court.team2) {
-      for (const weight of weights) {
-        if (weight.type === 'teammate') {
-          if (isTeammates(court.team1, weight.player1, weight.player2) ||
-              isTeammates(court.team2, weight.player1, weight.player2)) {
-            weightMatches++;
-          }
-        } else if (weight.type === 'opponent') {
-          if (isOpponents(court.team1, court.team2, weight.player1, weight.player2)) {
-            weightMatches++;
-          }
-        }
-      }
+  // 负权重（尽量避免）在整轮分配中没有出现即视为有效
+  for (const weight of weights) {
+    const matched = courts.some(court => {
+      if (!court.team1 || !court.team2) return false;
+      return weight.type === 'teammate'
+        ? isTeammates(court.team1, weight.player1, weight.player2) ||
+          isTeammates(court.team2, weight.player1, weight.player2)
+        : isOpponents(court.team1, court.team2, weight.player1, weight.player2);
+    });
+    if (matched === weight.weight > 0) {
+      weightMatches++;
     }
   }
   
@@ -708,6 +1617,7 @@ export function updatePlayerStats(
     if (player) {
       player.gamesPlayed++;
       player.restRounds = 0; // 重置休息轮数
+      player.consecutiveGames = (player.consecutiveGames || 0) + 1;
     }
   }
   
@@ -722,11 +1632,14 @@ export function updatePlayerStats(
     }
   }
   
-  // 更新其他参与者的休息轮数
+  // 更新其他参与者的休息轮数，没在场上的人连续上场场数清零
   for (const participant of participants) {
     if (!allPlayers.includes(participant.id) && participant.status !== 'away') {
       participant.restRounds++;
     }
+    if (!allPlayers.includes(participant.id) && participant.status !== 'playing') {
+      participant.consecutiveGames = 0;
+    }
   }
 }
 
@@ -761,27 +1674,80 @@ function updateOpponentStats(participants: Participant[], player1Id: string, pla
 }
 
 /**
- * 当比赛结束后，自动维护等待队列
+ * 从球局设置中读取组队评分选项
  * @param session 游戏会话
  */
-export function autoMaintainQueue(session: any): void {
-  // 首先更新所有非playing状态玩家的休息轮数
-  for (const participant of session.participants) {
-    if (participant.status === 'resting') {
-      // 休息中的玩家休息轮数+1（如果还没有在这轮更新过）
-      // 这个逻辑在updatePlayerStats中已经处理了
-    }
+export function getScoringOptions(session: GameSession): ScoringOptions {
+  return {
+    skillBalanceWeight: session.settings.skillBalanceWeight ?? 0,
+    pairingMode: session.settings.pairingMode ?? 'any',
+    fairnessMode: session.settings.fairnessMode ?? 'games',
+    queueDepth: session.settings.queueDepth ?? DEFAULT_QUEUE_DEPTH,
+    coefficients: resolveScoringCoefficients(session.settings.scoringCoefficients),
+    exclusions: session.exclusions || [],
+    lockedPairs: getActiveLockedPairs(session.lockedPairs, session.participants.filter(p => !p.hasLeft)),
+    maxConsecutiveGames: session.settings.maxConsecutiveGames ?? 0,
+    minRest: session.settings.minRest ?? 0,
+    minRestUnit: session.settings.minRestUnit ?? 'games',
+    // 待撤场的场地不再安排新比赛
+    courts: session.courts
+      .filter(court => !court.draining)
+      .map(court => ({ id: court.id, name: court.name, tier: court.tier }))
+  };
+}
+
+/**
+ * 为一次组队生成（或使用指定的）随机种子并记录到球局（只保留最近的记录），
+ * 返回带有该种子随机数源的组队评分选项
+ * @param session 游戏会话
+ * @param source 触发本次组队的操作
+ * @param seed 指定种子（用于重放），未指定时随机生成
+ */
+export function createSeededScoringOptions(
+  session: GameSession,
+  source: GenerationSource,
+  seed: number = generateSeed()
+): ScoringOptions {
+  if (!session.seedHistory) {
+    session.seedHistory = [];
   }
-  
-  // 使用新的通用队列生成逻辑
-  regenerateQueueWithSupplement(session);
+  session.seedHistory.push({
+    seed,
+    round: session.stats.currentRound,
+    source,
+    createdAt: new Date()
+  });
+  if (session.seedHistory.length > MAX_SEED_HISTORY) {
+    session.seedHistory.splice(0, session.seedHistory.length - MAX_SEED_HISTORY);
+  }
+
+  return {
+    ...getScoringOptions(session),
+    random: createRandom(seed)
+  };
 }
 
 /**
- * 重新生成等待队列，确保始终有两组，必要时从当前比赛者中补充
+ * 获取一组比赛中的4名选手
+ */
+export function getMatchPlayerIds(match: GameMatch): string[] {
+  return [match.team1.player1, match.team1.player2, match.team2.player1, match.team2.player2];
+}
+
+/**
+ * 重新生成等待队列，确保始终有设定的组数，必要时从当前比赛者中补充
+ * 管理员锁定的组保留在原位，其中的人不参与重新分组；组内有人已离开时解除锁定
+ * 按赛制维护队列见 queue-maintenance.ts 的 autoMaintainQueue
  * @param session 游戏会话
  */
-function regenerateQueueWithSupplement(session: any): void {
+export function regenerateQueueWithSupplement(session: any): void {
+  const isPresent = (id: string) => session.participants.some((p: any) => p.id === id && !p.hasLeft);
+  const lockedSlots: (GameMatch | null)[] = session.queue.map((match: GameMatch) =>
+    match.locked && getMatchPlayerIds(match).every(isPresent) ? match : null
+  );
+  const lockedMatches = lockedSlots.filter((match): match is GameMatch => !!match);
+  const lockedIds = new Set(lockedMatches.flatMap(getMatchPlayerIds));
+
   // 获取当前比赛的参与者
   const playingPlayers: any[] = [];
   for (const court of session.courts) {
@@ -792,39 +1758,62 @@ function regenerateQueueWithSupplement(session: any): void {
       ];
       for (const playerId of courtPlayers) {
         const player = session.participants.find((p: any) => p.id === playerId);
-        if (player) {
+        if (player && !lockedIds.has(playerId)) {
           playingPlayers.push(player);
         }
       }
     }
   }
   
-  // 获取休息中的参与者
-  const restingPlayers = session.participants.filter((p: any) => 
-    p.status === 'resting' && !p.hasLeft
-  );
-  
   // 清空当前队列，重新生成
   session.queue = [];
   
-  // 重置所有排队状态为休息状态
+  // 重置所有排队状态为休息状态（原来排队的人同样是候选人，不能被场上的人挤掉）
   for (const participant of session.participants) {
     if (participant.status === 'queued') {
       participant.status = 'resting';
     }
   }
   
-  // 使用新的队列生成逻辑
-  const newQueue = generateQueueWithSupplement(
+  // 获取休息中的参与者
+  const restingPlayers = session.participants.filter((p: any) => 
+    p.status === 'resting' && !p.hasLeft && !lockedIds.has(p.id)
+  );
+  
+  // 使用新的队列生成逻辑，锁定的组占用队列深度
+  const options = createSeededScoringOptions(session, 'queue');
+  const { queue: newQueue, warning } = generateQueueWithSupplement(
     restingPlayers,
     playingPlayers,
     session.settings.courtCount,
     session.weights || [],
-    session.participants
+    session.participants,
+    { ...options, queueDepth: Math.max((options.queueDepth ?? DEFAULT_QUEUE_DEPTH) - lockedMatches.length, 0) }
   );
   
-  // 更新会话队列
-  session.queue = newQueue;
+  // 更新会话队列：锁定的组留在原来的位置，新生成的组依次填入其余位置
+  const queue: GameMatch[] = [];
+  let next = 0;
+  for (const slot of lockedSlots) {
+    if (slot) {
+      queue.push(slot);
+    } else if (next < newQueue.length) {
+      queue.push(newQueue[next++]);
+    }
+  }
+  queue.push(...newQueue.slice(next));
+  session.queue = queue;
+  session.queueWarning = warning;
+
+  // 场上和等待队列中临时放宽规则的比赛
+  const courtMatches: GameMatch[] = session.courts
+    .filter((court: Court) => court.team1 && court.team2 && court.status === 'playing')
+    .map((court: Court) => ({ team1: court.team1!, team2: court.team2! }));
+  session.ruleWarning = describeRelaxedRules(
+    [...courtMatches, ...queue],
+    session.participants.filter((p: Participant) => !p.hasLeft && p.status !== 'away'),
+    options
+  );
   
   // 更新参与者状态：设置排队的人为queued状态
   for (const match of session.queue) {
@@ -975,6 +1964,22 @@ export function validateSessionIntegrity(session: any): {
     }
   }
   
+  // 检查权重、禁止组合和固定搭档
+  const pairRules: [string, { player1: string; player2: string }[]][] = [
+    ['权重', session.weights || []],
+    ['禁止组合规则', session.exclusions || []],
+    ['固定搭档', session.lockedPairs || []]
+  ];
+  for (const [label, rules] of pairRules) {
+    for (const rule of rules) {
+      for (const playerId of [rule.player1, rule.player2]) {
+        if (!allParticipantIds.has(playerId)) {
+          errors.push(`${label}中的玩家 ${playerId} 不在参与者列表中`);
+        }
+      }
+    }
+  }
+  
   return {
     isValid: errors.length === 0,
     errors
@@ -0,0 +1,283 @@
+/**
+ * 匹克球随机组队系统 - 参与者离开、返回与比赛中换人
+ *
+ * 参与者离开时记录时间和原因，不再参与排队；正在场上的参与者由管理员选择
+ * 提前结束这场比赛，或由休息中的人替换上场。返回后重新作为候选人排队。
+ * 受伤等情况也可以在比赛中途换人：被换下的人计入已上场的时长，不计场数；
+ * 替补从上场时起计时，比赛结束时计入场数和胜负。
+ * 彻底移除参与者时清理场地、队列、权重等所有引用。
+ */
+
+import { Court, GameMatch, GameSession, Participant } from './types';
+import { comparePlayerPriority, updatePlayerStats, violatesExclusions } from './algorithm';
+import { recordGameResult } from './game-results';
+import { recordCourtTime, recordPartialCourtTime } from './court-time';
+import { fillFreedCourt } from './courts';
+import { isScheduledFormat } from './schedule';
+
+/**
+ * 获取场地上的4名选手
+ */
+function getCourtPlayerIds(court: Court): string[] {
+  if (!court.team1 || !court.team2) return [];
+  return [court.team1.player1, court.team1.player2, court.team2.player1, court.team2.player2];
+}
+
+/**
+ * 查找参与者正在比赛的场地，不在场上时返回 undefined
+ */
+export function findPlayerCourt(session: GameSession, playerId: string): Court | undefined {
+  return session.courts.find(court =>
+    court.status === 'playing' && getCourtPlayerIds(court).includes(playerId)
+  );
+}
+
+/**
+ * 等待队列中是否有这名参与者
+ */
+export function isPlayerQueued(session: GameSession, playerId: string): boolean {
+  return session.queue.some(match =>
+    [match.team1.player1, match.team1.player2, match.team2.player1, match.team2.player2].includes(playerId)
+  );
+}
+
+/**
+ * 用 substituteId 替换比赛中的 playerId 后的对阵
+ */
+function replacePlayer(court: Court, playerId: string, substituteId: string): GameMatch {
+  const swap = (id: string) => id === playerId ? substituteId : id;
+  return {
+    team1: { player1: swap(court.team1!.player1), player2: swap(court.team1!.player2) },
+    team2: { player1: swap(court.team2!.player1), player2: swap(court.team2!.player2) },
+    courtId: court.id
+  };
+}
+
+/**
+ * 替补上场后是否会与自己的固定搭档分开（搭档已离开或暂时不在时不受约束）
+ */
+function splitsLockedPair(session: GameSession, match: GameMatch, substituteId: string): boolean {
+  const isPresent = (id: string) => session.participants.some(p => p.id === id && !p.hasLeft && p.status !== 'away');
+  const isTeammates = (player1: string, player2: string) => [match.team1, match.team2].some(team =>
+    [team.player1, team.player2].includes(player1) && [team.player1, team.player2].includes(player2)
+  );
+
+  return (session.lockedPairs || []).some(pair =>
+    (pair.player1 === substituteId || pair.player2 === substituteId) &&
+    isPresent(pair.player1) && isPresent(pair.player2) &&
+    !isTeammates(pair.player1, pair.player2)
+  );
+}
+
+/**
+ * 赛制是否支持换人：预排赛程和积分赛按赛程安排对阵、计算积分，不能换上赛程之外的人
+ */
+export function supportsSubstitution(session: GameSession): boolean {
+  return !isScheduledFormat(session.settings.format);
+}
+
+/**
+ * 是否已报名锦标赛队伍：锦标赛按队伍安排场地，队员不能替补到其他队伍的比赛中
+ */
+function isTournamentTeamMember(session: GameSession, playerId: string): boolean {
+  return session.settings.format === 'tournament' &&
+    !!session.tournament?.teams.some(team => team.player1 === playerId || team.player2 === playerId);
+}
+
+/**
+ * 为场上离开的选手挑选替补：只考虑不在场上的人，不在等待队列中的人优先
+ * （避免拆散排好的组），其次按上场优先级，并且不能违反禁止组合规则或拆开固定搭档
+ * 锦标赛只从没有报名队伍的人中挑选，不支持换人的赛制没有替补
+ * @returns 替补人选，没有合适的人时返回 undefined
+ */
+export function pickSubstitute(
+  session: GameSession,
+  court: Court,
+  playerId: string
+): Participant | undefined {
+  if (!supportsSubstitution(session)) {
+    return undefined;
+  }
+
+  const onCourt = new Set(session.courts.flatMap(getCourtPlayerIds));
+  const fairnessMode = session.settings.fairnessMode ?? 'games';
+
+  return session.participants
+    .filter(p => !p.hasLeft && p.status !== 'away' && !onCourt.has(p.id))
+    .filter(p => !isTournamentTeamMember(session, p.id))
+    .filter(p => {
+      const match = replacePlayer(court, playerId, p.id);
+      return !violatesExclusions(match, session.exclusions) && !splitsLockedPair(session, match, p.id);
+    })
+    .sort((a, b) =>
+      Number(isPlayerQueued(session, a.id)) - Number(isPlayerQueued(session, b.id)) ||
+      comparePlayerPriority(a, b, fairnessMode)
+    )[0];
+}
+
+/**
+ * 检查指定的替补能否换下场上的选手，可以时返回 undefined，否则返回错误信息
+ */
+export function validateSubstitute(
+  session: GameSession,
+  court: Court,
+  playerId: string,
+  substituteId: string
+): string | undefined {
+  if (!supportsSubstitution(session)) {
+    return '预排赛程和积分赛不支持换人';
+  }
+  const substitute = session.participants.find(p => p.id === substituteId);
+  if (!substitute) {
+    return '替补参与者不存在';
+  }
+  if (isTournamentTeamMember(session, substituteId)) {
+    return `${substitute.name} 已报名锦标赛队伍，不能替补其他队伍上场`;
+  }
+  if (substitute.hasLeft || substitute.status === 'away') {
+    return `${substitute.name} 不在场，不能替补上场`;
+  }
+  if (session.courts.some(c => c.status === 'playing' && getCourtPlayerIds(c).includes(substituteId))) {
+    return `${substitute.name} 正在场上比赛`;
+  }
+  const match = replacePlayer(court, playerId, substituteId);
+  if (violatesExclusions(match, session.exclusions)) {
+    return `换上 ${substitute.name} 会违反禁止组合规则`;
+  }
+  if (splitsLockedPair(session, match, substituteId)) {
+    return `换上 ${substitute.name} 会拆开固定搭档`;
+  }
+  return undefined;
+}
+
+/**
+ * 替补上场：替补接替被换下选手在场上的位置，比赛继续进行
+ * 被换下的人计入已上场的时长但不计场数，并且不算休息过；替补从现在起计时
+ * @param now 换人时间
+ */
+export function substituteOnCourt(
+  session: GameSession,
+  court: Court,
+  playerId: string,
+  substitute: Participant,
+  now: Date = new Date()
+): void {
+  recordPartialCourtTime(session, court, playerId, now);
+
+  const outgoing = session.participants.find(p => p.id === playerId);
+  if (outgoing) {
+    outgoing.status = 'resting';
+    outgoing.restRounds = 0;
+  }
+
+  const match = replacePlayer(court, playerId, substitute.id);
+  court.team1 = match.team1;
+  court.team2 = match.team2;
+
+  const { [playerId]: _, ...startTimes } = court.substituteStartTimes || {};
+  court.substituteStartTimes = { ...startTimes, [substitute.id]: now };
+  substitute.status = 'playing';
+}
+
+/**
+ * 提前结束场地上的比赛：不记比分，但计入场数和上场时长，
+ * 场地空出后按赛制安排下一场（等待队列或擂台赛挑战者），待撤场的场地直接撤掉
+ * 需要在离开的参与者标记为已离开之后调用，避免再次安排他上场
+ */
+export function finishCourtEarly(session: GameSession, court: Court): void {
+  if (!court.team1 || !court.team2) return;
+
+  const playerIds = getCourtPlayerIds(court);
+  recordGameResult(session, court);
+  recordCourtTime(session, court);
+  updatePlayerStats(session.participants, { team1: court.team1, team2: court.team2 });
+  session.stats.totalGamesPlayed += 1;
+
+  for (const participant of session.participants) {
+    if (playerIds.includes(participant.id)) {
+      participant.status = 'resting';
+    }
+  }
+
+  court.team1 = null;
+  court.team2 = null;
+  court.status = 'empty';
+  court.startTime = undefined;
+  fillFreedCourt(session, court);
+}
+
+/**
+ * 标记参与者离开，记录离开时间和原因
+ * 场上的比赛需要先替换或结束，等待队列需要之后重新规划
+ */
+export function markParticipantLeft(participant: Participant, reason?: string, now: Date = new Date()): void {
+  participant.hasLeft = true;
+  participant.leftAt = now;
+  participant.leftReason = reason;
+  participant.status = 'resting';
+  participant.consecutiveGames = 0;
+}
+
+/**
+ * 已离开的参与者返回球局，重新作为休息中的候选人排队
+ */
+export function markParticipantReturned(participant: Participant): void {
+  participant.hasLeft = false;
+  participant.leftAt = undefined;
+  participant.leftReason = undefined;
+  participant.status = 'resting';
+  participant.consecutiveGames = 0;
+}
+
+/**
+ * 从球局中彻底移除参与者并清理所有引用：场上由替补接替，没有替补时取消这场比赛；
+ * 删除涉及他的权重、禁止组合和固定搭档，并从积分赛名单和挑战者队列中移除。
+ * 等待队列需要之后重新规划
+ * @param scrubHistory 是否同时清除其他人队友、对手记录中的他
+ * @returns 受影响场地的说明
+ */
+export function removeParticipant(session: GameSession, participantId: string, scrubHistory = false): string[] {
+  const notes: string[] = [];
+  const court = findPlayerCourt(session, participantId);
+  const substitute = court ? pickSubstitute(session, court, participantId) : undefined;
+  if (court && substitute) {
+    substituteOnCourt(session, court, participantId, substitute);
+    notes.push(`${court.name || `场地 ${court.id}`}由 ${substitute.name} 替补上场`);
+  }
+
+  const involves = (item: { player1: string; player2: string }) =>
+    item.player1 === participantId || item.player2 === participantId;
+
+  session.participants = session.participants.filter(p => p.id !== participantId);
+  session.weights = session.weights.filter(weight => !involves(weight));
+  session.exclusions = session.exclusions?.filter(exclusion => !involves(exclusion));
+  session.lockedPairs = session.lockedPairs?.filter(pair => !involves(pair));
+  session.challengerQueue = session.challengerQueue?.filter(id => id !== participantId);
+  if (session.schedule) {
+    session.schedule.playerIds = session.schedule.playerIds.filter(id => id !== participantId);
+  }
+
+  // 没有替补时这场比赛取消，不计场数，其余三人回到休息
+  if (court && !substitute) {
+    for (const participant of session.participants) {
+      if (getCourtPlayerIds(court).includes(participant.id)) {
+        participant.status = 'resting';
+      }
+    }
+    court.team1 = null;
+    court.team2 = null;
+    court.status = 'empty';
+    court.startTime = undefined;
+    fillFreedCourt(session, court);
+    notes.push(`${court.name || `场地 ${court.id}`}缺人，比赛已取消`);
+  }
+
+  if (scrubHistory) {
+    for (const participant of session.participants) {
+      delete participant.teammates[participantId];
+      delete participant.opponents[participantId];
+    }
+  }
+
+  return notes;
+}
@@ -0,0 +1,105 @@
+/**
+ * 匹克球随机组队系统 - 上场与等待时长统计
+ *
+ * 记录每位参与者的累计上场分钟数、累计等待分钟数和最长一次等待，
+ * 供按时长计算公平性的模式使用。
+ */
+
+import { Court, GameSession, Participant } from './types';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * 计算两个时间之间的分钟数（保留一位小数）
+ */
+function minutesBetween(start: Date | string, end: Date): number {
+  const minutes = (end.getTime() - new Date(start).getTime()) / MS_PER_MINUTE;
+  return Math.max(0, Math.round(minutes * 10) / 10);
+}
+
+/**
+ * 选手在这场比赛中开始上场的时间：中途替补上场的人从替补时算起
+ * 场地上残留的更早的替补时间（上一场比赛的）不会早于本场开始时间
+ */
+function getPlayerStartTime(court: Court, playerId: string): Date | string | undefined {
+  const substituteStart = court.substituteStartTimes?.[playerId];
+  if (!court.startTime || !substituteStart) return court.startTime;
+  return new Date(substituteStart).getTime() > new Date(court.startTime).getTime()
+    ? substituteStart
+    : court.startTime;
+}
+
+/**
+ * 记录场地上刚结束比赛的上场时长
+ * 需要在清空场地之前调用
+ * @param session 游戏会话
+ * @param court 结束比赛的场地
+ * @param now 结束时间
+ */
+export function recordCourtTime(session: GameSession, court: Court, now: Date = new Date()): void {
+  if (!court.team1 || !court.team2 || !court.startTime) return;
+
+  const playerIds = [court.team1.player1, court.team1.player2, court.team2.player1, court.team2.player2];
+
+  for (const participant of session.participants) {
+    if (playerIds.includes(participant.id)) {
+      const minutes = minutesBetween(getPlayerStartTime(court, participant.id)!, now);
+      participant.courtMinutes = (participant.courtMinutes || 0) + minutes;
+    }
+  }
+}
+
+/**
+ * 记录比赛中途被换下的选手已经上场的时长
+ * 需要在把选手从场地上换下之前调用
+ * @param session 游戏会话
+ * @param court 选手所在的场地
+ * @param playerId 被换下的选手
+ * @param now 换人时间
+ */
+export function recordPartialCourtTime(
+  session: GameSession,
+  court: Court,
+  playerId: string,
+  now: Date = new Date()
+): void {
+  const start = getPlayerStartTime(court, playerId);
+  const participant = session.participants.find(p => p.id === playerId);
+  if (!start || !participant) return;
+
+  participant.courtMinutes = (participant.courtMinutes || 0) + minutesBetween(start, now);
+}
+
+/**
+ * 根据参与者当前状态同步等待计时
+ * 上场的参与者结束本次等待并累计，未上场的参与者开始计时，已离开的参与者停止计时
+ * 需要在参与者状态更新之后调用
+ * @param session 游戏会话
+ * @param now 当前时间
+ */
+export function syncWaitingTimes(session: GameSession, now: Date = new Date()): void {
+  for (const participant of session.participants) {
+    if (participant.hasLeft) {
+      participant.waitingSince = undefined;
+      continue;
+    }
+
+    if (participant.status === 'playing') {
+      if (participant.waitingSince) {
+        const waited = minutesBetween(participant.waitingSince, now);
+        participant.waitingMinutes = (participant.waitingMinutes || 0) + waited;
+        participant.longestWaitMinutes = Math.max(participant.longestWaitMinutes || 0, waited);
+        participant.waitingSince = undefined;
+      }
+    } else if (!participant.waitingSince) {
+      participant.waitingSince = now;
+    }
+  }
+}
+
+/**
+ * 获取参与者本次已等待的分钟数，未在等待时返回0
+ */
+export function getCurrentWaitMinutes(participant: Participant, now: Date = new Date()): number {
+  return participant.waitingSince ? minutesBetween(participant.waitingSince, now) : 0;
+}
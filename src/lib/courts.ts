@@ -0,0 +1,157 @@
+/**
+ * 匹克球随机组队系统 - 球局进行中增减场地
+ *
+ * 新增的场地按赛制立即安排比赛：轮换赛取等待队列中的下一组，擂台赛由队首挑战者上场，
+ * 锦标赛安排下一场可以开始的比赛；升降梯和积分赛从下一轮起使用新场地。
+ * 移除正在比赛的场地时先标记为待撤场，这场比赛照常打完，结束后不再安排新比赛并移除场地。
+ * 场地数（settings.courtCount）只计算不待撤场的场地，等待队列按新的场地数重新规划。
+ */
+
+import { Court, GameSession } from './types';
+import { takeQueuedMatchForCourt } from './algorithm';
+import { autoMaintainQueue } from './queue-maintenance';
+import { fillKingCourt, syncChallengerQueue } from './king-of-court';
+import { assignTournamentCourts } from './tournament';
+
+// 场地数的上限，与创建球局时的限制一致
+export const MAX_COURT_COUNT = 10;
+
+/**
+ * 获取场地上的4名选手
+ */
+function getCourtPlayerIds(court: Court): string[] {
+  if (!court.team1 || !court.team2) return [];
+  return [court.team1.player1, court.team1.player2, court.team2.player1, court.team2.player2];
+}
+
+/**
+ * 按不待撤场的场地更新场地数
+ */
+function syncCourtCount(session: GameSession): void {
+  session.settings.courtCount = session.courts.filter(court => !court.draining).length;
+}
+
+/**
+ * 新增一个场地并按赛制立即安排比赛，并按新的场地数重新规划等待队列
+ * @param session 游戏会话
+ * @param name 场地名称，未提供时使用默认名称
+ * @returns 新增的场地
+ */
+export function addCourt(session: GameSession, name?: string): Court {
+  const id = session.courts.reduce((max, court) => Math.max(max, court.id), 0) + 1;
+  const court: Court = {
+    id,
+    name: name || `场地 ${id}`,
+    team1: null,
+    team2: null,
+    status: 'empty'
+  };
+  session.courts.push(court);
+  syncCourtCount(session);
+
+  fillFreedCourt(session, court);
+
+  // 新场地安排好之后按新的场地数重新规划等待队列，补上被取走的组
+  // 之前的队列已经排空时新场地先空着，由管理员从新队列中安排下一组
+  autoMaintainQueue(session);
+
+  return court;
+}
+
+/**
+ * 移除场地：没有比赛的场地立即移除，正在比赛的场地标记为待撤场，比赛结束后移除
+ * 之后需要重新规划等待队列
+ * @returns 场地是否已立即移除
+ */
+export function removeCourt(session: GameSession, court: Court): boolean {
+  if (court.status === 'playing') {
+    court.draining = true;
+    syncCourtCount(session);
+    return false;
+  }
+
+  retireCourt(session, court);
+  return true;
+}
+
+/**
+ * 撤掉场地：场上的人回到休息（擂台赛排到挑战者队尾），并从球局中移除场地
+ * 需要在记录这场比赛的结果、更新参与者统计之后调用
+ */
+export function retireCourt(session: GameSession, court: Court): void {
+  const playerIds = getCourtPlayerIds(court);
+  for (const participant of session.participants) {
+    if (playerIds.includes(participant.id)) {
+      participant.status = 'resting';
+    }
+  }
+
+  session.courts = session.courts.filter(c => c.id !== court.id);
+  syncCourtCount(session);
+
+  if (session.settings.format === 'king-of-court') {
+    syncChallengerQueue(session, playerIds);
+  }
+}
+
+/**
+ * 比赛结束后，待撤场的场地直接撤掉
+ * @returns 场地是否已撤掉（未撤掉时由调用方照常安排下一场）
+ */
+export function retireIfDraining(session: GameSession, court: Court): boolean {
+  if (!court.draining) {
+    return false;
+  }
+  retireCourt(session, court);
+  return true;
+}
+
+/**
+ * 按赛制为空出的场地安排下一场（等待队列、擂台赛挑战者或锦标赛的下一场比赛），
+ * 待撤场的场地直接撤掉
+ */
+export function fillFreedCourt(session: GameSession, court: Court): void {
+  if (retireIfDraining(session, court)) {
+    return;
+  }
+
+  if (session.settings.format === 'king-of-court') {
+    court.streak = 0;
+    fillKingCourt(session, court);
+    return;
+  }
+
+  if (session.settings.format === 'tournament') {
+    assignTournamentCourts(session);
+    return;
+  }
+
+  // 包含已离开或仍在其他场地比赛的人的组不能上场
+  dropUnavailableQueuedMatches(session);
+  const nextMatch = takeQueuedMatchForCourt(session, court);
+  if (nextMatch) {
+    court.team1 = nextMatch.team1;
+    court.team2 = nextMatch.team2;
+    court.status = 'playing';
+    court.startTime = new Date();
+
+    const nextPlayerIds = getCourtPlayerIds(court);
+    for (const participant of session.participants) {
+      if (nextPlayerIds.includes(participant.id)) {
+        participant.status = 'playing';
+      }
+    }
+  }
+}
+
+/**
+ * 移除等待队列中包含已离开或仍在场上比赛的参与者的组
+ */
+function dropUnavailableQueuedMatches(session: GameSession): void {
+  const onCourt = new Set(session.courts.flatMap(getCourtPlayerIds));
+  const isAvailable = (id: string) =>
+    !onCourt.has(id) && session.participants.some(p => p.id === id && !p.hasLeft);
+  session.queue = session.queue.filter(match =>
+    [match.team1.player1, match.team1.player2, match.team2.player1, match.team2.player2].every(isAvailable)
+  );
+}
@@ -5,7 +5,7 @@
 
 import { Pool, PoolClient } from 'pg';
 import bcrypt from 'bcryptjs';
-import { User, GameSession } from './types';
+import { User, GameSession, PlayerRating, RatingHistoryEntry } from './types';
 
 // 数据库连接池
 let pool: Pool | null = null;
@@ -84,10 +84,41 @@ async function initializeDatabase() {
         )
       `);
 
+      // 创建选手评分表（跨球局持久化）
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS player_ratings (
+          player_name TEXT PRIMARY KEY,
+          rating DOUBLE PRECISION NOT NULL,
+          rating_deviation DOUBLE PRECISION NOT NULL,
+          games_rated INTEGER DEFAULT 0,
+          last_played_at TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // 创建评分历史表
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS rating_history (
+          id TEXT PRIMARY KEY,
+          player_name TEXT NOT NULL,
+          session_id TEXT NOT NULL,
+          game_id TEXT NOT NULL,
+          rating_before DOUBLE PRECISION NOT NULL,
+          rating_after DOUBLE PRECISION NOT NULL,
+          deviation_before DOUBLE PRECISION NOT NULL,
+          deviation_after DOUBLE PRECISION NOT NULL,
+          won BOOLEAN NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
       // 创建索引
       await client.query(`
         CREATE INDEX IF NOT EXISTS idx_sessions_created_by ON sessions(created_by);
       `);
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_rating_history_player_name ON rating_history(player_name);
+      `);
       await client.query(`
         CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth_sessions(user_id);
       `);
@@ -595,4 +626,151 @@ export async function updateUserLastLogin(userId: string): Promise<void> {
   } catch (error) {
     console.error('[PostgreSQL] 更新用户最后登录时间失败:', error);
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * 根据选手姓名获取评分
+ */
+export async function getPlayerRating(playerName: string): Promise<PlayerRating | null> {
+  const database = getDatabase();
+
+  try {
+    const result = await database.query(`
+      SELECT player_name, rating, rating_deviation, games_rated, last_played_at, updated_at
+      FROM player_ratings
+      WHERE player_name = $1
+    `, [playerName]);
+
+    if (result.rows.length === 0) return null;
+
+    return mapPlayerRatingRow(result.rows[0]);
+  } catch (error) {
+    console.error('[PostgreSQL] 获取选手评分失败:', error);
+    return null;
+  }
+}
+
+/**
+ * 获取所有选手评分
+ */
+export async function getAllPlayerRatings(): Promise<PlayerRating[]> {
+  const database = getDatabase();
+
+  try {
+    const result = await database.query(`
+      SELECT player_name, rating, rating_deviation, games_rated, last_played_at, updated_at
+      FROM player_ratings
+      ORDER BY rating DESC
+    `);
+
+    return result.rows.map(mapPlayerRatingRow);
+  } catch (error) {
+    console.error('[PostgreSQL] 获取所有选手评分失败:', error);
+    return [];
+  }
+}
+
+/**
+ * 保存选手评分
+ */
+export async function savePlayerRating(rating: PlayerRating): Promise<void> {
+  const database = getDatabase();
+
+  try {
+    await database.query(`
+      INSERT INTO player_ratings (player_name, rating, rating_deviation, games_rated, last_played_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (player_name)
+      DO UPDATE SET
+        rating = EXCLUDED.rating,
+        rating_deviation = EXCLUDED.rating_deviation,
+        games_rated = EXCLUDED.games_rated,
+        last_played_at = EXCLUDED.last_played_at,
+        updated_at = EXCLUDED.updated_at
+    `, [
+      rating.playerName,
+      rating.rating,
+      rating.ratingDeviation,
+      rating.gamesRated,
+      rating.lastPlayedAt || null,
+      rating.updatedAt
+    ]);
+  } catch (error) {
+    console.error('[PostgreSQL] 保存选手评分失败:', error);
+    throw error;
+  }
+}
+
+/**
+ * 添加评分历史记录
+ */
+export async function addRatingHistory(entry: RatingHistoryEntry): Promise<void> {
+  const database = getDatabase();
+
+  try {
+    await database.query(`
+      INSERT INTO rating_history (id, player_name, session_id, game_id, rating_before, rating_after, deviation_before, deviation_after, won, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `, [
+      entry.id,
+      entry.playerName,
+      entry.sessionId,
+      entry.gameId,
+      entry.ratingBefore,
+      entry.ratingAfter,
+      entry.deviationBefore,
+      entry.deviationAfter,
+      entry.won,
+      entry.createdAt
+    ]);
+  } catch (error) {
+    console.error('[PostgreSQL] 添加评分历史失败:', error);
+    throw error;
+  }
+}
+
+/**
+ * 获取选手的评分历史
+ */
+export async function getRatingHistory(playerName: string): Promise<RatingHistoryEntry[]> {
+  const database = getDatabase();
+
+  try {
+    const result = await database.query(`
+      SELECT id, player_name, session_id, game_id, rating_before, rating_after, deviation_before, deviation_after, won, created_at
+      FROM rating_history
+      WHERE player_name = $1
+      ORDER BY created_at ASC
+    `, [playerName]);
+
+    return result.rows.map(row => ({
+      id: row.id,
+      playerName: row.player_name,
+      sessionId: row.session_id,
+      gameId: row.game_id,
+      ratingBefore: row.rating_before,
+      ratingAfter: row.rating_after,
+      deviationBefore: row.deviation_before,
+      deviationAfter: row.deviation_after,
+      won: row.won,
+      createdAt: new Date(row.created_at)
+    }));
+  } catch (error) {
+    console.error('[PostgreSQL] 获取评分历史失败:', error);
+    return [];
+  }
+}
+
+/**
+ * 将评分表行转换为PlayerRating对象
+ */
+function mapPlayerRatingRow(row: any): PlayerRating {
+  return {
+    playerName: row.player_name,
+    rating: row.rating,
+    ratingDeviation: row.rating_deviation,
+    gamesRated: row.games_rated,
+    lastPlayedAt: row.last_played_at ? new Date(row.last_played_at) : undefined,
+    updatedAt: new Date(row.updated_at)
+  };
+}
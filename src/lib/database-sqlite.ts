@@ -5,7 +5,7 @@
 
 import Database from 'better-sqlite3';
 import bcrypt from 'bcryptjs';
-import { User, GameSession } from './types';
+import { User, GameSession, PlayerRating, RatingHistoryEntry } from './types';
 import path from 'path';
 
 // 数据库文件路径 - 生产环境使用 /app/data，开发环境使用 ./data
@@ -94,6 +94,34 @@ function initializeDatabase() {
     )
   `);
 
+  // 创建选手评分表（跨球局持久化）
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS player_ratings (
+      player_name TEXT PRIMARY KEY,
+      rating REAL NOT NULL,
+      rating_deviation REAL NOT NULL,
+      games_rated INTEGER DEFAULT 0,
+      last_played_at DATETIME,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // 创建评分历史表
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS rating_history (
+      id TEXT PRIMARY KEY,
+      player_name TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      game_id TEXT NOT NULL,
+      rating_before REAL NOT NULL,
+      rating_after REAL NOT NULL,
+      deviation_before REAL NOT NULL,
+      deviation_after REAL NOT NULL,
+      won BOOLEAN NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
   // 创建默认超级管理员账号
   createDefaultSuperAdmin();
 
@@ -491,4 +519,121 @@ export async function updateUserLastLogin(userId: string): Promise<void> {
     WHERE id = ?
   `);
   stmt.run(userId);
-} 
\ No newline at end of file
+} 
+
+/**
+ * 根据选手姓名获取评分
+ */
+export async function getPlayerRating(playerName: string): Promise<PlayerRating | null> {
+  const database = getDatabase();
+  const stmt = database.prepare(`
+    SELECT player_name, rating, rating_deviation, games_rated, last_played_at, updated_at
+    FROM player_ratings
+    WHERE player_name = ?
+  `);
+
+  const row = stmt.get(playerName) as any;
+  if (!row) return null;
+
+  return mapPlayerRatingRow(row);
+}
+
+/**
+ * 获取所有选手评分
+ */
+export async function getAllPlayerRatings(): Promise<PlayerRating[]> {
+  const database = getDatabase();
+  const stmt = database.prepare(`
+    SELECT player_name, rating, rating_deviation, games_rated, last_played_at, updated_at
+    FROM player_ratings
+    ORDER BY rating DESC
+  `);
+
+  const rows = stmt.all() as any[];
+  return rows.map(mapPlayerRatingRow);
+}
+
+/**
+ * 保存选手评分
+ */
+export async function savePlayerRating(rating: PlayerRating): Promise<void> {
+  const database = getDatabase();
+  const stmt = database.prepare(`
+    INSERT OR REPLACE INTO player_ratings (player_name, rating, rating_deviation, games_rated, last_played_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  stmt.run(
+    rating.playerName,
+    rating.rating,
+    rating.ratingDeviation,
+    rating.gamesRated,
+    rating.lastPlayedAt ? new Date(rating.lastPlayedAt).toISOString() : null,
+    new Date(rating.updatedAt).toISOString()
+  );
+}
+
+/**
+ * 添加评分历史记录
+ */
+export async function addRatingHistory(entry: RatingHistoryEntry): Promise<void> {
+  const database = getDatabase();
+  const stmt = database.prepare(`
+    INSERT INTO rating_history (id, player_name, session_id, game_id, rating_before, rating_after, deviation_before, deviation_after, won, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  stmt.run(
+    entry.id,
+    entry.playerName,
+    entry.sessionId,
+    entry.gameId,
+    entry.ratingBefore,
+    entry.ratingAfter,
+    entry.deviationBefore,
+    entry.deviationAfter,
+    entry.won ? 1 : 0,
+    new Date(entry.createdAt).toISOString()
+  );
+}
+
+/**
+ * 获取选手的评分历史
+ */
+export async function getRatingHistory(playerName: string): Promise<RatingHistoryEntry[]> {
+  const database = getDatabase();
+  const stmt = database.prepare(`
+    SELECT id, player_name, session_id, game_id, rating_before, rating_after, deviation_before, deviation_after, won, created_at
+    FROM rating_history
+    WHERE player_name = ?
+    ORDER BY created_at ASC
+  `);
+
+  const rows = stmt.all(playerName) as any[];
+  return rows.map(row => ({
+    id: row.id,
+    playerName: row.player_name,
+    sessionId: row.session_id,
+    gameId: row.game_id,
+    ratingBefore: row.rating_before,
+    ratingAfter: row.rating_after,
+    deviationBefore: row.deviation_before,
+    deviationAfter: row.deviation_after,
+    won: Boolean(row.won),
+    createdAt: new Date(row.created_at)
+  }));
+}
+
+/**
+ * 将评分表行转换为PlayerRating对象
+ */
+function mapPlayerRatingRow(row: any): PlayerRating {
+  return {
+    playerName: row.player_name,
+    rating: row.rating,
+    ratingDeviation: row.rating_deviation,
+    gamesRated: row.games_rated,
+    lastPlayedAt: row.last_played_at ? new Date(row.last_played_at) : undefined,
+    updatedAt: new Date(row.updated_at)
+  };
+}
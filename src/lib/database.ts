@@ -2,7 +2,7 @@
  * 数据库适配器 - 根据环境选择PostgreSQL或SQLite
  */
 
-import { User, GameSession } from './types';
+import { User, GameSession, PlayerRating, RatingHistoryEntry } from './types';
 
 // 根据环境变量选择数据库实现
 const usePostgreSQL = process.env.DATABASE_URL && process.env.NODE_ENV === 'production';
@@ -118,6 +118,31 @@ export async function updateUserLastLogin(userId: string): Promise<void> {
   return await db.updateUserLastLogin(userId);
 }
 
+export async function getPlayerRating(playerName: string): Promise<PlayerRating | null> {
+  const db = await getDbModule();
+  return await db.getPlayerRating(playerName);
+}
+
+export async function getAllPlayerRatings(): Promise<PlayerRating[]> {
+  const db = await getDbModule();
+  return await db.getAllPlayerRatings();
+}
+
+export async function savePlayerRating(rating: PlayerRating): Promise<void> {
+  const db = await getDbModule();
+  return await db.savePlayerRating(rating);
+}
+
+export async function addRatingHistory(entry: RatingHistoryEntry): Promise<void> {
+  const db = await getDbModule();
+  return await db.addRatingHistory(entry);
+}
+
+export async function getRatingHistory(playerName: string): Promise<RatingHistoryEntry[]> {
+  const db = await getDbModule();
+  return await db.getRatingHistory(playerName);
+}
+
 export async function closeDatabase(): Promise<void> {
   const db = await getDbModule();
   if (db.closeDatabase) {
@@ -0,0 +1,165 @@
+/**
+ * 匹克球随机组队系统 - 比赛结果记录
+ *
+ * 负责比分校验、比赛结果存档以及参与者胜负统计
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Court, GameResult, GameScore, GameSession, Participant } from './types';
+
+// 常见的匹克球获胜分数
+export const WINNING_SCORES = [11, 15, 21];
+
+// 获胜所需的最少领先分数
+const WIN_BY = 2;
+
+/**
+ * 校验比分是否符合匹克球获胜条件（打到11/15/21分，领先2分获胜）
+ * @param score 比分
+ * @param pointsToWin 指定的获胜分数，未指定时接受任一常见获胜分数
+ * @returns 校验结果
+ */
+export function validateGameScore(
+  score: GameScore,
+  pointsToWin?: number
+): { valid: boolean; error?: string } {
+  if (!score || typeof score !== 'object') {
+    return { valid: false, error: '比分格式无效' };
+  }
+
+  const { team1, team2 } = score;
+  if (!Number.isInteger(team1) || !Number.isInteger(team2) || team1 < 0 || team2 < 0) {
+    return { valid: false, error: '比分必须是非负整数' };
+  }
+
+  if (team1 === team2) {
+    return { valid: false, error: '比分不能打平' };
+  }
+
+  const winnerPoints = Math.max(team1, team2);
+  const loserPoints = Math.min(team1, team2);
+  const targets = pointsToWin ? [pointsToWin] : WINNING_SCORES;
+
+  const matchesTarget = targets.some(target =>
+    // 正常获胜：打到目标分且领先至少2分
+    (winnerPoints === target && winnerPoints - loserPoints >= WIN_BY) ||
+    // 加分局：超过目标分时必须恰好领先2分
+    (winnerPoints > target && winnerPoints - loserPoints === WIN_BY)
+  );
+
+  if (!matchesTarget) {
+    return {
+      valid: false,
+      error: `比分不符合获胜条件（打到${targets.join('/')}分，需领先${WIN_BY}分）`
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 校验积分赛（Americano / Mexicano）比分：双方得分分别计入个人积分，允许打平
+ * @param score 比分
+ * @param pointsPerMatch 每场总分，指定时双方得分之和必须等于该值
+ * @returns 校验结果
+ */
+export function validatePointsScore(
+  score: GameScore,
+  pointsPerMatch?: number
+): { valid: boolean; error?: string } {
+  if (!score || typeof score !== 'object') {
+    return { valid: false, error: '比分格式无效' };
+  }
+
+  const { team1, team2 } = score;
+  if (!Number.isInteger(team1) || !Number.isInteger(team2) || team1 < 0 || team2 < 0) {
+    return { valid: false, error: '比分必须是非负整数' };
+  }
+
+  if (pointsPerMatch && team1 + team2 !== pointsPerMatch) {
+    return { valid: false, error: `双方得分之和必须是${pointsPerMatch}分` };
+  }
+
+  if (team1 + team2 === 0) {
+    return { valid: false, error: '比分不能都是0' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 根据比分判断获胜队伍
+ */
+export function getWinner(score: GameScore): 'team1' | 'team2' {
+  return score.team1 > score.team2 ? 'team1' : 'team2';
+}
+
+/**
+ * 记录场地上刚结束的比赛结果，并更新参与者胜负统计
+ * 需要在清空场地之前调用
+ * @param session 游戏会话
+ * @param court 结束比赛的场地
+ * @param score 比分（可选）
+ * @returns 比赛结果记录，场地没有比赛时返回null
+ */
+export function recordGameResult(
+  session: GameSession,
+  court: Court,
+  score?: GameScore
+): GameResult | null {
+  if (!court.team1 || !court.team2) {
+    return null;
+  }
+
+  const result: GameResult = {
+    id: uuidv4(),
+    courtId: court.id,
+    team1: { ...court.team1 },
+    team2: { ...court.team2 },
+    startTime: court.startTime,
+    endTime: new Date()
+  };
+
+  if (score) {
+    result.score = { team1: score.team1, team2: score.team2 };
+    // 积分赛允许打平，平局没有获胜队伍
+    if (score.team1 !== score.team2) {
+      result.winner = getWinner(score);
+    }
+    updateWinLossStats(session.participants, result);
+  }
+
+  if (!session.results) {
+    session.results = [];
+  }
+  session.results.push(result);
+
+  return result;
+}
+
+/**
+ * 更新参与者的胜负场和净胜分
+ */
+function updateWinLossStats(participants: Participant[], result: GameResult): void {
+  if (!result.score || !result.winner) return;
+
+  const team1Players = [result.team1.player1, result.team1.player2];
+  const team2Players = [result.team2.player1, result.team2.player2];
+  const team1Differential = result.score.team1 - result.score.team2;
+
+  for (const participant of participants) {
+    const isTeam1 = team1Players.includes(participant.id);
+    const isTeam2 = team2Players.includes(participant.id);
+    if (!isTeam1 && !isTeam2) continue;
+
+    const won = (isTeam1 && result.winner === 'team1') || (isTeam2 && result.winner === 'team2');
+    if (won) {
+      participant.wins = (participant.wins || 0) + 1;
+    } else {
+      participant.losses = (participant.losses || 0) + 1;
+    }
+
+    const differential = isTeam1 ? team1Differential : -team1Differential;
+    participant.pointDifferential = (participant.pointDifferential || 0) + differential;
+  }
+}
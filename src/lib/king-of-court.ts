@@ -0,0 +1,218 @@
+/**
+ * 匹克球随机组队系统 - 擂台赛（赢家留场）
+ *
+ * 每场比赛结束后获胜队伍留在场上守擂，输方两人排到挑战者队列末尾，
+ * 由队首的两名挑战者组队上场。可设置连胜上限，达到上限后守擂队伍也拆开下场排队。
+ */
+
+import { Court, GameSession, Team } from './types';
+import { comparePlayerPriority } from './algorithm';
+
+// 连胜上限的取值范围，0 表示不限
+export const MAX_KING_STREAK_LIMIT = 10;
+
+// 为队首挑战者挑选搭档时考虑的排队人数，避免输方两人总是一起回来
+const PARTNER_LOOKAHEAD = 3;
+
+/**
+ * 同步挑战者队列：保留已有的排队顺序，移除已离开或已上场的人，
+ * 未排队的参与者按上场优先级补到队尾
+ * @param session 游戏会话
+ * @param appendLast 需要排在最后的参与者（如刚输球下场的人）
+ */
+export function syncChallengerQueue(session: GameSession, appendLast: string[] = []): void {
+  const onCourt = getOnCourtPlayerIds(session);
+  const isWaiting = (id: string) => {
+    const participant = session.participants.find(p => p.id === id);
+    return !!participant && !participant.hasLeft && !onCourt.has(id);
+  };
+
+  const line = (session.challengerQueue || []).filter(id => isWaiting(id) && !appendLast.includes(id));
+
+  const fairnessMode = session.settings.fairnessMode ?? 'games';
+  const missing = session.participants
+    .filter(p => isWaiting(p.id) && !line.includes(p.id) && !appendLast.includes(p.id))
+    .sort((a, b) => comparePlayerPriority(a, b, fairnessMode));
+
+  session.challengerQueue = [
+    ...line,
+    ...missing.map(p => p.id),
+    ...appendLast.filter(isWaiting)
+  ];
+
+  // 擂台赛不使用分组等待队列
+  session.queue = [];
+
+  for (const participant of session.participants) {
+    if (session.challengerQueue.includes(participant.id)) {
+      participant.status = 'queued';
+    }
+  }
+}
+
+/**
+ * 比赛结束后轮换擂台：赢家留场（达到连胜上限时拆开下场），输家排到队尾，队首挑战者上场
+ * 需要在记录比赛结果、更新参与者统计之后调用
+ * @param session 游戏会话
+ * @param court 结束比赛的场地
+ * @param winner 获胜队伍
+ * @returns 守擂队伍的连胜场数，以及是否因达到上限而拆开
+ */
+export function rotateKingOfCourt(
+  session: GameSession,
+  court: Court,
+  winner: 'team1' | 'team2'
+): { streak: number; split: boolean } {
+  if (!court.team1 || !court.team2) {
+    return { streak: 0, split: false };
+  }
+
+  const winners: Team = { ...court[winner]! };
+  const losers: Team = { ...court[winner === 'team1' ? 'team2' : 'team1']! };
+
+  // 守擂队伍固定放在 team1，挑战成功时连胜从1开始计算
+  const streak = winner === 'team1' ? (court.streak || 0) + 1 : 1;
+  const limit = session.settings.kingStreakLimit ?? 0;
+  const winnersPresent = [winners.player1, winners.player2].every(id =>
+    session.participants.some(p => p.id === id && !p.hasLeft)
+  );
+  const split = (limit > 0 && streak >= limit) || !winnersPresent;
+
+  court.team1 = null;
+  court.team2 = null;
+  court.status = 'empty';
+  court.startTime = undefined;
+  court.streak = 0;
+
+  // 输方排到队尾；拆开的守擂队伍排在输方之后
+  const leaving = [losers.player1, losers.player2];
+  if (split) {
+    leaving.push(winners.player1, winners.player2);
+  }
+  syncChallengerQueue(session, leaving);
+
+  // 留场的守擂队伍不进入挑战者队列
+  const line = split
+    ? session.challengerQueue!
+    : session.challengerQueue!.filter(id => id !== winners.player1 && id !== winners.player2);
+  session.challengerQueue = line;
+  const holders = split ? takeChallengerTeam(session, line) : winners;
+  const challengers = holders ? takeChallengerTeam(session, line) : null;
+
+  if (holders && challengers) {
+    court.team1 = holders;
+    court.team2 = challengers;
+    court.status = 'playing';
+    court.startTime = new Date();
+    court.streak = split ? 0 : streak;
+  } else if (holders) {
+    // 人数不足开不了新比赛，守擂队伍（或已取出的挑战者）回到队首
+    line.unshift(holders.player1, holders.player2);
+  }
+
+  const playingIds = court.team1 && court.team2
+    ? [court.team1.player1, court.team1.player2, court.team2.player1, court.team2.player2]
+    : [];
+  for (const participant of session.participants) {
+    if (playingIds.includes(participant.id)) {
+      participant.status = 'playing';
+    } else if (line.includes(participant.id)) {
+      participant.status = 'queued';
+    }
+  }
+
+  return { streak, split };
+}
+
+/**
+ * 为擂台赛中的空场地安排队首的两支挑战者队伍
+ * @param session 游戏会话
+ * @param court 空场地
+ * @returns 是否成功开始新比赛
+ */
+export function fillKingCourt(session: GameSession, court: Court): boolean {
+  syncChallengerQueue(session);
+
+  const line = session.challengerQueue!;
+  const team1 = takeChallengerTeam(session, line);
+  const team2 = team1 ? takeChallengerTeam(session, line) : null;
+
+  if (!team1 || !team2) {
+    if (team1) {
+      line.unshift(team1.player1, team1.player2);
+    }
+    return false;
+  }
+
+  court.team1 = team1;
+  court.team2 = team2;
+  court.status = 'playing';
+  court.startTime = new Date();
+  court.streak = 0;
+
+  const playingIds = [team1.player1, team1.player2, team2.player1, team2.player2];
+  for (const participant of session.participants) {
+    if (playingIds.includes(participant.id)) {
+      participant.status = 'playing';
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 从挑战者队首取出一支队伍：队首的人与其固定搭档组队，
+ * 没有固定搭档时从靠前的几个人中挑选搭档次数最少的人组队
+ */
+function takeChallengerTeam(session: GameSession, line: string[]): Team | null {
+  if (line.length < 2) {
+    return null;
+  }
+
+  const first = line[0];
+  const lockedPairs = session.lockedPairs || [];
+  const lockedPartnerOf = (id: string) => {
+    const pair = lockedPairs.find(p => p.player1 === id || p.player2 === id);
+    return pair ? (pair.player1 === id ? pair.player2 : pair.player1) : undefined;
+  };
+  const excludedAsTeammates = (a: string, b: string) => (session.exclusions || []).some(e =>
+    e.type !== 'opponent' &&
+    ((e.player1 === a && e.player2 === b) || (e.player1 === b && e.player2 === a))
+  );
+
+  const lockedPartner = lockedPartnerOf(first);
+  let partner = lockedPartner && line.includes(lockedPartner) ? lockedPartner : undefined;
+  if (!partner) {
+    const teammates = session.participants.find(p => p.id === first)?.teammates || {};
+    const candidates = line.slice(1)
+      .filter(id => {
+        const otherPartner = lockedPartnerOf(id);
+        return (!otherPartner || !line.includes(otherPartner)) && !excludedAsTeammates(first, id);
+      })
+      .slice(0, PARTNER_LOOKAHEAD);
+    partner = candidates.reduce<string | undefined>((best, id) =>
+      best === undefined || (teammates[id] || 0) < (teammates[best] || 0) ? id : best
+    , undefined) ?? line[1];
+  }
+
+  line.splice(line.indexOf(first), 1);
+  line.splice(line.indexOf(partner), 1);
+
+  return { player1: first, player2: partner };
+}
+
+/**
+ * 当前正在场上比赛的参与者
+ */
+function getOnCourtPlayerIds(session: GameSession): Set<string> {
+  const ids = new Set<string>();
+  for (const court of session.courts) {
+    if (court.team1 && court.team2 && court.status === 'playing') {
+      ids.add(court.team1.player1);
+      ids.add(court.team1.player2);
+      ids.add(court.team2.player1);
+      ids.add(court.team2.player2);
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,190 @@
+/**
+ * 匹克球随机组队系统 - 升降梯（Up and down the river）
+ *
+ * 场地按编号排出高低：编号最小的是最高级场地。每轮所有场地同时结束后统一轮换：
+ * 赢家升一级场地、输家降一级场地，最高级的赢家和最低级的输家留在原场地。
+ * 来到同一场地的两对搭档拆开，分别与另一对中的一人组队。
+ */
+
+import { Court, GameSession, Participant, Team } from './types';
+import { comparePlayerPriority, getPlayerSkill } from './algorithm';
+
+/**
+ * 按级别从高到低排列的场地（编号越小级别越高）
+ */
+export function getLadderCourts(session: GameSession): Court[] {
+  return [...session.courts].sort((a, b) => a.id - b.id);
+}
+
+/**
+ * 开始升降梯：上场优先级高的人上场，按实力从高到低依次放到高级别场地
+ * 同一场地内实力第1、4名对阵第2、3名
+ * @param session 游戏会话
+ * @returns 开始比赛的场地数
+ */
+export function startLadder(session: GameSession): number {
+  const fairnessMode = session.settings.fairnessMode ?? 'games';
+  const courts = getLadderCourts(session);
+  const candidates = session.participants
+    .filter(p => !p.hasLeft)
+    .sort((a, b) => comparePlayerPriority(a, b, fairnessMode));
+
+  const courtCount = Math.min(courts.length, Math.floor(candidates.length / 4));
+  const players = candidates
+    .slice(0, courtCount * 4)
+    .sort((a, b) => getPlayerSkill(b) - getPlayerSkill(a));
+
+  for (const court of courts) {
+    clearCourt(court);
+  }
+
+  for (let i = 0; i < courtCount; i++) {
+    const [p1, p2, p3, p4] = players.slice(i * 4, i * 4 + 4);
+    startCourt(courts[i], { player1: p1.id, player2: p4.id }, { player1: p2.id, player2: p3.id });
+  }
+
+  updateLadderStatuses(session);
+  session.queue = [];
+  session.stats.currentRound += 1;
+
+  return courtCount;
+}
+
+/**
+ * 整轮轮换：赢家升一级、输家降一级，来到同一场地的两对搭档拆开重新组队
+ * 有人轮空时，最低级场地的输家下场休息，由休息最久的两人补上
+ * 需要在记录所有场地的比赛结果、更新参与者统计之后调用
+ * @param session 游戏会话
+ * @param results 各场地的获胜队伍 - courtId: 获胜队伍
+ * @returns 开始比赛的场地数
+ */
+export function rotateLadder(
+  session: GameSession,
+  results: Record<number, 'team1' | 'team2'>
+): number {
+  const courts = getLadderCourts(session);
+  const fairnessMode = session.settings.fairnessMode ?? 'games';
+
+  // 每个场地的赢家和输家
+  const outcomes = courts.map(court => {
+    const winner = results[court.id];
+    if (!court.team1 || !court.team2 || !winner) {
+      return null;
+    }
+    return {
+      winners: { ...court[winner]! },
+      losers: { ...court[winner === 'team1' ? 'team2' : 'team1']! }
+    };
+  });
+
+  const onCourt = new Set(
+    outcomes.flatMap(o => o ? [o.winners.player1, o.winners.player2, o.losers.player1, o.losers.player2] : [])
+  );
+  const bench = session.participants
+    .filter(p => !p.hasLeft && !onCourt.has(p.id))
+    .sort((a, b) => comparePlayerPriority(a, b, fairnessMode))
+    .map(p => p.id);
+
+  const last = courts.length - 1;
+  const arrivals: Array<[Team | null, Team | null]> = courts.map((_, k) => {
+    const fromAbove = k === 0 ? outcomes[0]?.winners : outcomes[k - 1]?.losers;
+    const fromBelow = k === last ? outcomes[last]?.losers : outcomes[k + 1]?.winners;
+    return [fromAbove ?? null, fromBelow ?? null];
+  });
+
+  // 有人在休息时，最低级场地的输家下场，由休息最久的两人补上
+  const bottomLosers = outcomes[last]?.losers;
+  if (bottomLosers && bench.length >= 2) {
+    arrivals[last][1] = { player1: bench.shift()!, player2: bench.shift()! };
+    bench.push(bottomLosers.player1, bottomLosers.player2);
+  }
+
+  for (const court of courts) {
+    clearCourt(court);
+  }
+
+  courts.forEach((court, k) => {
+    // 已离开的人由休息中的人替补，空位（该场地本轮没有比赛）同样从休息的人中补齐
+    const players = arrivals[k]
+      .flatMap(team => team ? [team.player1, team.player2] : [null, null])
+      .map(id => id && isPresent(session, id) ? id : (bench.shift() ?? null));
+
+    if (players.some(id => id === null)) {
+      bench.unshift(...players.filter((id): id is string => id !== null));
+      return;
+    }
+
+    const [a1, a2, b1, b2] = players as string[];
+    const [team1, team2] = splitPartners(session.participants, [a1, a2], [b1, b2]);
+    startCourt(court, team1, team2);
+  });
+
+  updateLadderStatuses(session);
+  session.queue = [];
+  session.stats.currentRound += 1;
+
+  return courts.filter(court => court.status === 'playing').length;
+}
+
+/**
+ * 拆开来到同一场地的两对搭档：每人与另一对中的一人组队，
+ * 两种拆法中选此前搭档次数更少的一种
+ */
+function splitPartners(participants: Participant[], pairA: string[], pairB: string[]): [Team, Team] {
+  const teammateCount = (x: string, y: string) =>
+    participants.find(p => p.id === x)?.teammates[y] || 0;
+
+  const straight = teammateCount(pairA[0], pairB[0]) + teammateCount(pairA[1], pairB[1]);
+  const crossed = teammateCount(pairA[0], pairB[1]) + teammateCount(pairA[1], pairB[0]);
+
+  return crossed < straight
+    ? [{ player1: pairA[0], player2: pairB[1] }, { player1: pairA[1], player2: pairB[0] }]
+    : [{ player1: pairA[0], player2: pairB[0] }, { player1: pairA[1], player2: pairB[1] }];
+}
+
+/**
+ * 参与者是否仍在球局中（未离开）
+ */
+function isPresent(session: GameSession, playerId: string): boolean {
+  return session.participants.some(p => p.id === playerId && !p.hasLeft);
+}
+
+/**
+ * 清空场地
+ */
+function clearCourt(court: Court): void {
+  court.team1 = null;
+  court.team2 = null;
+  court.status = 'empty';
+  court.startTime = undefined;
+}
+
+/**
+ * 在场地上开始一场比赛
+ */
+function startCourt(court: Court, team1: Team, team2: Team): void {
+  court.team1 = team1;
+  court.team2 = team2;
+  court.status = 'playing';
+  court.startTime = new Date();
+}
+
+/**
+ * 场上的人设为比赛中，其余未离开的人设为休息
+ */
+function updateLadderStatuses(session: GameSession): void {
+  const playingIds = new Set<string>();
+  for (const court of session.courts) {
+    if (court.team1 && court.team2) {
+      playingIds.add(court.team1.player1);
+      playingIds.add(court.team1.player2);
+      playingIds.add(court.team2.player1);
+      playingIds.add(court.team2.player2);
+    }
+  }
+
+  for (const participant of session.participants) {
+    if (participant.hasLeft) continue;
+    participant.status = playingIds.has(participant.id) ? 'playing' : 'resting';
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * 匹克球随机组队系统 - 迟到补记
+ *
+ * 比赛开始后才加入的参与者场数为 0，按优先级会连续上场直到追平其他人。
+ * 按球局设置的策略给新参与者补记场数和上场分钟数，补记只影响上场优先级，
+ * 不计入真实的比赛场数和上场时长。
+ */
+
+import { GameSession, LateJoinPolicy, Participant } from './types';
+
+export const LATE_JOIN_POLICIES: LateJoinPolicy[] = ['none', 'minimum', 'average', 'prorated'];
+
+export const LATE_JOIN_POLICY_LABELS: Record<LateJoinPolicy, string> = {
+  none: '不补记',
+  minimum: '追平当前最少场数',
+  average: '按平均场数',
+  prorated: '按缺席时长折算'
+};
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * 排优先级时使用的场数（真实场数 + 迟到补记）
+ */
+export function getEffectiveGamesPlayed(participant: Participant): number {
+  return participant.gamesPlayed + (participant.catchUpGames || 0);
+}
+
+/**
+ * 排优先级时使用的上场分钟数（真实分钟数 + 迟到补记）
+ */
+export function getEffectiveCourtMinutes(participant: Participant): number {
+  return (participant.courtMinutes || 0) + (participant.catchUpMinutes || 0);
+}
+
+/**
+ * 获取比赛开始的时间（最早一场比赛的开始时间），还没有比赛时返回 undefined
+ */
+function getPlayStartTime(session: GameSession): Date | undefined {
+  const startTimes = [
+    ...(session.results || []).map(result => result.startTime || result.endTime),
+    ...session.courts.map(court => court.startTime)
+  ]
+    .filter((time): time is Date => !!time)
+    .map(time => new Date(time).getTime());
+
+  return startTimes.length > 0 ? new Date(Math.min(...startTimes)) : undefined;
+}
+
+/**
+ * 按策略汇总其他参与者的数值
+ * @param values 每位参与者的数值和在场分钟数
+ * @param missedMinutes 新参与者错过的分钟数（按时长折算时使用）
+ */
+function aggregate(
+  policy: LateJoinPolicy,
+  values: { value: number; presentMinutes: number }[],
+  missedMinutes: number
+): number {
+  if (values.length === 0 || policy === 'none') return 0;
+
+  if (policy === 'minimum') {
+    return Math.min(...values.map(v => v.value));
+  }
+
+  if (policy === 'average') {
+    return values.reduce((sum, v) => sum + v.value, 0) / values.length;
+  }
+
+  // 按时长折算：其他人平均每在场一分钟的数值 × 新参与者错过的分钟数
+  const totalPresent = values.reduce((sum, v) => sum + v.presentMinutes, 0);
+  if (totalPresent <= 0) return 0;
+  const rate = values.reduce((sum, v) => sum + v.value, 0) / totalPresent;
+  return rate * missedMinutes;
+}
+
+/**
+ * 计算新加入参与者应补记的场数和上场分钟数
+ * 比赛还没开始时不补记；场数向下取整，让新参与者略微优先
+ * @param session 游戏会话（不含新参与者）
+ * @param now 加入时间
+ */
+export function getLateJoinCredit(
+  session: GameSession,
+  now: Date = new Date()
+): { games: number; minutes: number } {
+  const policy = session.settings.lateJoinPolicy ?? 'none';
+  const playStart = getPlayStartTime(session);
+  if (policy === 'none' || !playStart) {
+    return { games: 0, minutes: 0 };
+  }
+
+  const minutesSince = (time: Date | string) =>
+    Math.max(0, (now.getTime() - new Date(time).getTime()) / MS_PER_MINUTE);
+  const missedMinutes = minutesSince(playStart);
+
+  const others = session.participants.filter(p => !p.hasLeft);
+  // 在场时长从比赛开始或本人加入时算起，取较晚者
+  const presentMinutes = (participant: Participant) =>
+    Math.min(missedMinutes, minutesSince(participant.joinedAt));
+
+  const games = aggregate(
+    policy,
+    others.map(p => ({ value: getEffectiveGamesPlayed(p), presentMinutes: presentMinutes(p) })),
+    missedMinutes
+  );
+  const minutes = aggregate(
+    policy,
+    others.map(p => ({ value: getEffectiveCourtMinutes(p), presentMinutes: presentMinutes(p) })),
+    missedMinutes
+  );
+
+  return {
+    games: Math.floor(games),
+    minutes: Math.round(minutes * 10) / 10
+  };
+}
+
+/**
+ * 按球局的迟到补记策略给新参与者补记场数和上场分钟数
+ * 需要在把新参与者加入球局之前调用
+ * @param session 游戏会话
+ * @param participant 新参与者
+ * @param now 加入时间
+ */
+export function applyLateJoinPolicy(
+  session: GameSession,
+  participant: Participant,
+  now: Date = new Date()
+): void {
+  const credit = getLateJoinCredit(session, now);
+  participant.catchUpGames = credit.games > 0 ? credit.games : undefined;
+  participant.catchUpMinutes = credit.minutes > 0 ? credit.minutes : undefined;
+}
@@ -0,0 +1,193 @@
+/**
+ * 匹克球随机组队系统 - 积分赛（Americano / Mexicano）
+ *
+ * 两种赛制都按个人积分排名：每场比赛所在队伍的得分计入每名队员的个人积分。
+ * Americano 一次排出全部轮次，让每个人尽量和所有人各搭档一次；
+ * Mexicano 第一轮随机，之后每轮按当前积分榜每4人一组，第1、4名对阵第2、3名。
+ */
+
+import { GameMatch, GameSession, PlayerStanding, ScheduleRound, SessionFormat } from './types';
+import { chooseSitOuts, MAX_SCHEDULE_ROUNDS } from './schedule';
+
+// 每场总分的取值范围
+export const MIN_POINTS_PER_MATCH = 4;
+export const MAX_POINTS_PER_MATCH = 64;
+
+/**
+ * 是否为积分赛赛制
+ */
+export function isPointsFormat(format?: SessionFormat): boolean {
+  return format === 'americano' || format === 'mexicano';
+}
+
+/**
+ * Americano 让每个人和所有人各搭档一次所需的轮数
+ * 每场比赛产生2对搭档，共需覆盖 n(n-1)/2 对
+ * @param playerCount 参赛人数
+ * @param courtCount 场地数
+ */
+export function getAmericanoRoundCount(playerCount: number, courtCount: number): number {
+  const matchesPerRound = Math.min(courtCount, Math.floor(playerCount / 4));
+  if (matchesPerRound === 0) {
+    return 0;
+  }
+
+  const rounds = Math.ceil(playerCount * (playerCount - 1) / 2 / (matchesPerRound * 2));
+  return Math.min(rounds, MAX_SCHEDULE_ROUNDS);
+}
+
+/**
+ * 根据赛程开始后录入的比分计算积分榜
+ * 排名依次按个人积分、净胜分、胜场，积分和净胜分都相同时名次并列
+ * @param session 游戏会话
+ * @returns 按名次排列的积分榜，没有赛程时为空
+ */
+export function calculateStandings(session: GameSession): PlayerStanding[] {
+  const schedule = session.schedule;
+  if (!schedule) {
+    return [];
+  }
+
+  const rows = new Map<string, PlayerStanding>();
+  for (const playerId of schedule.playerIds) {
+    rows.set(playerId, {
+      playerId,
+      rank: 0,
+      points: 0,
+      pointsAgainst: 0,
+      gamesPlayed: 0,
+      wins: 0,
+      draws: 0,
+      losses: 0,
+      sitOuts: 0
+    });
+  }
+
+  const scheduleStart = new Date(schedule.createdAt).getTime();
+  for (const result of session.results || []) {
+    if (!result.score || new Date(result.endTime).getTime() < scheduleStart) continue;
+
+    const sides = [
+      { team: result.team1, scored: result.score.team1, conceded: result.score.team2 },
+      { team: result.team2, scored: result.score.team2, conceded: result.score.team1 }
+    ];
+    for (const { team, scored, conceded } of sides) {
+      for (const playerId of [team.player1, team.player2]) {
+        const row = rows.get(playerId);
+        if (!row) continue;
+
+        row.points += scored;
+        row.pointsAgainst += conceded;
+        row.gamesPlayed += 1;
+        if (scored > conceded) {
+          row.wins += 1;
+        } else if (scored < conceded) {
+          row.losses += 1;
+        } else {
+          row.draws += 1;
+        }
+      }
+    }
+  }
+
+  // 已开始的轮次中没有上场即记为轮空（包括中途加入前错过的轮次）
+  for (const round of schedule.rounds.slice(0, schedule.currentRound)) {
+    const playing = new Set(round.matches.flatMap(match => [
+      match.team1.player1, match.team1.player2, match.team2.player1, match.team2.player2
+    ]));
+    rows.forEach((row, playerId) => {
+      if (!playing.has(playerId)) {
+        row.sitOuts += 1;
+      }
+    });
+  }
+
+  const standings = Array.from(rows.values()).sort((a, b) =>
+    b.points - a.points ||
+    (b.points - b.pointsAgainst) - (a.points - a.pointsAgainst) ||
+    b.wins - a.wins
+  );
+
+  standings.forEach((row, index) => {
+    const previous = standings[index - 1];
+    const tied = previous &&
+      previous.points === row.points &&
+      previous.points - previous.pointsAgainst === row.points - row.pointsAgainst;
+    row.rank = tied ? previous.rank : index + 1;
+  });
+
+  return standings;
+}
+
+/**
+ * 积分赛是否已全部结束（计划轮次都已开始且没有进行中的比赛），此时积分榜即最终排名
+ */
+export function isPointsTournamentFinished(session: GameSession): boolean {
+  const schedule = session.schedule;
+  if (!schedule || !isPointsFormat(session.settings.format)) {
+    return false;
+  }
+
+  const totalRounds = schedule.totalRounds ?? schedule.rounds.length;
+  return schedule.currentRound >= totalRounds &&
+    !session.courts.some(court => court.status === 'playing');
+}
+
+/**
+ * 按当前积分榜生成 Mexicano 的下一轮：轮空次数最少的人优先轮空，
+ * 其余人按名次每4人一组，名次高的组排在编号小的场地，组内第1、4名对阵第2、3名
+ * 赛程开始后加入的参与者会加入积分榜
+ * @param session 游戏会话（需已有赛程）
+ * @param random 随机数源，用于轮空人选的平局决胜
+ * @returns 新的一轮，人数不足4人时返回null
+ */
+export function generateMexicanoRound(
+  session: GameSession,
+  random: () => number
+): ScheduleRound | null {
+  const schedule = session.schedule;
+  if (!schedule) {
+    return null;
+  }
+
+  for (const participant of session.participants) {
+    if (!participant.hasLeft && !schedule.playerIds.includes(participant.id)) {
+      schedule.playerIds.push(participant.id);
+    }
+  }
+
+  const isPresent = (id: string) => session.participants.some(p => p.id === id && !p.hasLeft);
+  const standings = calculateStandings(session).filter(row => isPresent(row.playerId));
+  const courtIds = session.courts.map(court => court.id).sort((a, b) => a - b);
+  const matchesPerRound = Math.min(courtIds.length, Math.floor(standings.length / 4));
+  if (matchesPerRound === 0) {
+    return null;
+  }
+
+  const sitOuts: Record<string, number> = {};
+  for (const row of standings) {
+    sitOuts[row.playerId] = row.sitOuts;
+  }
+  const sittingOut = chooseSitOuts(
+    standings.map(row => row.playerId),
+    standings.length - matchesPerRound * 4,
+    sitOuts,
+    [],
+    random
+  );
+  const playing = standings
+    .map(row => row.playerId)
+    .filter(id => !sittingOut.includes(id));
+
+  const matches: GameMatch[] = [];
+  for (let i = 0; i < matchesPerRound; i++) {
+    const [first, second, third, fourth] = playing.slice(i * 4, i * 4 + 4);
+    matches.push({
+      team1: { player1: first, player2: fourth },
+      team2: { player1: second, player2: third },
+      courtId: courtIds[i]
+    });
+  }
+
+  return { round: schedule.rounds.length + 1, matches, sittingOut };
+}
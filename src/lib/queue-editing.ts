@@ -0,0 +1,211 @@
+/**
+ * 匹克球随机组队系统 - 手动调整等待队列
+ *
+ * 管理员可以调整等待队列中各组的顺序，交换两组中的选手，或用休息中的人替换队列中的人。
+ * 锁定的组在自动维护队列时保留在原位、不重新分组；手动调整过的组自动锁定，
+ * 避免下一场比赛结束重新规划队列时被覆盖。每次调整都需与当前场地一起通过 validateAssignment 检查，
+ * 并且不能拆开固定搭档，之后才保存。
+ */
+
+import { GameMatch, GameSession } from './types';
+import { getMatchPlayerIds, validateAssignment, violatesExclusions } from './algorithm';
+
+type TeamKey = 'team1' | 'team2';
+type SlotKey = 'player1' | 'player2';
+
+/**
+ * 选手在等待队列中的位置
+ */
+interface QueuePosition {
+  index: number;
+  team: TeamKey;
+  slot: SlotKey;
+}
+
+/**
+ * 复制等待队列，调整时不直接修改球局中的队列
+ */
+function cloneQueue(queue: GameMatch[]): GameMatch[] {
+  return queue.map(match => ({
+    ...match,
+    team1: { ...match.team1 },
+    team2: { ...match.team2 }
+  }));
+}
+
+/**
+ * 查找选手在等待队列中的位置，不在队列中时返回 undefined
+ */
+function findQueuePosition(queue: GameMatch[], playerId: string): QueuePosition | undefined {
+  for (let index = 0; index < queue.length; index++) {
+    for (const team of ['team1', 'team2'] as TeamKey[]) {
+      for (const slot of ['player1', 'player2'] as SlotKey[]) {
+        if (queue[index][team][slot] === playerId) {
+          return { index, team, slot };
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 调整等待队列中一组的位置，调整后该组自动锁定
+ * @param from 原位置（从0开始）
+ * @param to 新位置（从0开始）
+ * @returns 错误信息，成功时返回 undefined
+ */
+export function moveQueuedMatch(session: GameSession, from: number, to: number): string | undefined {
+  const queue = cloneQueue(session.queue);
+  if (!queue[from] || !queue[to]) {
+    return '等待队列中没有这一组';
+  }
+
+  const [match] = queue.splice(from, 1);
+  queue.splice(to, 0, { ...match, locked: true });
+  return commitQueue(session, queue, [to]);
+}
+
+/**
+ * 交换两名选手：两人都在等待队列中时互换位置（可以是同一组的两队之间），
+ * 只有一人在队列中时由另一名休息中的人替换他，调整过的组自动锁定
+ * @returns 错误信息，成功时返回 undefined
+ */
+export function swapQueuedPlayers(session: GameSession, playerId: string, otherPlayerId: string): string | undefined {
+  if (playerId === otherPlayerId) {
+    return '请选择两名不同的选手';
+  }
+
+  const queue = cloneQueue(session.queue);
+  const first = findQueuePosition(queue, playerId);
+  const second = findQueuePosition(queue, otherPlayerId);
+  if (!first && !second) {
+    return '请至少选择一名等待队列中的选手';
+  }
+
+  if (first && second) {
+    if (first.index === second.index && first.team === second.team) {
+      return '两人已在同一队';
+    }
+    queue[first.index][first.team][first.slot] = otherPlayerId;
+    queue[second.index][second.team][second.slot] = playerId;
+    queue[first.index].locked = true;
+    queue[second.index].locked = true;
+    return commitQueue(session, queue, [first.index, second.index], [playerId, otherPlayerId]);
+  }
+
+  // 只有一人在队列中：另一人需要是休息中的参与者
+  const position = (first || second)!;
+  const incomingId = first ? otherPlayerId : playerId;
+  const incoming = session.participants.find(p => p.id === incomingId);
+  if (!incoming) {
+    return '参与者不存在';
+  }
+  if (incoming.hasLeft || incoming.status === 'away') {
+    return `${incoming.name} 不在场，不能排进等待队列`;
+  }
+
+  queue[position.index][position.team][position.slot] = incomingId;
+  queue[position.index].locked = true;
+  return commitQueue(session, queue, [position.index], [playerId, otherPlayerId]);
+}
+
+/**
+ * 锁定或解锁等待队列中的一组
+ * @param index 位置（从0开始）
+ * @returns 错误信息，成功时返回 undefined
+ */
+export function setQueuedMatchLocked(session: GameSession, index: number, locked: boolean): string | undefined {
+  const queue = cloneQueue(session.queue);
+  if (!queue[index]) {
+    return '等待队列中没有这一组';
+  }
+
+  queue[index].locked = locked || undefined;
+  return commitQueue(session, queue, [index]);
+}
+
+/**
+ * 检查交换后选手与固定搭档是否仍在同一队：选手或搭档在等待队列中时两人必须同队
+ * （搭档已离开或暂时不在时不受约束）
+ * @returns 错误信息，没有拆开固定搭档时返回 undefined
+ */
+function checkLockedPairs(session: GameSession, queue: GameMatch[], playerIds: string[]): string | undefined {
+  const isPresent = (id: string) => session.participants.some(p => p.id === id && !p.hasLeft && p.status !== 'away');
+  const nameOf = (id: string) => session.participants.find(p => p.id === id)?.name || id;
+
+  for (const playerId of playerIds) {
+    const pair = (session.lockedPairs || []).find(p => p.player1 === playerId || p.player2 === playerId);
+    if (!pair || !isPresent(pair.player1) || !isPresent(pair.player2)) continue;
+
+    const partnerId = pair.player1 === playerId ? pair.player2 : pair.player1;
+    const position = findQueuePosition(queue, playerId);
+    const partnerPosition = findQueuePosition(queue, partnerId);
+    if (!position && !partnerPosition) continue;
+
+    if (!position || !partnerPosition ||
+        position.index !== partnerPosition.index || position.team !== partnerPosition.team) {
+      return `${nameOf(playerId)} 与固定搭档 ${nameOf(partnerId)} 需要在同一队`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 检查调整后的等待队列并保存：队列中不能有重复的人，新排进队列的人不能正在场上比赛，
+ * 调整过的组不能违反禁止组合规则，交换的选手不能与固定搭档分开
+ * 等待队列本身可能包含从当前比赛者中补充的人，原本就在队列中的场上选手不算冲突
+ * @param editedIndexes 调整过的组
+ * @param swappedIds 交换的选手
+ * @returns 错误信息，成功时返回 undefined
+ */
+function commitQueue(
+  session: GameSession,
+  queue: GameMatch[],
+  editedIndexes: number[],
+  swappedIds: string[] = []
+): string | undefined {
+  const stats = { fairnessScore: 0, weightEffectiveness: 0, diversityScore: 0 };
+  const validation = validateAssignment({ courts: [], queue, waiting: [], stats });
+  if (!validation.isValid) {
+    const duplicate = session.participants.find(p => validation.duplicates.includes(p.id));
+    return duplicate ? `${duplicate.name} 在等待队列中重复出现` : validation.errors[0];
+  }
+
+  // 队列内部没有重复时，与场地重复的就是场上的人
+  const previouslyQueued = new Set(session.queue.flatMap(getMatchPlayerIds));
+  const playingCourts = session.courts.filter(court => court.status === 'playing');
+  const courtValidation = validateAssignment({ courts: playingCourts, queue, waiting: [], stats });
+  const playing = session.participants.find(p =>
+    courtValidation.duplicates.includes(p.id) && !previouslyQueued.has(p.id)
+  );
+  if (playing) {
+    return `${playing.name} 正在场上比赛`;
+  }
+
+  for (const index of editedIndexes) {
+    if (violatesExclusions(queue[index], session.exclusions)) {
+      return `调整后第 ${index + 1} 组会违反禁止组合规则`;
+    }
+  }
+
+  const pairError = checkLockedPairs(session, queue, swappedIds);
+  if (pairError) {
+    return pairError;
+  }
+
+  session.queue = queue;
+
+  // 排进队列的人改为排队中，移出队列的人回到休息
+  const queuedIds = new Set(queue.flatMap(getMatchPlayerIds));
+  for (const participant of session.participants) {
+    if (queuedIds.has(participant.id) && participant.status === 'resting') {
+      participant.status = 'queued';
+    } else if (!queuedIds.has(participant.id) && participant.status === 'queued') {
+      participant.status = 'resting';
+    }
+  }
+
+  return undefined;
+}
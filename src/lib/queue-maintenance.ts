@@ -0,0 +1,39 @@
+/**
+ * 匹克球随机组队系统 - 按赛制维护等待队列
+ *
+ * 比赛结束、人员或规则变化后调用：自由轮换重新规划分组等待队列，擂台赛同步挑战者队列，
+ * 赛程模式、积分赛、升降梯和锦标赛由各自的规则决定谁上场，不使用等待队列。
+ */
+
+import { GameSession } from './types';
+import { regenerateQueueWithSupplement } from './algorithm';
+import { syncChallengerQueue } from './king-of-court';
+
+/**
+ * 当比赛结束后，自动维护等待队列
+ * @param session 游戏会话
+ */
+export function autoMaintainQueue(session: GameSession): void {
+  // 赛程模式、积分赛、升降梯和锦标赛由各自的规则决定谁上场，不维护等待队列
+  if (['schedule', 'americano', 'mexicano', 'ladder', 'tournament'].includes(session.settings.format ?? 'rotation')) {
+    session.queue = [];
+    session.queueWarning = undefined;
+    session.ruleWarning = undefined;
+    for (const participant of session.participants) {
+      if (participant.status === 'queued') {
+        participant.status = 'resting';
+      }
+    }
+    return;
+  }
+
+  // 擂台赛使用挑战者队列，而非分组等待队列
+  if (session.settings.format === 'king-of-court') {
+    session.queueWarning = undefined;
+    session.ruleWarning = undefined;
+    syncChallengerQueue(session);
+    return;
+  }
+
+  regenerateQueueWithSupplement(session);
+}
@@ -0,0 +1,41 @@
+/**
+ * 匹克球随机组队系统 - 可复现的随机数源
+ *
+ * 组队算法中的所有随机决策都通过带种子的随机数源完成。
+ * 每轮分配使用的种子记录在球局上，相同的种子加相同的球局状态可以重放出完全一致的分配结果。
+ */
+
+// 随机数源：返回 [0, 1) 区间的数
+export type RandomSource = () => number;
+
+// 种子取值范围为 32 位无符号整数
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * 生成新的随机种子
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * 校验种子是否为合法的 32 位无符号整数
+ */
+export function isValidSeed(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+}
+
+/**
+ * 根据种子创建随机数源（mulberry32 算法）
+ * @param seed 随机种子
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
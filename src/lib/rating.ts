@@ -0,0 +1,207 @@
+/**
+ * 匹克球随机组队系统 - 选手技术评分
+ *
+ * 采用 Glicko 评分模型：每位选手有评分和不确定度（RD），
+ * 双打时以两名队员的平均评分作为队伍评分参与期望胜率计算。
+ * 评分以选手姓名为标识，跨球局持久化到数据库。
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { GameResult, GameSession, Participant, PlayerRating, Team } from './types';
+import { getPlayerRating, savePlayerRating, addRatingHistory } from './database';
+
+// 新选手的默认评分和不确定度
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_RATING_DEVIATION = 350;
+
+// 不确定度下限，避免评分完全固化
+const MIN_RATING_DEVIATION = 30;
+
+// 每天未参赛时不确定度的增长系数
+const DEVIATION_GROWTH_PER_DAY = 15;
+
+const Q = Math.log(10) / 400;
+
+// 评分计算所需的最小信息
+export interface RatingValue {
+  rating: number;
+  ratingDeviation: number;
+}
+
+/**
+ * 获取参与者的评分标识（跨球局使用姓名识别同一选手）
+ */
+export function getRatingKey(participant: Participant): string {
+  return participant.name.trim();
+}
+
+/**
+ * 根据未参赛时长放大不确定度
+ * @param rating 已存储的评分
+ * @param now 当前时间
+ */
+export function inflateDeviation(rating: PlayerRating, now: Date = new Date()): number {
+  if (!rating.lastPlayedAt) {
+    return rating.ratingDeviation;
+  }
+
+  const days = Math.max(0, (now.getTime() - new Date(rating.lastPlayedAt).getTime()) / (24 * 60 * 60 * 1000));
+  const inflated = Math.sqrt(
+    rating.ratingDeviation * rating.ratingDeviation + DEVIATION_GROWTH_PER_DAY * DEVIATION_GROWTH_PER_DAY * days
+  );
+  return Math.min(DEFAULT_RATING_DEVIATION, inflated);
+}
+
+/**
+ * 根据一场双打比赛的胜负计算四名选手的新评分
+ * @param match 比赛双方
+ * @param winner 获胜队伍
+ * @param ratings 赛前评分 - playerId: 评分
+ * @returns 赛后评分 - playerId: 评分
+ */
+export function calculateRatingUpdates(
+  match: { team1: Team; team2: Team },
+  winner: 'team1' | 'team2',
+  ratings: Record<string, RatingValue>
+): Record<string, RatingValue> {
+  const updates: Record<string, RatingValue> = {};
+  const teams: Array<{ team: Team; opponent: Team; won: boolean }> = [
+    { team: match.team1, opponent: match.team2, won: winner === 'team1' },
+    { team: match.team2, opponent: match.team1, won: winner === 'team2' }
+  ];
+
+  for (const { team, opponent, won } of teams) {
+    const teamValue = combineTeamRating(team, ratings);
+    const opponentValue = combineTeamRating(opponent, ratings);
+
+    const g = ratingImpact(opponentValue.ratingDeviation);
+    const expected = 1 / (1 + Math.pow(10, -g * (teamValue.rating - opponentValue.rating) / 400));
+    const dSquared = 1 / (Q * Q * g * g * expected * (1 - expected));
+
+    for (const playerId of [team.player1, team.player2]) {
+      const current = ratings[playerId] || { rating: DEFAULT_RATING, ratingDeviation: DEFAULT_RATING_DEVIATION };
+      const precision = 1 / (current.ratingDeviation * current.ratingDeviation) + 1 / dSquared;
+
+      updates[playerId] = {
+        rating: current.rating + (Q / precision) * g * ((won ? 1 : 0) - expected),
+        ratingDeviation: Math.max(MIN_RATING_DEVIATION, Math.sqrt(1 / precision))
+      };
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * 计算队伍的综合评分（平均评分，均方根不确定度）
+ */
+function combineTeamRating(team: Team, ratings: Record<string, RatingValue>): RatingValue {
+  const values = [team.player1, team.player2].map(id =>
+    ratings[id] || { rating: DEFAULT_RATING, ratingDeviation: DEFAULT_RATING_DEVIATION }
+  );
+
+  return {
+    rating: (values[0].rating + values[1].rating) / 2,
+    ratingDeviation: Math.sqrt(
+      (values[0].ratingDeviation * values[0].ratingDeviation + values[1].ratingDeviation * values[1].ratingDeviation) / 2
+    )
+  };
+}
+
+/**
+ * Glicko 中对手不确定度的衰减因子
+ */
+function ratingImpact(ratingDeviation: number): number {
+  return 1 / Math.sqrt(1 + 3 * Q * Q * ratingDeviation * ratingDeviation / (Math.PI * Math.PI));
+}
+
+/**
+ * 从数据库加载参与者的持久化评分，写入参与者的 rating / ratingDeviation
+ * @param participants 参与者列表
+ */
+export async function loadParticipantRatings(participants: Participant[]): Promise<void> {
+  for (const participant of participants) {
+    try {
+      const stored = await getPlayerRating(getRatingKey(participant));
+      participant.rating = stored ? stored.rating : DEFAULT_RATING;
+      participant.ratingDeviation = stored ? inflateDeviation(stored) : DEFAULT_RATING_DEVIATION;
+    } catch (error) {
+      console.error(`[Rating] 加载选手评分失败: ${participant.name}`, error);
+      participant.rating = participant.rating ?? DEFAULT_RATING;
+      participant.ratingDeviation = participant.ratingDeviation ?? DEFAULT_RATING_DEVIATION;
+    }
+  }
+}
+
+/**
+ * 根据比赛结果更新四名选手的评分，并记录评分历史
+ * 未录入比分（无胜负）的比赛不影响评分
+ * @param session 游戏会话
+ * @param result 比赛结果
+ */
+export async function updateRatingsFromResult(session: GameSession, result: GameResult): Promise<void> {
+  if (!result.winner) return;
+
+  const playerIds = [result.team1.player1, result.team1.player2, result.team2.player1, result.team2.player2];
+  const players = playerIds
+    .map(id => session.participants.find(p => p.id === id))
+    .filter((p): p is Participant => !!p);
+
+  try {
+    const now = new Date();
+    const stored: Record<string, PlayerRating> = {};
+    const before: Record<string, RatingValue> = {};
+
+    for (const player of players) {
+      const key = getRatingKey(player);
+      const existing = await getPlayerRating(key);
+      stored[player.id] = existing || {
+        playerName: key,
+        rating: DEFAULT_RATING,
+        ratingDeviation: DEFAULT_RATING_DEVIATION,
+        gamesRated: 0,
+        updatedAt: now
+      };
+      before[player.id] = {
+        rating: stored[player.id].rating,
+        ratingDeviation: inflateDeviation(stored[player.id], now)
+      };
+    }
+
+    const after = calculateRatingUpdates(result, result.winner, before);
+
+    for (const player of players) {
+      const updated = after[player.id];
+      const won = result.winner === 'team1'
+        ? [result.team1.player1, result.team1.player2].includes(player.id)
+        : [result.team2.player1, result.team2.player2].includes(player.id);
+
+      await savePlayerRating({
+        ...stored[player.id],
+        rating: updated.rating,
+        ratingDeviation: updated.ratingDeviation,
+        gamesRated: stored[player.id].gamesRated + 1,
+        lastPlayedAt: now,
+        updatedAt: now
+      });
+
+      await addRatingHistory({
+        id: uuidv4(),
+        playerName: getRatingKey(player),
+        sessionId: session.id,
+        gameId: result.id,
+        ratingBefore: before[player.id].rating,
+        ratingAfter: updated.rating,
+        deviationBefore: before[player.id].ratingDeviation,
+        deviationAfter: updated.ratingDeviation,
+        won,
+        createdAt: now
+      });
+
+      player.rating = updated.rating;
+      player.ratingDeviation = updated.ratingDeviation;
+    }
+  } catch (error) {
+    console.error(`[Rating] 更新选手评分失败:`, error);
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * 匹克球随机组队系统 - 预排循环赛赛程
+ *
+ * 适用于名单和时长固定的活动：一次性排出 N 轮的全部比赛，
+ * 让每个人尽量和不同的人搭档、对战（类似 whist / social golfer 排法），
+ * 并让每个人的轮空次数尽量相同。
+ */
+
+import {
+  GameMatch,
+  GameSession,
+  LockedPair,
+  Participant,
+  ScheduleRound,
+  ScheduleStats,
+  ScoringOptions,
+  SessionFormat
+} from './types';
+import { violatesExclusions } from './algorithm';
+import { syncWaitingTimes } from './court-time';
+
+// 赛程轮数范围
+export const MIN_SCHEDULE_ROUNDS = 1;
+export const MAX_SCHEDULE_ROUNDS = 30;
+
+// 重复搭档 / 重复对战的代价（按已发生次数的平方递增）
+const PARTNER_REPEAT_COST = 4;
+const OPPONENT_REPEAT_COST = 1;
+
+// 违反禁止组合规则的代价，远大于任何重复代价
+const EXCLUSION_COST = 1000;
+
+// 每轮局部搜索的重启次数和每次的迭代次数
+const SEARCH_RESTARTS = 4;
+const SEARCH_ITERATIONS = 1500;
+
+// 局部搜索中交换整支队伍（而非两名选手）的概率
+const TEAM_SWAP_PROBABILITY = 0.3;
+
+/**
+ * 是否为按预排（或逐轮生成）赛程推进的赛制：预排赛程、Americano、Mexicano
+ */
+export function isScheduledFormat(format?: SessionFormat): boolean {
+  return format === 'schedule' || format === 'americano' || format === 'mexicano';
+}
+
+/**
+ * 生成循环赛赛程
+ * @param players 参与赛程的选手
+ * @param courtIds 可用场地编号
+ * @param roundCount 轮数
+ * @param options 组队评分选项（使用其中的随机数源、禁止组合和固定搭档）
+ * @returns 每轮的比赛安排和覆盖情况统计
+ */
+export function generateRoundRobinSchedule(
+  players: Participant[],
+  courtIds: number[],
+  roundCount: number,
+  options: ScoringOptions = {}
+): { rounds: ScheduleRound[]; stats: ScheduleStats } {
+  const random = options.random ?? Math.random;
+  const playerIds = players.map(p => p.id);
+  const lockedPairs = (options.lockedPairs || []).filter(pair =>
+    playerIds.includes(pair.player1) && playerIds.includes(pair.player2)
+  );
+  const matchesPerRound = Math.min(courtIds.length, Math.floor(playerIds.length / 4));
+
+  const partnerCounts = new Map<string, number>();
+  const opponentCounts = new Map<string, number>();
+  const sitOuts: Record<string, number> = {};
+  for (const id of playerIds) {
+    sitOuts[id] = 0;
+  }
+
+  const rounds: ScheduleRound[] = [];
+
+  for (let round = 1; round <= roundCount && matchesPerRound > 0; round++) {
+    const sittingOut = chooseSitOuts(
+      playerIds,
+      playerIds.length - matchesPerRound * 4,
+      sitOuts,
+      lockedPairs,
+      random
+    );
+    const playing = playerIds.filter(id => !sittingOut.includes(id));
+
+    const positions = searchRoundArrangement(playing, lockedPairs, (arrangement) =>
+      calculateArrangementCost(arrangement, partnerCounts, opponentCounts, options), random);
+
+    const matches: GameMatch[] = [];
+    for (let i = 0; i < matchesPerRound; i++) {
+      const match: GameMatch = {
+        team1: { player1: positions[i * 4], player2: positions[i * 4 + 1] },
+        team2: { player1: positions[i * 4 + 2], player2: positions[i * 4 + 3] },
+        courtId: courtIds[i]
+      };
+      matches.push(match);
+      recordMatch(match, partnerCounts, opponentCounts);
+    }
+
+    for (const id of sittingOut) {
+      sitOuts[id]++;
+    }
+
+    rounds.push({ round, matches, sittingOut });
+  }
+
+  return { rounds, stats: calculateScheduleStats(rounds, playerIds) };
+}
+
+/**
+ * 统计赛程的搭档、对战覆盖情况和轮空次数
+ * @param rounds 赛程轮次
+ * @param playerIds 参与赛程的选手
+ */
+export function calculateScheduleStats(rounds: ScheduleRound[], playerIds: string[]): ScheduleStats {
+  const partnerCounts = new Map<string, number>();
+  const opponentCounts = new Map<string, number>();
+  const sitOuts: Record<string, number> = {};
+  for (const id of playerIds) {
+    sitOuts[id] = 0;
+  }
+
+  for (const round of rounds) {
+    for (const match of round.matches) {
+      recordMatch(match, partnerCounts, opponentCounts);
+    }
+    for (const id of round.sittingOut) {
+      sitOuts[id] = (sitOuts[id] || 0) + 1;
+    }
+  }
+
+  const sitOutValues = playerIds.map(id => sitOuts[id]);
+  return {
+    partnerPairs: partnerCounts.size,
+    possiblePartnerPairs: playerIds.length * (playerIds.length - 1) / 2,
+    repeatedPartnerPairs: Array.from(partnerCounts.values()).filter(count => count > 1).length,
+    opponentPairs: opponentCounts.size,
+    minSitOuts: sitOutValues.length > 0 ? Math.min(...sitOutValues) : 0,
+    maxSitOuts: sitOutValues.length > 0 ? Math.max(...sitOutValues) : 0
+  };
+}
+
+/**
+ * 把赛程中的指定轮次安排到场地上
+ * 需要在所有场地都没有进行中的比赛时调用
+ * @param session 游戏会话
+ * @param roundNumber 轮次（从1开始）
+ * @returns 实际开始的比赛数和因选手离开而跳过的比赛数
+ */
+export function applyScheduleRound(
+  session: GameSession,
+  roundNumber: number
+): { started: number; skipped: number } {
+  const schedule = session.schedule;
+  const round = schedule?.rounds[roundNumber - 1];
+  if (!schedule || !round) {
+    return { started: 0, skipped: 0 };
+  }
+
+  for (const court of session.courts) {
+    court.team1 = null;
+    court.team2 = null;
+    court.status = 'empty';
+    court.startTime = undefined;
+  }
+  session.queue = [];
+
+  const playingIds: string[] = [];
+  let skipped = 0;
+
+  for (const match of round.matches) {
+    const court = session.courts.find(c => c.id === match.courtId);
+    const matchPlayerIds = [match.team1.player1, match.team1.player2, match.team2.player1, match.team2.player2];
+    const allPresent = matchPlayerIds.every(id =>
+      session.participants.some(p => p.id === id && !p.hasLeft)
+    );
+
+    // 有选手已离开或场地已不存在时跳过这场比赛
+    if (!court || !allPresent) {
+      skipped++;
+      continue;
+    }
+
+    court.team1 = { ...match.team1 };
+    court.team2 = { ...match.team2 };
+    court.status = 'playing';
+    court.startTime = new Date();
+    playingIds.push(...matchPlayerIds);
+  }
+
+  for (const participant of session.participants) {
+    if (participant.hasLeft) continue;
+
+    if (playingIds.includes(participant.id)) {
+      participant.status = 'playing';
+    } else if (participant.status !== 'away') {
+      participant.status = 'resting';
+      participant.restRounds++;
+    }
+  }
+
+  schedule.currentRound = roundNumber;
+  session.stats.currentRound += 1;
+
+  // 同步等待计时
+  syncWaitingTimes(session);
+
+  return { started: round.matches.length - skipped, skipped };
+}
+
+/**
+ * 选出本轮轮空的选手：轮空次数最少的人优先轮空，固定搭档一起轮空
+ */
+export function chooseSitOuts(
+  playerIds: string[],
+  sitOutCount: number,
+  sitOuts: Record<string, number>,
+  lockedPairs: LockedPair[],
+  random: () => number
+): string[] {
+  if (sitOutCount <= 0) {
+    return [];
+  }
+
+  const units: string[][] = [];
+  const grouped = new Set<string>();
+  for (const pair of lockedPairs) {
+    units.push([pair.player1, pair.player2]);
+    grouped.add(pair.player1);
+    grouped.add(pair.player2);
+  }
+  for (const id of playerIds) {
+    if (!grouped.has(id)) {
+      units.push([id]);
+    }
+  }
+
+  const ranked = units
+    .map(unit => ({
+      unit,
+      sitOuts: Math.max(...unit.map(id => sitOuts[id])),
+      tieBreak: random()
+    }))
+    .sort((a, b) => a.sitOuts - b.sitOuts || a.tieBreak - b.tieBreak);
+
+  const sittingOut: string[] = [];
+  for (const { unit } of ranked) {
+    if (sittingOut.length + unit.length <= sitOutCount) {
+      sittingOut.push(...unit);
+    }
+    if (sittingOut.length === sitOutCount) break;
+  }
+
+  return sittingOut;
+}
+
+/**
+ * 局部搜索本轮上场选手的位置安排
+ * 位置按 [队伍A队员1, 队伍A队员2, 队伍B队员1, 队伍B队员2] 每4人一场排列，
+ * 固定搭档始终占据同一个队伍位置，只会整队移动
+ */
+function searchRoundArrangement(
+  playing: string[],
+  lockedPairs: LockedPair[],
+  costOf: (arrangement: string[]) => number,
+  random: () => number
+): string[] {
+  const teamSlotCount = playing.length / 2;
+  const lockedTeams = lockedPairs
+    .filter(pair => playing.includes(pair.player1) && playing.includes(pair.player2))
+    .map(pair => [pair.player1, pair.player2]);
+  const lockedIds = new Set(lockedTeams.flat());
+  const freePlayers = playing.filter(id => !lockedIds.has(id));
+
+  let best: string[] = [];
+  let bestCost = Infinity;
+
+  for (let restart = 0; restart < SEARCH_RESTARTS; restart++) {
+    // 随机初始安排：先随机放置固定搭档所在的队伍位置，剩余位置随机放置其他选手
+    const slots = shuffle(Array.from({ length: teamSlotCount }, (_, i) => i), random);
+    const arrangement: string[] = new Array(playing.length);
+    const locked: boolean[] = new Array(playing.length).fill(false);
+    lockedTeams.forEach((team, index) => {
+      const slot = slots[index];
+      arrangement[slot * 2] = team[0];
+      arrangement[slot * 2 + 1] = team[1];
+      locked[slot * 2] = true;
+      locked[slot * 2 + 1] = true;
+    });
+    let freePositions = locked.map((isLocked, i) => isLocked ? -1 : i).filter(i => i >= 0);
+    shuffle([...freePlayers], random).forEach((id, index) => {
+      arrangement[freePositions[index]] = id;
+    });
+
+    let cost = costOf(arrangement);
+
+    for (let iteration = 0; iteration < SEARCH_ITERATIONS; iteration++) {
+      let i: number;
+      let j: number;
+      let width: number;
+
+      if (freePositions.length < 2 || random() < TEAM_SWAP_PROBABILITY) {
+        // 交换两支队伍的位置
+        i = Math.floor(random() * teamSlotCount) * 2;
+        j = Math.floor(random() * teamSlotCount) * 2;
+        width = 2;
+      } else {
+        // 交换两名非固定搭档选手的位置
+        i = freePositions[Math.floor(random() * freePositions.length)];
+        j = freePositions[Math.floor(random() * freePositions.length)];
+        width = 1;
+      }
+      if (i === j) continue;
+
+      swapRange(arrangement, i, j, width);
+      const newCost = costOf(arrangement);
+      if (newCost <= cost) {
+        cost = newCost;
+        if (width === 2) {
+          swapRange(locked, i, j, width);
+          freePositions = locked.map((isLocked, k) => isLocked ? -1 : k).filter(k => k >= 0);
+        }
+      } else {
+        swapRange(arrangement, i, j, width);
+      }
+    }
+
+    if (cost < bestCost) {
+      bestCost = cost;
+      best = [...arrangement];
+    }
+
+    // 没有任何重复时无需继续重启
+    if (bestCost === 0) break;
+  }
+
+  return best;
+}
+
+/**
+ * 计算一轮安排的代价：重复搭档、重复对战和违反禁止组合规则
+ */
+function calculateArrangementCost(
+  arrangement: string[],
+  partnerCounts: Map<string, number>,
+  opponentCounts: Map<string, number>,
+  options: ScoringOptions
+): number {
+  let cost = 0;
+
+  for (let i = 0; i + 3 < arrangement.length; i += 4) {
+    const [a, b, c, d] = arrangement.slice(i, i + 4);
+
+    const partnerAB = partnerCounts.get(getPairKey(a, b)) || 0;
+    const partnerCD = partnerCounts.get(getPairKey(c, d)) || 0;
+    cost += PARTNER_REPEAT_COST * (partnerAB * partnerAB + partnerCD * partnerCD);
+
+    for (const x of [a, b]) {
+      for (const y of [c, d]) {
+        const opponentCount = opponentCounts.get(getPairKey(x, y)) || 0;
+        cost += OPPONENT_REPEAT_COST * opponentCount * opponentCount;
+      }
+    }
+
+    const match: GameMatch = {
+      team1: { player1: a, player2: b },
+      team2: { player1: c, player2: d }
+    };
+    if (violatesExclusions(match, options.exclusions)) {
+      cost += EXCLUSION_COST;
+    }
+  }
+
+  return cost;
+}
+
+/**
+ * 记录一场比赛的搭档和对战次数
+ */
+function recordMatch(
+  match: GameMatch,
+  partnerCounts: Map<string, number>,
+  opponentCounts: Map<string, number>
+): void {
+  for (const team of [match.team1, match.team2]) {
+    const key = getPairKey(team.player1, team.player2);
+    partnerCounts.set(key, (partnerCounts.get(key) || 0) + 1);
+  }
+
+  for (const x of [match.team1.player1, match.team1.player2]) {
+    for (const y of [match.team2.player1, match.team2.player2]) {
+      const key = getPairKey(x, y);
+      opponentCounts.set(key, (opponentCounts.get(key) || 0) + 1);
+    }
+  }
+}
+
+/**
+ * 两名选手组合的标识（与顺序无关）
+ */
+function getPairKey(player1: string, player2: string): string {
+  return player1 < player2 ? `${player1}|${player2}` : `${player2}|${player1}`;
+}
+
+/**
+ * 交换数组中两段等长区间
+ */
+function swapRange<T>(arr: T[], i: number, j: number, width: number): void {
+  for (let k = 0; k < width; k++) {
+    const temp = arr[i + k];
+    arr[i + k] = arr[j + k];
+    arr[j + k] = temp;
+  }
+}
+
+/**
+ * 使用指定随机数源打乱数组（原地）
+ */
+function shuffle<T>(arr: T[], random: () => number): T[] {
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const temp = arr[i];
+    arr[i] = arr[j];
+    arr[j] = temp;
+  }
+  return arr;
+}
@@ -0,0 +1,120 @@
+/**
+ * 匹克球随机组队系统 - 组队评分系数与预设
+ *
+ * calculateTeamScore 中各评分项的系数可按球局调整，
+ * 并提供"严格轮换""社交混搭""竞技"等常用预设。
+ */
+
+import { ScoringCoefficients, ScoringPreset } from './types';
+
+// 默认评分系数（与最初的固定系数一致）
+export const DEFAULT_SCORING_COEFFICIENTS: ScoringCoefficients = {
+  fairness: 1.0,
+  weightBonus: 0.8,
+  repetition: 0.6,
+  teammateWeightFactor: 0.5,
+  opponentWeightFactor: 0.3,
+  teammateRepeatPenalty: 0.5,
+  opponentRepeatPenalty: 0.3,
+  randomness: 0.1
+};
+
+// 评分预设定义
+export interface ScoringPresetDefinition {
+  label: string;
+  description: string;
+  skillBalanceWeight: number;
+  coefficients: ScoringCoefficients;
+}
+
+export const SCORING_PRESETS: Record<ScoringPreset, ScoringPresetDefinition> = {
+  'default': {
+    label: '默认',
+    description: '公平轮换为主，兼顾权重和多样性',
+    skillBalanceWeight: 0,
+    coefficients: DEFAULT_SCORING_COEFFICIENTS
+  },
+  'strict-rotation': {
+    label: '严格轮换',
+    description: '上场机会最均等，几乎不受权重和随机因素影响',
+    skillBalanceWeight: 0,
+    coefficients: {
+      ...DEFAULT_SCORING_COEFFICIENTS,
+      fairness: 3.0,
+      weightBonus: 0.4,
+      repetition: 0.3,
+      randomness: 0.02
+    }
+  },
+  'social-mixing': {
+    label: '社交混搭',
+    description: '尽量和不同的人搭档、对战，多认识新球友',
+    skillBalanceWeight: 0,
+    coefficients: {
+      ...DEFAULT_SCORING_COEFFICIENTS,
+      repetition: 1.5,
+      teammateRepeatPenalty: 1.0,
+      opponentRepeatPenalty: 0.6,
+      randomness: 0.2
+    }
+  },
+  'competitive': {
+    label: '竞技',
+    description: '双方实力尽量接近，减少随机和刻意搭配',
+    skillBalanceWeight: 3,
+    coefficients: {
+      ...DEFAULT_SCORING_COEFFICIENTS,
+      weightBonus: 0.4,
+      repetition: 0.3,
+      randomness: 0.02
+    }
+  }
+};
+
+export const SCORING_PRESET_IDS = Object.keys(SCORING_PRESETS) as ScoringPreset[];
+
+// 各系数的取值范围
+export const SCORING_COEFFICIENT_RANGES: Record<keyof ScoringCoefficients, { min: number; max: number; label: string }> = {
+  fairness: { min: 0, max: 5, label: '公平性系数' },
+  weightBonus: { min: 0, max: 5, label: '权重加分系数' },
+  repetition: { min: 0, max: 5, label: '重复惩罚系数' },
+  teammateWeightFactor: { min: 0, max: 2, label: '队友权重换算' },
+  opponentWeightFactor: { min: 0, max: 2, label: '对手权重换算' },
+  teammateRepeatPenalty: { min: 0, max: 2, label: '队友重复惩罚' },
+  opponentRepeatPenalty: { min: 0, max: 2, label: '对手重复惩罚' },
+  randomness: { min: 0, max: 1, label: '随机因子幅度' }
+};
+
+/**
+ * 校验评分系数（允许只提供部分系数）
+ * @param coefficients 待校验的系数
+ * @returns 校验结果
+ */
+export function validateScoringCoefficients(
+  coefficients: unknown
+): { valid: boolean; error?: string } {
+  if (!coefficients || typeof coefficients !== 'object' || Array.isArray(coefficients)) {
+    return { valid: false, error: '评分系数格式无效' };
+  }
+
+  for (const [key, value] of Object.entries(coefficients as Record<string, unknown>)) {
+    const range = SCORING_COEFFICIENT_RANGES[key as keyof ScoringCoefficients];
+    if (!range) {
+      return { valid: false, error: `未知的评分系数: ${key}` };
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < range.min || value > range.max) {
+      return { valid: false, error: `${range.label}必须在${range.min}-${range.max}之间` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 合并球局保存的系数与默认系数
+ */
+export function resolveScoringCoefficients(
+  coefficients?: Partial<ScoringCoefficients>
+): ScoringCoefficients {
+  return { ...DEFAULT_SCORING_COEFFICIENTS, ...(coefficients || {}) };
+}
@@ -0,0 +1,833 @@
+/**
+ * 匹克球随机组队系统 - 锦标赛（小组循环 + 淘汰赛 / 瑞士制）
+ *
+ * 报名的固定两人队伍先分组进行小组循环赛，各组前几名按小组成绩排定种子，
+ * 进入单败或双败淘汰赛；不分组时按报名顺序直接进入淘汰赛。
+ * 瑞士制每轮让战绩相近、尚未交手的队伍对阵，打满设定轮数后按胜场和 Buchholz 排名。
+ * 比赛在场地空出时按轮次依次安排上场。
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BracketType,
+  GameScore,
+  GameSession,
+  Tournament,
+  TournamentBracket,
+  TournamentMatch,
+  TournamentPool,
+  TournamentTeam,
+  TournamentTeamStanding
+} from './types';
+import { getWinner } from './game-results';
+
+// 报名队伍数和小组数的范围
+export const MIN_TOURNAMENT_TEAMS = 2;
+export const MAX_TOURNAMENT_TEAMS = 32;
+export const MAX_POOL_COUNT = 8;
+
+// 瑞士制轮数范围
+export const MIN_SWISS_ROUNDS = 1;
+export const MAX_SWISS_ROUNDS = 15;
+
+// 瑞士制配对搜索的最大尝试次数，超出后允许重复交手
+const SWISS_SEARCH_BUDGET = 20000;
+
+// 同一轮次中各赛区比赛的上场顺序
+const BRACKET_ORDER: TournamentBracket[] = ['pool', 'swiss', 'winners', 'losers', 'final'];
+
+/**
+ * 校验锦标赛设置
+ * @param teamCount 报名队伍数
+ * @param poolCount 小组数，0 表示不分组直接进入淘汰赛
+ * @param advancePerPool 每个小组晋级的队伍数
+ * @returns 校验结果
+ */
+export function validateTournamentOptions(
+  teamCount: number,
+  poolCount: number,
+  advancePerPool: number
+): { valid: boolean; error?: string } {
+  if (teamCount < MIN_TOURNAMENT_TEAMS || teamCount > MAX_TOURNAMENT_TEAMS) {
+    return { valid: false, error: `报名队伍数必须在${MIN_TOURNAMENT_TEAMS}-${MAX_TOURNAMENT_TEAMS}之间` };
+  }
+
+  if (!Number.isInteger(poolCount) || poolCount < 0 || poolCount > MAX_POOL_COUNT) {
+    return { valid: false, error: `小组数必须是0-${MAX_POOL_COUNT}之间的整数` };
+  }
+
+  if (poolCount === 0) {
+    return { valid: true };
+  }
+
+  // 每个小组至少2支队伍
+  if (poolCount * 2 > teamCount) {
+    return { valid: false, error: `${teamCount}支队伍最多分为${Math.floor(teamCount / 2)}个小组` };
+  }
+
+  const smallestPool = Math.floor(teamCount / poolCount);
+  if (!Number.isInteger(advancePerPool) || advancePerPool < 1 || advancePerPool > smallestPool) {
+    return { valid: false, error: `每组晋级队伍数必须是1-${smallestPool}之间的整数` };
+  }
+
+  if (poolCount * advancePerPool < 2) {
+    return { valid: false, error: '至少需要2支队伍晋级淘汰赛' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 校验瑞士制设置：轮数不能超过不重复交手所能排出的轮数
+ * @param teamCount 报名队伍数
+ * @param rounds 轮数
+ * @returns 校验结果
+ */
+export function validateSwissOptions(
+  teamCount: number,
+  rounds: number
+): { valid: boolean; error?: string } {
+  if (teamCount < MIN_TOURNAMENT_TEAMS || teamCount > MAX_TOURNAMENT_TEAMS) {
+    return { valid: false, error: `报名队伍数必须在${MIN_TOURNAMENT_TEAMS}-${MAX_TOURNAMENT_TEAMS}之间` };
+  }
+
+  // 队伍数为奇数时每轮有一支队伍轮空，可多排一轮
+  const maxRounds = Math.min(MAX_SWISS_ROUNDS, teamCount % 2 === 0 ? teamCount - 1 : teamCount);
+  if (!Number.isInteger(rounds) || rounds < MIN_SWISS_ROUNDS || rounds > maxRounds) {
+    return { valid: false, error: `${teamCount}支队伍的瑞士制轮数必须是${MIN_SWISS_ROUNDS}-${maxRounds}之间的整数` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 获取默认的瑞士制轮数：足以决出唯一全胜队伍的轮数
+ * @param teamCount 报名队伍数
+ */
+export function getDefaultSwissRounds(teamCount: number): number {
+  const maxRounds = teamCount % 2 === 0 ? teamCount - 1 : teamCount;
+  return Math.max(MIN_SWISS_ROUNDS, Math.min(Math.ceil(Math.log2(Math.max(teamCount, 2))), maxRounds, MAX_SWISS_ROUNDS));
+}
+
+/**
+ * 创建锦标赛：按报名顺序蛇形分组并排出小组循环赛；不分组时直接生成淘汰赛对阵表
+ * @param teams 报名队伍（按种子顺序）
+ * @param poolCount 小组数，0 表示不分组
+ * @param advancePerPool 每个小组晋级的队伍数
+ * @param bracketType 淘汰赛类型
+ */
+export function createTournament(
+  teams: Array<{ name: string; player1: string; player2: string }>,
+  poolCount: number,
+  advancePerPool: number,
+  bracketType: BracketType
+): Tournament {
+  const tournamentTeams = createTeams(teams);
+
+  const tournament: Tournament = {
+    stage: poolCount > 0 ? 'pools' : 'bracket',
+    bracketType,
+    advancePerPool: poolCount > 0 ? advancePerPool : tournamentTeams.length,
+    teams: tournamentTeams,
+    pools: [],
+    matches: [],
+    createdAt: new Date()
+  };
+
+  if (poolCount === 0) {
+    tournament.matches = buildBracket(tournamentTeams.map(team => team.id), bracketType);
+    resolveByes(tournament);
+    return tournament;
+  }
+
+  // 蛇形分组：1、2、3、3、2、1……让各组实力接近
+  tournament.pools = Array.from({ length: poolCount }, (_, index) => ({
+    id: uuidv4(),
+    name: `${String.fromCharCode(65 + index)}组`,
+    teamIds: []
+  }));
+  tournamentTeams.forEach((team, index) => {
+    const lap = Math.floor(index / poolCount);
+    const offset = index % poolCount;
+    const poolIndex = lap % 2 === 0 ? offset : poolCount - 1 - offset;
+    tournament.pools[poolIndex].teamIds.push(team.id);
+  });
+
+  for (const pool of tournament.pools) {
+    tournament.matches.push(...buildPoolMatches(pool));
+  }
+
+  return tournament;
+}
+
+/**
+ * 创建瑞士制锦标赛并排出第一轮：按种子前一半对阵后一半
+ * @param teams 报名队伍（按种子顺序）
+ * @param rounds 轮数
+ */
+export function createSwissTournament(
+  teams: Array<{ name: string; player1: string; player2: string }>,
+  rounds: number
+): Tournament {
+  const tournament: Tournament = {
+    stage: 'swiss',
+    bracketType: 'single',
+    advancePerPool: 0,
+    swissRounds: rounds,
+    teams: createTeams(teams),
+    pools: [],
+    matches: [],
+    createdAt: new Date()
+  };
+
+  tournament.matches = pairSwissRound(tournament);
+  return tournament;
+}
+
+/**
+ * 计算瑞士制积分榜：依次按胜场、Buchholz（对手胜场之和）、净胜分、得分排名
+ * 轮空记为一场胜利，但不计入得失分和 Buchholz
+ * @param tournament 瑞士制锦标赛
+ */
+export function getSwissStandings(tournament: Tournament): TournamentTeamStanding[] {
+  const rows = new Map<string, TournamentTeamStanding>();
+  for (const team of tournament.teams) {
+    rows.set(team.id, {
+      teamId: team.id,
+      rank: 0,
+      played: 0,
+      wins: 0,
+      losses: 0,
+      pointsFor: 0,
+      pointsAgainst: 0,
+      buchholz: 0
+    });
+  }
+
+  const swissMatches = tournament.matches.filter(m => m.bracket === 'swiss' && m.status === 'finished');
+  for (const match of swissMatches) {
+    if (!match.score) {
+      // 轮空
+      const row = match.winnerId ? rows.get(match.winnerId) : undefined;
+      if (row) row.wins += 1;
+      continue;
+    }
+
+    const sides = [
+      { teamId: match.team1Id!, scored: match.score.team1, conceded: match.score.team2 },
+      { teamId: match.team2Id!, scored: match.score.team2, conceded: match.score.team1 }
+    ];
+    for (const { teamId, scored, conceded } of sides) {
+      const row = rows.get(teamId);
+      if (!row) continue;
+
+      row.played += 1;
+      row.pointsFor += scored;
+      row.pointsAgainst += conceded;
+      if (match.winnerId === teamId) {
+        row.wins += 1;
+      } else {
+        row.losses += 1;
+      }
+    }
+  }
+
+  for (const match of swissMatches) {
+    if (!match.score) continue;
+    const row1 = rows.get(match.team1Id!);
+    const row2 = rows.get(match.team2Id!);
+    if (row1 && row2) {
+      row1.buchholz! += row2.wins;
+      row2.buchholz! += row1.wins;
+    }
+  }
+
+  const seedOf = (teamId: string) => tournament.teams.find(team => team.id === teamId)?.seed ?? 0;
+  const standings = Array.from(rows.values()).sort((a, b) =>
+    b.wins - a.wins ||
+    b.buchholz! - a.buchholz! ||
+    (b.pointsFor - b.pointsAgainst) - (a.pointsFor - a.pointsAgainst) ||
+    b.pointsFor - a.pointsFor ||
+    seedOf(a.teamId) - seedOf(b.teamId)
+  );
+
+  standings.forEach((row, index) => {
+    const previous = standings[index - 1];
+    const tied = previous &&
+      previous.wins === row.wins &&
+      previous.buchholz === row.buchholz &&
+      previous.pointsFor - previous.pointsAgainst === row.pointsFor - row.pointsAgainst &&
+      previous.pointsFor === row.pointsFor;
+    row.rank = tied ? previous.rank : index + 1;
+  });
+
+  return standings;
+}
+
+/**
+ * 计算小组积分榜：依次按胜场、净胜分、得分排名
+ * @param tournament 锦标赛
+ * @param pool 小组
+ */
+export function getPoolStandings(tournament: Tournament, pool: TournamentPool): TournamentTeamStanding[] {
+  const rows = new Map<string, TournamentTeamStanding>();
+  for (const teamId of pool.teamIds) {
+    rows.set(teamId, { teamId, rank: 0, played: 0, wins: 0, losses: 0, pointsFor: 0, pointsAgainst: 0 });
+  }
+
+  for (const match of tournament.matches) {
+    if (match.poolId !== pool.id || match.status !== 'finished' || !match.score) continue;
+
+    const sides = [
+      { teamId: match.team1Id, scored: match.score.team1, conceded: match.score.team2 },
+      { teamId: match.team2Id, scored: match.score.team2, conceded: match.score.team1 }
+    ];
+    for (const { teamId, scored, conceded } of sides) {
+      const row = teamId ? rows.get(teamId) : undefined;
+      if (!row) continue;
+
+      row.played += 1;
+      row.pointsFor += scored;
+      row.pointsAgainst += conceded;
+      if (match.winnerId === teamId) {
+        row.wins += 1;
+      } else {
+        row.losses += 1;
+      }
+    }
+  }
+
+  return rankStandings(Array.from(rows.values()));
+}
+
+/**
+ * 场地空出时按轮次安排可以开始的锦标赛比赛
+ * 双方都已确定、且两队都不在其他场地比赛时才能开始
+ * @param session 游戏会话
+ * @returns 新开始的比赛数
+ */
+export function assignTournamentCourts(session: GameSession): number {
+  const tournament = session.tournament;
+  if (!tournament || tournament.stage === 'finished') {
+    return 0;
+  }
+
+  const teamsById = new Map(tournament.teams.map(team => [team.id, team]));
+  const busyTeams = new Set<string>();
+  for (const match of tournament.matches) {
+    if (match.status === 'playing') {
+      busyTeams.add(match.team1Id!);
+      busyTeams.add(match.team2Id!);
+    }
+  }
+
+  const ready = tournament.matches
+    .filter(match => match.status === 'pending' && match.team1Id && match.team2Id)
+    .sort((a, b) =>
+      a.round - b.round ||
+      BRACKET_ORDER.indexOf(a.bracket) - BRACKET_ORDER.indexOf(b.bracket) ||
+      a.position - b.position
+    );
+
+  let started = 0;
+  const emptyCourts = session.courts
+    .filter(court => court.status !== 'playing')
+    .sort((a, b) => a.id - b.id);
+
+  for (const court of emptyCourts) {
+    const match = ready.find(m => !busyTeams.has(m.team1Id!) && !busyTeams.has(m.team2Id!));
+    if (!match) break;
+
+    const team1 = teamsById.get(match.team1Id!)!;
+    const team2 = teamsById.get(match.team2Id!)!;
+    court.team1 = { player1: team1.player1, player2: team1.player2 };
+    court.team2 = { player1: team2.player1, player2: team2.player2 };
+    court.status = 'playing';
+    court.startTime = new Date();
+    court.tournamentMatchId = match.id;
+
+    match.status = 'playing';
+    match.courtId = court.id;
+    match.startTime = court.startTime;
+
+    busyTeams.add(team1.id);
+    busyTeams.add(team2.id);
+    ready.splice(ready.indexOf(match), 1);
+    started++;
+  }
+
+  updateTournamentStatuses(session);
+
+  return started;
+}
+
+/**
+ * 记录锦标赛比赛的比分：胜者和负者进入对阵表中的下一场，
+ * 小组赛全部结束后按小组成绩生成淘汰赛，决赛结束后产生冠军
+ * 需要在清空场地之后调用
+ * @param tournament 锦标赛
+ * @param match 结束的比赛
+ * @param score 比分
+ */
+export function completeTournamentMatch(
+  tournament: Tournament,
+  match: TournamentMatch,
+  score: GameScore
+): void {
+  const winnerId = getWinner(score) === 'team1' ? match.team1Id! : match.team2Id!;
+  const loserId = winnerId === match.team1Id ? match.team2Id! : match.team1Id!;
+
+  match.score = { team1: score.team1, team2: score.team2 };
+  match.winnerId = winnerId;
+  match.status = 'finished';
+  match.courtId = undefined;
+  match.endTime = new Date();
+
+  // 记录队伍级对手次数
+  const team1 = tournament.teams.find(team => team.id === match.team1Id);
+  const team2 = tournament.teams.find(team => team.id === match.team2Id);
+  if (team1 && team2) {
+    team1.opponents = { ...team1.opponents, [team2.id]: (team1.opponents?.[team2.id] || 0) + 1 };
+    team2.opponents = { ...team2.opponents, [team1.id]: (team2.opponents?.[team1.id] || 0) + 1 };
+  }
+
+  if (match.bracket === 'swiss') {
+    const roundFinished = tournament.matches
+      .filter(m => m.bracket === 'swiss')
+      .every(m => m.status === 'finished');
+    if (!roundFinished) return;
+
+    // 一轮全部结束后排下一轮，打满轮数后积分榜第一名为冠军
+    if (match.round < (tournament.swissRounds ?? 0)) {
+      tournament.matches.push(...pairSwissRound(tournament));
+    } else {
+      tournament.championId = getSwissStandings(tournament)[0]?.teamId;
+      tournament.stage = 'finished';
+    }
+    return;
+  }
+
+  if (match.bracket === 'pool') {
+    const poolFinished = tournament.matches
+      .filter(m => m.bracket === 'pool')
+      .every(m => m.status === 'finished');
+    if (poolFinished) {
+      startBracket(tournament);
+    }
+    return;
+  }
+
+  // 双败淘汰的总决赛中败者组冠军获胜时，两队都只输了一场，需要加赛一场
+  if (match.bracket === 'final' && match.round === 1 && winnerId === match.team2Id) {
+    tournament.matches.push(createMatch('final', 2, 0, {
+      team1Id: match.team1Id,
+      team2Id: match.team2Id
+    }));
+    return;
+  }
+
+  advance(tournament, match, winnerId, loserId);
+  resolveByes(tournament);
+}
+
+/**
+ * 结束锦标赛：清除锦标赛数据和场地上的锦标赛标记（进行中的比赛保留在场地上）
+ */
+export function clearTournament(session: GameSession): void {
+  session.tournament = undefined;
+  for (const court of session.courts) {
+    court.tournamentMatchId = undefined;
+  }
+}
+
+/**
+ * 小组赛结束后，各组前几名按名次和小组成绩排定种子，生成淘汰赛对阵表
+ * 各组第一名排在所有第二名之前，同名次之间按胜率、场均净胜分、场均得分排序
+ */
+function startBracket(tournament: Tournament): void {
+  const qualifiers: Array<TournamentTeamStanding & { place: number }> = [];
+  for (const pool of tournament.pools) {
+    getPoolStandings(tournament, pool)
+      .slice(0, tournament.advancePerPool)
+      .forEach((row, index) => qualifiers.push({ ...row, place: index + 1 }));
+  }
+
+  const perGame = (value: number, played: number) => played > 0 ? value / played : 0;
+  qualifiers.sort((a, b) =>
+    a.place - b.place ||
+    perGame(b.wins, b.played) - perGame(a.wins, a.played) ||
+    perGame(b.pointsFor - b.pointsAgainst, b.played) - perGame(a.pointsFor - a.pointsAgainst, a.played) ||
+    perGame(b.pointsFor, b.played) - perGame(a.pointsFor, a.played)
+  );
+
+  avoidPoolRematches(tournament, qualifiers);
+
+  tournament.matches.push(...buildBracket(qualifiers.map(row => row.teamId), tournament.bracketType));
+  tournament.stage = 'bracket';
+  resolveByes(tournament);
+}
+
+/**
+ * 淘汰赛第一轮尽量避免同组队伍再次相遇：与另一场中同名次的低位种子交换位置
+ * @param qualifiers 按种子排列的晋级队伍（原地调整）
+ */
+function avoidPoolRematches(
+  tournament: Tournament,
+  qualifiers: Array<TournamentTeamStanding & { place: number }>
+): void {
+  const poolOf = (teamId: string) => tournament.pools.find(pool => pool.teamIds.includes(teamId))?.id;
+  const size = Math.max(2, 2 ** Math.ceil(Math.log2(qualifiers.length)));
+
+  // 第一轮中种子 s 的对手为种子 size+1-s（下标从0开始时为 size-1-i）
+  const opponentIndex = (index: number) => size - 1 - index;
+  const samePool = (index: number) => {
+    const other = opponentIndex(index);
+    return other < qualifiers.length && poolOf(qualifiers[index].teamId) === poolOf(qualifiers[other].teamId);
+  };
+
+  for (let i = 0; i < size / 2; i++) {
+    if (!samePool(i)) continue;
+
+    const low = opponentIndex(i);
+    for (let j = 0; j < size / 2; j++) {
+      const otherLow = opponentIndex(j);
+      if (j === i || otherLow >= qualifiers.length || qualifiers[otherLow].place !== qualifiers[low].place) continue;
+
+      [qualifiers[low], qualifiers[otherLow]] = [qualifiers[otherLow], qualifiers[low]];
+      if (!samePool(i) && !samePool(j)) break;
+      [qualifiers[low], qualifiers[otherLow]] = [qualifiers[otherLow], qualifiers[low]];
+    }
+  }
+}
+
+/**
+ * 生成淘汰赛对阵表：队伍数补齐到2的幂，空出的位置为轮空，
+ * 第一轮按标准种子顺序排列（1对最后一名、2对倒数第二……），头号种子优先轮空
+ * 双败淘汰时胜者组每轮的负者依次落入败者组，胜者组冠军与败者组冠军争夺总冠军
+ */
+function buildBracket(teamIds: string[], bracketType: BracketType): TournamentMatch[] {
+  const size = Math.max(2, 2 ** Math.ceil(Math.log2(teamIds.length)));
+  const roundCount = Math.log2(size);
+  const matches: TournamentMatch[] = [];
+
+  const winners: TournamentMatch[][] = [];
+  for (let round = 1; round <= roundCount; round++) {
+    winners[round] = Array.from({ length: size / 2 ** round }, (_, position) =>
+      createMatch('winners', round, position));
+    matches.push(...winners[round]);
+  }
+
+  const order = getSeedOrder(size);
+  winners[1].forEach((match, index) => {
+    match.team1Id = teamIds[order[index * 2] - 1] ?? null;
+    match.team2Id = teamIds[order[index * 2 + 1] - 1] ?? null;
+  });
+
+  for (let round = 1; round < roundCount; round++) {
+    winners[round].forEach((match, index) => {
+      match.winnerTo = feed(winners[round + 1][Math.floor(index / 2)], index);
+    });
+  }
+
+  if (bracketType === 'single') {
+    return matches;
+  }
+
+  const final = createMatch('final', 1, 0);
+  winners[roundCount][0].winnerTo = { matchId: final.id, slot: 'team1' };
+
+  if (roundCount === 1) {
+    winners[1][0].loserTo = { matchId: final.id, slot: 'team2' };
+    matches.push(final);
+    return matches;
+  }
+
+  // 败者组：奇数轮由上一轮胜者两两对阵，偶数轮迎接胜者组下一轮的负者
+  const losers: TournamentMatch[][] = [];
+  losers[1] = Array.from({ length: size / 4 }, (_, position) => createMatch('losers', 1, position));
+  winners[1].forEach((match, index) => {
+    match.loserTo = feed(losers[1][Math.floor(index / 2)], index);
+  });
+
+  for (let i = 1; i < roundCount; i++) {
+    const dropRound = 2 * i;
+    const count = size / 2 ** (i + 1);
+    losers[dropRound] = Array.from({ length: count }, (_, position) => createMatch('losers', dropRound, position));
+
+    losers[dropRound - 1].forEach((match, index) => {
+      match.winnerTo = { matchId: losers[dropRound][index].id, slot: 'team1' };
+    });
+    // 胜者组负者倒序落入，尽量避免很快再次相遇
+    winners[i + 1].forEach((match, index) => {
+      match.loserTo = { matchId: losers[dropRound][count - 1 - index].id, slot: 'team2' };
+    });
+
+    if (i < roundCount - 1) {
+      losers[dropRound + 1] = Array.from({ length: count / 2 }, (_, position) =>
+        createMatch('losers', dropRound + 1, position));
+      losers[dropRound].forEach((match, index) => {
+        match.winnerTo = feed(losers[dropRound + 1][Math.floor(index / 2)], index);
+      });
+    }
+  }
+
+  losers[2 * (roundCount - 1)][0].winnerTo = { matchId: final.id, slot: 'team2' };
+
+  for (let round = 1; round < losers.length; round++) {
+    matches.push(...losers[round]);
+  }
+  matches.push(final);
+
+  return matches;
+}
+
+/**
+ * 排出瑞士制的下一轮：按积分榜顺序让战绩相近、尚未交手的队伍对阵
+ * 队伍数为奇数时，排名最低且未轮空过的队伍轮空（记一场胜利）
+ * 第一轮按种子前一半对阵后一半；找不到无重复交手的配对时允许交手次数最少的重复对阵
+ */
+function pairSwissRound(tournament: Tournament): TournamentMatch[] {
+  const round = tournament.matches
+    .filter(m => m.bracket === 'swiss')
+    .reduce((max, m) => Math.max(max, m.round), 0) + 1;
+  const matches: TournamentMatch[] = [];
+
+  let order = round === 1
+    ? [...tournament.teams].sort((a, b) => a.seed - b.seed).map(team => team.id)
+    : getSwissStandings(tournament).map(row => row.teamId);
+
+  if (order.length % 2 === 1) {
+    const hadBye = new Set(tournament.matches
+      .filter(m => m.bracket === 'swiss' && m.status === 'finished' && !m.score)
+      .map(m => m.winnerId));
+    const byeTeam = [...order].reverse().find(id => !hadBye.has(id)) ?? order[order.length - 1];
+    order = order.filter(id => id !== byeTeam);
+
+    const bye = createMatch('swiss', round, order.length / 2, { team1Id: byeTeam, team2Id: null });
+    bye.status = 'finished';
+    bye.winnerId = byeTeam;
+    matches.push(bye);
+  }
+
+  const metCount = (a: string, b: string) =>
+    tournament.teams.find(team => team.id === a)?.opponents?.[b] || 0;
+
+  let pairs: Array<[string, string]>;
+  if (round === 1) {
+    const half = order.length / 2;
+    pairs = order.slice(0, half).map((id, index) => [id, order[half + index]] as [string, string]);
+  } else {
+    let budget = SWISS_SEARCH_BUDGET;
+    const search = (remaining: string[]): Array<[string, string]> | null => {
+      if (remaining.length === 0) return [];
+      if (--budget < 0) return null;
+
+      const [first, ...rest] = remaining;
+      for (const candidate of rest) {
+        if (metCount(first, candidate) > 0) continue;
+        const others = search(rest.filter(id => id !== candidate));
+        if (others) return [[first, candidate], ...others];
+      }
+      return null;
+    };
+
+    pairs = search(order) ?? greedySwissPairs(order, metCount);
+  }
+
+  pairs.forEach(([team1Id, team2Id], position) => {
+    matches.push(createMatch('swiss', round, position, { team1Id, team2Id }));
+  });
+
+  return matches;
+}
+
+/**
+ * 无法避免重复交手时的贪心配对：每支队伍与交手次数最少、排名最接近的队伍对阵
+ */
+function greedySwissPairs(
+  order: string[],
+  metCount: (a: string, b: string) => number
+): Array<[string, string]> {
+  const remaining = [...order];
+  const pairs: Array<[string, string]> = [];
+
+  while (remaining.length >= 2) {
+    const first = remaining.shift()!;
+    const partner = remaining.reduce((best, id) =>
+      metCount(first, id) < metCount(first, best) ? id : best
+    , remaining[0]);
+    remaining.splice(remaining.indexOf(partner), 1);
+    pairs.push([first, partner]);
+  }
+
+  return pairs;
+}
+
+/**
+ * 小组单循环赛程（圆圈法），队伍数为奇数时每轮有一队轮空
+ */
+function buildPoolMatches(pool: TournamentPool): TournamentMatch[] {
+  const slots: Array<string | null> = [...pool.teamIds];
+  if (slots.length % 2 === 1) {
+    slots.push(null);
+  }
+
+  const matches: TournamentMatch[] = [];
+  const roundCount = slots.length - 1;
+  for (let round = 1; round <= roundCount; round++) {
+    let position = 0;
+    for (let i = 0; i < slots.length / 2; i++) {
+      const team1Id = slots[i];
+      const team2Id = slots[slots.length - 1 - i];
+      if (team1Id && team2Id) {
+        const match = createMatch('pool', round, position++, { team1Id, team2Id });
+        match.poolId = pool.id;
+        matches.push(match);
+      }
+    }
+    // 固定第一个位置，其余位置顺时针轮转
+    slots.splice(1, 0, slots.pop()!);
+  }
+
+  return matches;
+}
+
+/**
+ * 标准种子顺序：size=4 时为 [1, 4, 2, 3]，相邻两个位置为第一轮对阵
+ */
+function getSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, total - seed]);
+  }
+  return order;
+}
+
+/**
+ * 把胜者（或负者）送入下一场比赛的对应位置
+ */
+function advance(tournament: Tournament, match: TournamentMatch, winnerId?: string, loserId?: string): void {
+  if (match.winnerTo) {
+    setSlot(tournament, match.winnerTo.matchId, match.winnerTo.slot, winnerId ?? null);
+  } else if (winnerId && match.bracket !== 'pool' && match.bracket !== 'swiss') {
+    // 没有下一场的淘汰赛比赛即为决赛
+    tournament.championId = winnerId;
+    tournament.stage = 'finished';
+  }
+
+  if (match.loserTo) {
+    setSlot(tournament, match.loserTo.matchId, match.loserTo.slot, loserId ?? null);
+  }
+}
+
+/**
+ * 处理轮空：一方轮空的比赛直接由另一方晋级，双方都轮空时向下传递轮空
+ */
+function resolveByes(tournament: Tournament): void {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const match of tournament.matches) {
+      if (match.status !== 'pending' || match.team1Id === undefined || match.team2Id === undefined) continue;
+      if (match.team1Id && match.team2Id) continue;
+
+      const winnerId = match.team1Id || match.team2Id || undefined;
+      match.status = 'finished';
+      match.winnerId = winnerId;
+      advance(tournament, match, winnerId, undefined);
+      changed = true;
+    }
+  }
+}
+
+function setSlot(tournament: Tournament, matchId: string, slot: 'team1' | 'team2', teamId: string | null): void {
+  const target = tournament.matches.find(m => m.id === matchId);
+  if (target) {
+    target[slot === 'team1' ? 'team1Id' : 'team2Id'] = teamId;
+  }
+}
+
+/**
+ * 第 index 场比赛的结果进入下一轮第 floor(index/2) 场：偶数场进入 team1，奇数场进入 team2
+ */
+function feed(target: TournamentMatch, index: number) {
+  return { matchId: target.id, slot: index % 2 === 0 ? 'team1' as const : 'team2' as const };
+}
+
+/**
+ * 按报名顺序生成锦标赛队伍，种子序号从1开始
+ */
+function createTeams(teams: Array<{ name: string; player1: string; player2: string }>): TournamentTeam[] {
+  return teams.map((team, index) => ({
+    id: uuidv4(),
+    name: team.name,
+    player1: team.player1,
+    player2: team.player2,
+    seed: index + 1,
+    opponents: {}
+  }));
+}
+
+function createMatch(
+  bracket: TournamentBracket,
+  round: number,
+  position: number,
+  teams: { team1Id?: string | null; team2Id?: string | null } = {}
+): TournamentMatch {
+  return {
+    id: uuidv4(),
+    bracket,
+    round,
+    position,
+    ...teams,
+    status: 'pending'
+  };
+}
+
+/**
+ * 排列积分榜并计算名次，胜场、净胜分、得分都相同时名次并列
+ */
+function rankStandings(rows: TournamentTeamStanding[]): TournamentTeamStanding[] {
+  rows.sort((a, b) =>
+    b.wins - a.wins ||
+    (b.pointsFor - b.pointsAgainst) - (a.pointsFor - a.pointsAgainst) ||
+    b.pointsFor - a.pointsFor
+  );
+
+  rows.forEach((row, index) => {
+    const previous = rows[index - 1];
+    const tied = previous &&
+      previous.wins === row.wins &&
+      previous.pointsFor - previous.pointsAgainst === row.pointsFor - row.pointsAgainst &&
+      previous.pointsFor === row.pointsFor;
+    row.rank = tied ? previous.rank : index + 1;
+  });
+
+  return rows;
+}
+
+/**
+ * 锦标赛队伍的队员在场上时设为比赛中，其余比赛中的参与者设为休息
+ */
+function updateTournamentStatuses(session: GameSession): void {
+  const playingIds = new Set<string>();
+  for (const court of session.courts) {
+    if (court.status === 'playing' && court.team1 && court.team2) {
+      playingIds.add(court.team1.player1);
+      playingIds.add(court.team1.player2);
+      playingIds.add(court.team2.player1);
+      playingIds.add(court.team2.player2);
+    }
+  }
+
+  for (const participant of session.participants) {
+    if (participant.hasLeft) continue;
+
+    if (playingIds.has(participant.id)) {
+      participant.status = 'playing';
+    } else if (participant.status === 'playing' || participant.status === 'queued') {
+      participant.status = 'resting';
+    }
+  }
+}
@@ -8,6 +8,35 @@ export type ParticipantStatus = 'playing' | 'queued' | 'resting' | 'away';
 // 权重类型枚举
 export type WeightType = 'teammate' | 'opponent';
 
+// 禁止组合类型：不做队友 / 不做对手 / 不同场
+export type ExclusionType = 'teammate' | 'opponent' | 'court';
+
+// 参与者性别分类
+export type ParticipantCategory = 'male' | 'female';
+
+// 公平性模式：按比赛场数 / 按上场时长和等待时间
+export type FairnessMode = 'games' | 'time';
+
+// 球局赛制：自由轮换 / 预排赛程 / 擂台赛（赢家留场）/ 升降梯（赢家升场、输家降场）/
+// Americano（轮换搭档积分赛）/ Mexicano（按积分榜配对的积分赛）/ 锦标赛（小组循环 + 淘汰赛）
+export type SessionFormat =
+  'rotation' | 'schedule' | 'king-of-court' | 'ladder' | 'americano' | 'mexicano' | 'tournament';
+
+// 最少休息的计量单位：场数 / 分钟
+export type RestUnit = 'games' | 'minutes';
+
+// 迟到补记策略：不补记 / 追平当前最少场数 / 按平均场数 / 按缺席时长折算
+export type LateJoinPolicy = 'none' | 'minimum' | 'average' | 'prorated';
+
+// 场上选手离开时的处理方式：提前结束这场比赛 / 由其他人替换上场
+export type OnCourtLeaveAction = 'finish' | 'substitute';
+
+// 手动调整等待队列：调整组的顺序 / 交换选手 / 锁定或解锁某一组
+export type QueueEditAction = 'move' | 'swap' | 'lock';
+
+// 组队模式枚举：不限 / 混双 / 同性双打 / 优先混双
+export type PairingMode = 'any' | 'mixed' | 'same-gender' | 'mixed-preferred';
+
 // 用户角色枚举
 export type UserRole = 'participant' | 'admin' | 'superadmin';
 
@@ -24,6 +53,20 @@ export interface Participant {
   hasLeft: boolean;          // 是否已离开
   leftAt?: Date;            // 离开时间
   leftReason?: string;      // 离开原因（可选）
+  wins?: number;            // 胜场数
+  losses?: number;          // 负场数
+  pointDifferential?: number; // 净胜分（得分 - 失分）
+  skillLevel?: number;      // 管理员录入的技术水平（如 3.0、3.5、4.0）
+  category?: ParticipantCategory; // 性别分类，未设置时可与任何人组队
+  rating?: number;          // 技术评分（跨球局持久化）
+  ratingDeviation?: number; // 评分不确定度，越大越不确定
+  courtMinutes?: number;    // 累计上场分钟数
+  waitingMinutes?: number;  // 累计等待分钟数（不含当前这次等待）
+  longestWaitMinutes?: number; // 最长一次等待的分钟数
+  waitingSince?: Date;      // 本次开始等待的时间，上场或离开时清空
+  consecutiveGames?: number; // 连续上场（中间没有休息）的场数
+  catchUpGames?: number;    // 迟到补记的场数，只用于排上场优先级
+  catchUpMinutes?: number;  // 迟到补记的上场分钟数，只用于按时长排优先级
 }
 
 // 队伍接口
@@ -43,6 +86,17 @@ export interface Court {
   team2: Team | null;
   status: CourtStatus;
   startTime?: Date;
+  streak?: number;  // 擂台赛：守擂队伍（team1）的连胜场数
+  tournamentMatchId?: string;  // 锦标赛：场地上正在进行的锦标赛比赛
+  tier?: CourtTier;  // 场地级别：只安排水平在范围内的选手
+  substituteStartTimes?: Record<string, Date>;  // 比赛中途替补上场的时间 - playerId: 上场时间
+  draining?: boolean;  // 待撤场：这场比赛结束后移除场地，不再安排新比赛
+}
+
+// 场地级别（水平范围），未设置的一端不限
+export interface CourtTier {
+  minLevel?: number;  // 最低水平（含），如 3.0
+  maxLevel?: number;  // 最高水平（含），如 3.5
 }
 
 // 权重设置接口
@@ -50,16 +104,213 @@ export interface Weight {
   id: string;
   player1: string;
   player2: string;
-  weight: number; // 1-10
+  weight: number; // -10 到 10（不含0），负数表示尽量避免该组合
   type: WeightType;
   createdAt: Date;
 }
 
+// 禁止组合规则接口（硬性约束，算法不会安排违反规则的比赛）
+export interface PairExclusion {
+  id: string;
+  player1: string;
+  player2: string;
+  type: ExclusionType;
+  reason?: string;
+  createdAt: Date;
+}
+
+// 固定搭档接口（整场球局一起上场、一起休息，不会被拆开）
+export interface LockedPair {
+  id: string;
+  player1: string;
+  player2: string;
+  createdAt: Date;
+}
+
 // 比赛匹配接口
 export interface GameMatch {
   team1: Team;
   team2: Team;
   courtId?: number;
+  locked?: boolean;  // 等待队列中锁定的组：自动维护队列时保留原位，不重新分组
+}
+
+// 比赛比分接口
+export interface GameScore {
+  team1: number;
+  team2: number;
+}
+
+// 比赛结果记录接口
+export interface GameResult {
+  id: string;
+  courtId: number;
+  team1: Team;
+  team2: Team;
+  score?: GameScore;           // 未录入比分时为空
+  winner?: 'team1' | 'team2';  // 未录入比分时为空
+  startTime?: Date;
+  endTime: Date;
+}
+
+// 选手评分接口（跨球局持久化，以选手姓名为标识）
+export interface PlayerRating {
+  playerName: string;
+  rating: number;
+  ratingDeviation: number;
+  gamesRated: number;
+  lastPlayedAt?: Date;
+  updatedAt: Date;
+}
+
+// 评分变化历史接口
+export interface RatingHistoryEntry {
+  id: string;
+  playerName: string;
+  sessionId: string;
+  gameId: string;
+  ratingBefore: number;
+  ratingAfter: number;
+  deviationBefore: number;
+  deviationAfter: number;
+  won: boolean;
+  createdAt: Date;
+}
+
+// 组队随机种子来源：创建球局 / 重新分配 / 下一轮 / 场地结束后补位 / 队列维护 / 预排赛程
+export type GenerationSource = 'create' | 'generate' | 'next-round' | 'finish-game' | 'queue' | 'schedule';
+
+// 组队随机种子记录接口（用于重放和解释有争议的分配）
+export interface GenerationSeedRecord {
+  seed: number;
+  round: number;
+  source: GenerationSource;
+  createdAt: Date;
+}
+
+// 预排赛程中的一轮
+export interface ScheduleRound {
+  round: number;          // 轮次，从1开始
+  matches: GameMatch[];   // 本轮各场地的比赛（含 courtId）
+  sittingOut: string[];   // 本轮轮空的参与者
+}
+
+// 预排赛程覆盖情况统计
+export interface ScheduleStats {
+  partnerPairs: number;        // 至少搭档过一次的组合数
+  possiblePartnerPairs: number; // 所有可能的搭档组合数
+  repeatedPartnerPairs: number; // 搭档超过一次的组合数
+  opponentPairs: number;       // 至少对战过一次的组合数
+  minSitOuts: number;          // 轮空次数最少的人的轮空次数
+  maxSitOuts: number;          // 轮空次数最多的人的轮空次数
+}
+
+// 预排赛程接口（循环赛，整场赛程一次生成；Mexicano 逐轮生成）
+export interface SessionSchedule {
+  rounds: ScheduleRound[];
+  playerIds: string[];    // 生成赛程时的参与者
+  currentRound: number;   // 已开始的轮次，0 表示尚未开始
+  totalRounds?: number;   // 计划轮数，未设置时等于已生成的轮数
+  seed: number;
+  stats: ScheduleStats;
+  createdAt: Date;
+}
+
+// 积分赛（Americano / Mexicano）积分榜中的一行
+export interface PlayerStanding {
+  playerId: string;
+  rank: number;           // 名次，积分和净胜分都相同时并列
+  points: number;         // 个人积分：所在队伍每场的得分之和
+  pointsAgainst: number;  // 失分：对手每场的得分之和
+  gamesPlayed: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  sitOuts: number;        // 已开始的轮次中的轮空次数
+}
+
+// 锦标赛阶段：小组循环 / 淘汰赛 / 瑞士制 / 已结束
+export type TournamentStage = 'pools' | 'bracket' | 'swiss' | 'finished';
+
+// 淘汰赛类型：单败淘汰 / 双败淘汰
+export type BracketType = 'single' | 'double';
+
+// 锦标赛比赛所属赛区：小组赛 / 胜者组 / 败者组 / 总决赛 / 瑞士制
+export type TournamentBracket = 'pool' | 'winners' | 'losers' | 'final' | 'swiss';
+
+// 锦标赛报名队伍（固定两人）
+export interface TournamentTeam {
+  id: string;
+  name: string;
+  player1: string;
+  player2: string;
+  seed: number;  // 报名种子序号，从1开始
+  opponents?: Record<string, number>;  // 队伍级对手记录 - teamId: 交手次数
+}
+
+// 创建锦标赛时提交的报名队伍，未填写队名时使用两名队员的名字
+export interface TournamentTeamInput {
+  name?: string;
+  player1: string;
+  player2: string;
+}
+
+// 锦标赛小组
+export interface TournamentPool {
+  id: string;
+  name: string;
+  teamIds: string[];
+}
+
+// 比赛结果流向：胜者 / 负者进入的下一场比赛及位置
+export interface TournamentSlotRef {
+  matchId: string;
+  slot: 'team1' | 'team2';
+}
+
+// 锦标赛比赛（小组赛比赛和淘汰赛对阵表节点）
+// 队伍为 undefined 表示等待上一场结果，为 null 表示轮空（不会有队伍进入）
+export interface TournamentMatch {
+  id: string;
+  bracket: TournamentBracket;
+  poolId?: string;          // 小组赛所属小组
+  round: number;            // 赛区内的轮次，从1开始
+  position: number;         // 轮次内的位置，从0开始
+  team1Id?: string | null;
+  team2Id?: string | null;
+  winnerTo?: TournamentSlotRef;
+  loserTo?: TournamentSlotRef;
+  status: 'pending' | 'playing' | 'finished';
+  courtId?: number;
+  score?: GameScore;
+  winnerId?: string;        // 轮空晋级时也会设置
+  startTime?: Date;
+  endTime?: Date;
+}
+
+// 小组积分榜中的一行
+export interface TournamentTeamStanding {
+  teamId: string;
+  rank: number;
+  played: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  buchholz?: number;  // 瑞士制：所有对手的胜场之和
+}
+
+// 锦标赛接口
+export interface Tournament {
+  stage: TournamentStage;
+  bracketType: BracketType; // 淘汰赛类型（瑞士制不使用）
+  advancePerPool: number;   // 每个小组晋级淘汰赛的队伍数
+  swissRounds?: number;     // 瑞士制的轮数，设置时为瑞士制锦标赛
+  teams: TournamentTeam[];
+  pools: TournamentPool[];  // 不分组时为空，直接进入淘汰赛
+  matches: TournamentMatch[];
+  championId?: string;
+  createdAt: Date;
 }
 
 // 游戏会话接口
@@ -69,6 +320,15 @@ export interface GameSession {
   courts: Court[];
   queue: GameMatch[];  // 预分配队列
   weights: Weight[];
+  exclusions?: PairExclusion[];  // 禁止组合规则
+  lockedPairs?: LockedPair[];    // 固定搭档
+  results?: GameResult[];  // 已完成比赛的结果记录
+  seedHistory?: GenerationSeedRecord[];  // 每次组队使用的随机种子
+  schedule?: SessionSchedule;  // 预排赛程（赛程模式）
+  challengerQueue?: string[];  // 擂台赛：挑战者排队顺序
+  tournament?: Tournament;     // 锦标赛（锦标赛赛制）
+  queueWarning?: string;       // 休息规则导致等待队列排不满时的提示（人手不足）
+  ruleWarning?: string;        // 人员不足以满足禁止组合或固定搭档规则、已临时放宽时的提示
   createdBy: string; // 创建者用户ID
   createdAt: Date;
   updatedAt: Date;
@@ -76,6 +336,20 @@ export interface GameSession {
     courtCount: number;
     participantCount: number;
     maxGamesPerRound: number;
+    format?: SessionFormat;       // 赛制，默认自由轮换
+    kingStreakLimit?: number;     // 擂台赛：连胜多少场后守擂队伍下场，0 表示不限
+    pointsPerMatch?: number;      // 积分赛：每场双方得分之和（如 24），未设置时不限制
+    swissRounds?: number;         // 瑞士制：创建球局时设置的轮数
+    skillBalanceWeight?: number;  // 技术平衡权重，0 表示不考虑双方实力差
+    pairingMode?: PairingMode;    // 组队模式，默认不限
+    fairnessMode?: FairnessMode;  // 公平性模式，默认按比赛场数
+    queueDepth?: number;          // 等待队列组数，默认2组
+    maxConsecutiveGames?: number; // 最多连续上场场数，0 或未设置表示不限
+    minRest?: number;             // 两场之间最少休息，0 或未设置表示不限
+    minRestUnit?: RestUnit;       // 最少休息的单位，默认按场数
+    lateJoinPolicy?: LateJoinPolicy; // 迟到补记策略，默认不补记
+    scoringPreset?: ScoringPreset | 'custom';  // 当前使用的评分预设
+    scoringCoefficients?: ScoringCoefficients; // 评分系数，未设置时使用默认值
   };
   stats: {
     totalGamesPlayed: number;
@@ -88,6 +362,8 @@ export interface TeamAssignmentResult {
   courts: Court[];
   queue: GameMatch[];
   waiting: string[];
+  queueWarning?: string;  // 休息规则导致等待队列排不满时的提示
+  ruleWarning?: string;   // 人员不足以满足禁止组合或固定搭档规则、已临时放宽时的提示
   stats: {
     fairnessScore: number;
     weightEffectiveness: number;
@@ -100,10 +376,43 @@ export interface TeamScoreDetails {
   fairnessScore: number;
   weightBonus: number;
   repetitionPenalty: number;
+  balanceScore: number;
+  pairingBonus: number;
   randomFactor: number;
   totalScore: number;
 }
 
+// 评分预设
+export type ScoringPreset = 'default' | 'strict-rotation' | 'social-mixing' | 'competitive';
+
+// 组队评分系数接口
+export interface ScoringCoefficients {
+  fairness: number;              // 公平性评分系数
+  weightBonus: number;           // 权重加分系数
+  repetition: number;            // 重复惩罚系数
+  teammateWeightFactor: number;  // 队友权重每点的加分
+  opponentWeightFactor: number;  // 对手权重每点的加分
+  teammateRepeatPenalty: number; // 每次重复搭档的惩罚
+  opponentRepeatPenalty: number; // 每次重复对战的惩罚
+  randomness: number;            // 随机因子幅度（0.1 表示 ±5%）
+}
+
+// 组队评分选项接口（由球局设置决定）
+export interface ScoringOptions {
+  skillBalanceWeight?: number;
+  pairingMode?: PairingMode;
+  fairnessMode?: FairnessMode;
+  queueDepth?: number;  // 等待队列组数
+  maxConsecutiveGames?: number;  // 最多连续上场场数
+  minRest?: number;              // 两场之间最少休息
+  minRestUnit?: RestUnit;        // 最少休息的单位
+  coefficients?: ScoringCoefficients;
+  exclusions?: PairExclusion[];  // 禁止组合规则（硬性约束）
+  lockedPairs?: LockedPair[];    // 固定搭档（硬性约束）
+  courts?: Pick<Court, 'id' | 'name' | 'tier'>[];  // 球局现有的场地（编号、名称、级别），重新分配时保留
+  random?: () => number;  // 随机数源，未指定时使用 Math.random
+}
+
 // Socket.io 事件类型定义
 export interface ServerToClientEvents {
   'session-updated': (session: GameSession) => void;
@@ -140,6 +449,8 @@ export interface CreateSessionRequest {
   courtCount: number;
   maxGamesPerRound?: number;
   customSessionId?: string; // 可选的自定义会话ID
+  skillBalanceWeight?: number; // 实力平衡权重，0 表示纯社交组队
+  swissRounds?: number; // 瑞士制轮数（可选，创建锦标赛时作为默认值）
 }
 
 // 统计信息接口